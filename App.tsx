@@ -1,73 +1,166 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import Sidebar from './components/Sidebar';
 import MessageBubble from './components/MessageBubble';
 import InputArea from './components/InputArea';
-import { ChatSession, Message, Role, Attachment } from './types';
-import { streamGeminiResponse } from './services/geminiService';
-import { DEFAULT_MODEL } from './constants';
+import StorageManager from './components/StorageManager';
+import ContextIndicator from './components/ContextIndicator';
+import ChatHeader from './components/ChatHeader';
+import ProjectContextPanel from './components/ProjectContextPanel';
+import SettingsPanel from './components/SettingsPanel';
+import WorkspacePanel from './components/WorkspacePanel';
+import UsagePanel from './components/UsagePanel';
+import { SettingsContext } from './components/SettingsContext';
+import { ChatContext, ChatContextValue } from './components/ChatContext';
+import { ChatSession, Message, Role, Attachment, ModelInfo, ProjectContext, AppSettings, MetadataIndex, WorkspaceModule, GenerationSettings, SessionGeneration, ResponseFormat, MetadataDesign } from './types';
+import { streamChatResponse, loadAvailableModels, qualifyModelId } from './services/chatProvider';
+import { getActivePath, getSiblings, appendMessages, selectBranch, revealMessage } from './utils/messageTree';
+import { listSessionSummaries, loadSession, saveSession, deleteSessions, requestPersistentStorage, loadMetadataIndex, listKnowledgeChunks } from './services/storageService';
+import { buildContextWindow, composeSystemInstruction, estimateTokens, summarizeMessages } from './services/contextService';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { getTargetPlatformVersion } from './services/projectContextService';
+import { createModule, getSourceFiles, mergeModules } from './services/workspaceService';
+import { findMentionedObjects, formatMetadataContext, getObjectPath } from './services/metadataService';
+import { KnowledgeIndex, buildKnowledgeIndex, searchKnowledge, toCitation } from './services/knowledgeService';
+import { BUDGET_WARNING_RATIO, addUsage, clearUsageLog, formatCost, getDailyCost, loadUsageLog, recordUsage, summarizeSessionUsage, toDateKey } from './services/usageService';
+import { getRegisteredTools } from './services/toolService';
+import { DESIGN_INSTRUCTION, DESIGN_SCHEMA, serializeMetadataDesign } from './services/metadataDesignService';
+import { createChatError } from './utils/errorUtils';
+import { DEFAULT_MODEL, MODELS, DEFAULT_CONTEXT_BUDGET } from './constants';
 
 const App: React.FC = () => {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
+  const [generations, setGenerations] = useState<Record<string, SessionGeneration>>({});
   const [currentModelId, setCurrentModelId] = useState<string>(DEFAULT_MODEL);
+  const [availableModels, setAvailableModels] = useState<ModelInfo[]>(MODELS);
+  const [isStorageManagerOpen, setIsStorageManagerOpen] = useState(false);
+  const [isStorageFull, setIsStorageFull] = useState(false);
+  const [isProjectContextOpen, setIsProjectContextOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isWorkspaceOpen, setIsWorkspaceOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [usageLog, setUsageLog] = useState(loadUsageLog);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [metadataIndex, setMetadataIndex] = useState<MetadataIndex | null>(null);
+  const [knowledgeIndex, setKnowledgeIndex] = useState<KnowledgeIndex | null>(null);
+  // Search result to show once its session is loaded, and the message currently highlighted after the jump
+  const [pendingJump, setPendingJump] = useState<{ sessionId: string; messageId: string } | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Last persisted object per session id; sessions are immutable, so identity means "unchanged"
+  const savedSessionsRef = useRef<Map<string, ChatSession>>(new Map());
+  // One controller per session that is generating an answer
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
+  // Read by finishing requests to tell whether their chat is still on screen
+  const currentSessionIdRef = useRef<string | null>(null);
 
-  // Load from local storage on mount
+  // Load session summaries from IndexedDB on mount; messages are loaded when a session is opened
   useEffect(() => {
-    const stored = localStorage.getItem('1c_chat_sessions');
     const storedModel = localStorage.getItem('1c_chat_model');
     
     if (storedModel) {
-      setCurrentModelId(storedModel);
+      setCurrentModelId(qualifyModelId(storedModel));
     }
 
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        setSessions(parsed);
-        if (parsed.length > 0) {
-          setCurrentSessionId(parsed[0].id);
-        } else {
+    loadAvailableModels().then(setAvailableModels);
+    requestPersistentStorage();
+
+    if (settings.activeMetadataId) {
+      loadMetadataIndex(settings.activeMetadataId)
+        .then(setMetadataIndex)
+        .catch(e => console.error("Failed to load configuration metadata", e));
+    }
+
+    reloadKnowledge();
+
+    listSessionSummaries()
+      .then(summaries => {
+        if (summaries.length === 0) {
           createNewSession();
+          return;
         }
-      } catch (e) {
+        setSessions(summaries.map(summary => ({
+          id: summary.id,
+          title: summary.title,
+          updatedAt: summary.updatedAt,
+          messages: [],
+          messagesLoaded: false
+        })));
+        setCurrentSessionId(summaries[0].id);
+      })
+      .catch(e => {
         console.error("Failed to load sessions", e);
         createNewSession();
-      }
-    } else {
-      createNewSession();
-    }
+      });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Save to local storage whenever sessions change
+  // Opening a chat marks its finished answer as read
   useEffect(() => {
-    const saveToStorage = () => {
-      try {
-        if (sessions.length > 0) {
-          const safeSessions = sessions.map(session => ({
-            ...session,
-            messages: session.messages.map(msg => ({
-              ...msg,
-              attachments: msg.attachments?.map(att => ({
-                ...att,
-                data: '' 
-              }))
-            }))
-          }));
-          
-          try {
-             localStorage.setItem('1c_chat_sessions', JSON.stringify(safeSessions));
-          } catch (innerError) {
-             console.warn("LocalStorage save failed", innerError);
+    currentSessionIdRef.current = currentSessionId;
+    if (currentSessionId && generations[currentSessionId]?.unread) {
+      updateGeneration(currentSessionId, { unread: false });
+    }
+  }, [currentSessionId, generations]);
+
+  // Lazily load the messages of the selected session
+  useEffect(() => {
+    const session = sessions.find(s => s.id === currentSessionId);
+    if (!session || session.messagesLoaded !== false) return;
+
+    loadSession(session.id)
+      .then(loaded => {
+        const restored = loaded || { ...session, messagesLoaded: true };
+        savedSessionsRef.current.set(restored.id, restored);
+        setSessions(prev => prev.map(s => (s.id === restored.id && s.messagesLoaded === false ? restored : s)));
+      })
+      .catch(e => console.error("Failed to load session", e));
+  }, [currentSessionId, sessions]);
+
+  // Jump to a search result: switch to its branch, scroll to it and highlight it for a moment
+  useEffect(() => {
+    if (!pendingJump) return;
+    const session = sessions.find(s => s.id === pendingJump.sessionId);
+    if (!session) {
+      setPendingJump(null);
+      return;
+    }
+    if (session.messagesLoaded === false) return;
+
+    const { messageId } = pendingJump;
+    setPendingJump(null);
+    if (!getActivePath(session).some(m => m.id === messageId)) {
+      setSessions(prev => prev.map(s => (s.id === session.id ? revealMessage(s, messageId) : s)));
+    }
+    setHighlightedMessageId(messageId);
+  }, [pendingJump, sessions]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeoutId = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedMessageId]);
+
+  // Persist sessions that changed since the last save
+  useEffect(() => {
+    const saveToStorage = async () => {
+      const changed = sessions.filter(s =>
+        s.messagesLoaded !== false && savedSessionsRef.current.get(s.id) !== s
+      );
+
+      for (const session of changed) {
+        try {
+          await saveSession(session);
+          savedSessionsRef.current.set(session.id, session);
+          setIsStorageFull(false);
+        } catch (e) {
+          console.warn("IndexedDB save failed", e);
+          if (e instanceof DOMException && e.name === 'QuotaExceededError') {
+            setIsStorageFull(true);
           }
-        } else {
-          localStorage.setItem('1c_chat_sessions', JSON.stringify([]));
         }
-      } catch (e) {
-        console.warn("LocalStorage error", e);
       }
     };
     
@@ -91,8 +184,14 @@ const App: React.FC = () => {
     setCurrentSessionId(newSession.id);
   };
 
-  const deleteSession = (id: string) => {
-    const updatedSessions = sessions.filter(s => s.id !== id);
+  const deleteSessionsByIds = (ids: string[]) => {
+    const updatedSessions = sessions.filter(s => !ids.includes(s.id));
+    ids.forEach(id => {
+      savedSessionsRef.current.delete(id);
+      abortControllersRef.current.get(id)?.abort();
+    });
+    setGenerations(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !ids.includes(id))));
+    deleteSessions(ids).catch(e => console.error("Failed to delete sessions", e));
     
     if (updatedSessions.length === 0) {
       const newSession = {
@@ -105,121 +204,226 @@ const App: React.FC = () => {
       setCurrentSessionId(newSession.id);
     } else {
       setSessions(updatedSessions);
-      if (currentSessionId === id) {
+      if (currentSessionId && ids.includes(currentSessionId)) {
         setCurrentSessionId(updatedSessions[0].id);
       }
     }
   };
 
+  const deleteSession = (id: string) => deleteSessionsByIds([id]);
+
   const currentSession = sessions.find(s => s.id === currentSessionId);
 
-  const processResponse = async (history: Message[], text: string, attachments: Attachment[], useSearch: boolean) => {
-    setIsLoading(true);
+  const activePath = currentSession ? getActivePath(currentSession) : [];
+  const isLoading = Boolean(currentSessionId && generations[currentSessionId]?.isLoading);
+  const currentModel = availableModels.find(m => m.id === currentModelId);
+
+  const getModelName = (modelId?: string) => {
+    if (!modelId) return undefined;
+    const qualifiedId = qualifyModelId(modelId);
+    return availableModels.find(m => m.id === qualifiedId)?.name || qualifiedId;
+  };
+
+  const todayCost = getDailyCost(usageLog, toDateKey(Date.now()), settings.modelPrices);
+  const budgetWarning = settings.dailyBudget && todayCost >= settings.dailyBudget * BUDGET_WARNING_RATIO
+    ? {
+        message: `Расход за сегодня ${formatCost(todayCost)} из бюджета ${formatCost(settings.dailyBudget)}`,
+        exceeded: todayCost >= settings.dailyBudget
+      }
+    : undefined;
+
+  const currentContextWindow = buildContextWindow(
+    activePath,
+    currentSession?.contextSummary,
+    currentModel?.contextBudget ?? DEFAULT_CONTEXT_BUDGET
+  );
+
+  const updateMessage = (sessionId: string, messageId: string, update: (msg: Message) => Message) => {
+    setSessions(prev => prev.map(s => {
+      if (s.id !== sessionId) return s;
+      return { ...s, messages: s.messages.map(m => (m.id === messageId ? update(m) : m)) };
+    }));
+  };
+
+  const updateGeneration = (sessionId: string, update: Partial<SessionGeneration>) => {
+    setGenerations(prev => ({ ...prev, [sessionId]: { ...prev[sessionId], ...update } }));
+  };
+
+  const createModelPlaceholder = (format?: ResponseFormat): Message => ({
+    id: uuidv4(),
+    role: Role.MODEL,
+    text: '',
+    timestamp: Date.now(),
+    isThinking: true,
+    modelId: currentModelId,
+    format
+  });
+
+  // Everything the request needs is taken from `session` up front, so the user may switch chats while it streams
+  const processResponse = async (
+    session: ChatSession,
+    history: Message[],
+    text: string,
+    attachments: Attachment[],
+    useSearch: boolean,
+    modelMessageId: string,
+    format?: ResponseFormat
+  ) => {
+    const sessionId = session.id;
+    const abortController = new AbortController();
+    abortControllersRef.current.set(sessionId, abortController);
+    setGenerations(prev => ({ ...prev, [sessionId]: { isLoading: true, messageId: modelMessageId } }));
 
     try {
-      await streamGeminiResponse({
-        history: history,
+      const budget = currentModel?.contextBudget ?? DEFAULT_CONTEXT_BUDGET;
+      const reservedTokens = estimateTokens(text);
+      let contextWindow = buildContextWindow(history, session.contextSummary, budget, reservedTokens);
+
+      // Turns that no longer fit are folded into the rolling summary before sending
+      if (contextWindow.unsummarized.length > 0) {
+        const summary = await summarizeMessages(
+          contextWindow.summary,
+          contextWindow.unsummarized,
+          currentModelId,
+          abortController.signal
+        );
+        // The summary request is recorded by the context service
+        setUsageLog(loadUsageLog());
+        if (summary) {
+          setSessions(prev => prev.map(s => (s.id === sessionId ? { ...s, contextSummary: summary } : s)));
+          contextWindow = buildContextWindow(history, summary, budget, reservedTokens);
+        }
+      }
+      if (abortController.signal.aborted) return;
+
+      const metadataObjects = metadataIndex ? findMentionedObjects(metadataIndex, text) : [];
+      if (metadataObjects.length > 0) {
+        updateMessage(sessionId, modelMessageId, msg => ({ ...msg, metadataRefs: metadataObjects.map(getObjectPath) }));
+      }
+
+      const knowledge = knowledgeIndex && settings.useKnowledgeBase ? searchKnowledge(knowledgeIndex, text) : [];
+      if (knowledge.length > 0) {
+        updateMessage(sessionId, modelMessageId, msg => ({ ...msg, knowledgeSources: knowledge.map(toCitation) }));
+      }
+
+      let answeredBy = currentModelId;
+      await streamChatResponse({
+        history: contextWindow.messages,
+        systemInstruction: composeSystemInstruction({
+          summary: contextWindow.summary,
+          projectContext: session.projectContext,
+          metadata: metadataIndex ? formatMetadataContext(metadataIndex, metadataObjects) : undefined
+        }) + (format === 'metadataDesign' ? `\n${DESIGN_INSTRUCTION}` : ''),
         newMessage: text,
         attachments: attachments,
+        knowledge,
         useSearch: useSearch,
         modelId: currentModelId,
+        responseSchema: format === 'metadataDesign' ? DESIGN_SCHEMA : undefined,
+        generation: session.generationSettings,
+        retryPolicy: settings.retryPolicy,
+        tools: settings.useTools ? getRegisteredTools() : undefined,
+        toolContext: { metadata: metadataIndex, disabledLintRules: settings.disabledLintRules },
+        signal: abortController.signal,
         onChunk: (chunkText) => {
-          setSessions(prev => prev.map(s => {
-            if (s.id === currentSessionId) {
-              const msgs = [...s.messages];
-              const lastMsgIndex = msgs.length - 1;
-              const lastMsg = msgs[lastMsgIndex];
-              
-              if (lastMsg.role === Role.MODEL) {
-                msgs[lastMsgIndex] = {
-                  ...lastMsg,
-                  text: chunkText,
-                  isThinking: false
-                };
-              }
-              return { ...s, messages: msgs };
-            }
-            return s;
+          updateMessage(sessionId, modelMessageId, msg => ({
+            ...msg,
+            text: chunkText,
+            isThinking: false,
+            notice: undefined
           }));
         },
         onGrounding: (sources) => {
-          setSessions(prev => prev.map(s => {
-            if (s.id === currentSessionId) {
-              const msgs = [...s.messages];
-              const lastMsgIndex = msgs.length - 1;
-              const lastMsg = msgs[lastMsgIndex];
-
-              if (lastMsg.role === Role.MODEL) {
-                msgs[lastMsgIndex] = {
-                  ...lastMsg,
-                  groundingSources: sources
-                };
-              }
-              return { ...s, messages: msgs };
-            }
-            return s;
+          updateMessage(sessionId, modelMessageId, msg => ({
+            ...msg,
+            groundingSources: sources
           }));
+        },
+        onError: (error) => {
+          updateMessage(sessionId, modelMessageId, msg => ({ ...msg, error, isThinking: false }));
+          updateGeneration(sessionId, { error });
+        },
+        onNotice: (notice) => {
+          updateMessage(sessionId, modelMessageId, msg => ({ ...msg, notice }));
+        },
+        onModelChange: (modelId) => {
+          answeredBy = modelId;
+          updateMessage(sessionId, modelMessageId, msg => ({ ...msg, modelId }));
+        },
+        onUsage: (usage) => {
+          // Automatic continuations are separate requests that add up to one answer
+          updateMessage(sessionId, modelMessageId, msg => ({ ...msg, usage: msg.usage ? addUsage(msg.usage, usage) : usage }));
+          setUsageLog(recordUsage(answeredBy, usage));
+        },
+        onToolCall: (step) => {
+          // The same step arrives again with its result
+          updateMessage(sessionId, modelMessageId, msg => {
+            const steps = msg.toolCalls || [];
+            return {
+              ...msg,
+              toolCalls: steps.some(s => s.id === step.id) ? steps.map(s => (s.id === step.id ? step : s)) : [...steps, step]
+            };
+          });
         }
       });
     } catch (e) {
       console.error("Top level send error", e);
     } finally {
-      setIsLoading(false);
-      setSessions(prev => prev.map(s => {
-        if (s.id === currentSessionId) {
-          const msgs = [...s.messages];
-          const lastMsgIndex = msgs.length - 1;
-          const lastMsg = msgs[lastMsgIndex];
-          
-          if (lastMsg.role === Role.MODEL && lastMsg.isThinking) {
-             msgs[lastMsgIndex] = {
-               ...lastMsg,
-               isThinking: false,
-               text: lastMsg.text || "Не удалось получить ответ от сервера. Попробуйте сменить модель."
-             };
-          }
-          return { ...s, messages: msgs };
+      const wasAborted = abortController.signal.aborted;
+      abortControllersRef.current.delete(sessionId);
+      updateGeneration(sessionId, {
+        isLoading: false,
+        aborted: wasAborted,
+        unread: currentSessionIdRef.current !== sessionId
+      });
+      updateMessage(sessionId, modelMessageId, msg => {
+        if (wasAborted) {
+          return { ...msg, isThinking: false, isInterrupted: true, notice: undefined };
+        }
+        if (msg.isThinking) {
+          return { ...msg, isThinking: false, notice: undefined, error: msg.error || createChatError('unknown') };
         }
-        return s;
-      }));
+        return msg.notice ? { ...msg, notice: undefined } : msg;
+      });
     }
   };
 
-  const handleSendMessage = async (text: string, attachments: Attachment[], useSearch: boolean) => {
-    if (!currentSessionId) return;
+  const handleStop = () => {
+    if (currentSessionId) abortControllersRef.current.get(currentSessionId)?.abort();
+  };
+
+  const handleSendMessage = async (text: string, attachments: Attachment[], useSearch: boolean, format?: ResponseFormat) => {
+    if (!currentSession || isLoading) return;
 
     const newMessage: Message = {
       id: uuidv4(),
       role: Role.USER,
       text: text,
       timestamp: Date.now(),
-      attachments: attachments
+      attachments: attachments,
+      ...(useSearch && { useSearch })
     };
+    const modelMessage = createModelPlaceholder(format);
+    const history = activePath;
+    const parentId = history.length > 0 ? history[history.length - 1].id : null;
 
     setSessions(prev => prev.map(s => {
-      if (s.id === currentSessionId) {
+      if (s.id === currentSession.id) {
         const title = s.messages.length === 0 ? (text.slice(0, 30) + (text.length > 30 ? '...' : '')) : s.title;
         return {
-          ...s,
+          ...appendMessages(s, parentId, [newMessage, modelMessage]),
           title: title || "Вложение",
-          messages: [
-            ...s.messages, 
-            newMessage,
-            { id: 'temp-ai', role: Role.MODEL, text: '', timestamp: Date.now(), isThinking: true }
-          ],
           updatedAt: Date.now()
         };
       }
       return s;
     }));
 
-    const history = currentSession?.messages || [];
-
-    await processResponse(history, text, attachments, useSearch);
+    await processResponse(currentSession, history, text, attachments, useSearch, modelMessage.id, format);
   };
 
   const handleContinue = async () => {
-    if (!currentSessionId) return;
+    if (!currentSession || isLoading) return;
 
     const continueText = "Продолжи";
     
@@ -229,85 +433,314 @@ const App: React.FC = () => {
       text: continueText,
       timestamp: Date.now()
     };
+    const modelMessage = createModelPlaceholder();
+    const history = activePath;
+    const parentId = history.length > 0 ? history[history.length - 1].id : null;
 
     setSessions(prev => prev.map(s => {
-      if (s.id === currentSessionId) {
+      if (s.id === currentSession.id) {
         return {
-          ...s,
-          messages: [
-            ...s.messages,
-            newMessage,
-            { id: 'temp-ai-continue', role: Role.MODEL, text: '', timestamp: Date.now(), isThinking: true }
-          ],
+          ...appendMessages(s, parentId, [newMessage, modelMessage]),
           updatedAt: Date.now()
         };
       }
       return s;
     }));
-
-    const history = [...(currentSession?.messages || [])];
     
-    await processResponse(history, continueText, [], false);
+    await processResponse(currentSession, history, continueText, [], false, modelMessage.id);
+  };
+
+  // Editing a user message creates a sibling branch with the new text and a fresh answer
+  const handleEditMessage = async (messageId: string, newText: string) => {
+    if (!currentSession || isLoading) return;
+    const index = activePath.findIndex(m => m.id === messageId);
+    if (index < 0) return;
+
+    const original = activePath[index];
+    const editedMessage: Message = {
+      id: uuidv4(),
+      role: Role.USER,
+      text: newText,
+      timestamp: Date.now(),
+      attachments: original.attachments,
+      useSearch: original.useSearch
+    };
+    // The new answer keeps the format of the one it replaces
+    const format = activePath[index + 1]?.format;
+    const modelMessage = createModelPlaceholder(format);
+    const history = activePath.slice(0, index);
+
+    setSessions(prev => prev.map(s => {
+      if (s.id === currentSession.id) {
+        return {
+          ...appendMessages(s, original.parentId || null, [editedMessage, modelMessage]),
+          updatedAt: Date.now()
+        };
+      }
+      return s;
+    }));
+
+    await processResponse(currentSession, history, newText, original.attachments || [], Boolean(original.useSearch), modelMessage.id, format);
+  };
+
+  // Regenerating an answer adds a new sibling under the same user message
+  const handleRegenerate = async (messageId: string) => {
+    if (!currentSession || isLoading) return;
+    const index = activePath.findIndex(m => m.id === messageId);
+    if (index < 1) return;
+
+    const prompt = activePath[index - 1];
+    const format = activePath[index].format;
+    const modelMessage = createModelPlaceholder(format);
+    const history = activePath.slice(0, index - 1);
+
+    setSessions(prev => prev.map(s => {
+      if (s.id === currentSession.id) {
+        return {
+          ...appendMessages(s, prompt.id, [modelMessage]),
+          updatedAt: Date.now()
+        };
+      }
+      return s;
+    }));
+
+    await processResponse(currentSession, history, prompt.text, prompt.attachments || [], Boolean(prompt.useSearch), modelMessage.id, format);
+  };
+
+  // A failed answer is generated again in place, without creating a new branch
+  const handleRetry = async (messageId: string) => {
+    if (!currentSession || isLoading) return;
+    const index = activePath.findIndex(m => m.id === messageId);
+    if (index < 1) return;
+
+    const prompt = activePath[index - 1];
+    const format = activePath[index].format;
+    updateMessage(currentSession.id, messageId, msg => ({
+      ...createModelPlaceholder(format),
+      id: msg.id,
+      parentId: msg.parentId
+    }));
+
+    await processResponse(currentSession, activePath.slice(0, index - 1), prompt.text, prompt.attachments || [], Boolean(prompt.useSearch), messageId, format);
+  };
+
+  const handleTogglePin = (messageId: string) => {
+    if (!currentSessionId) return;
+    updateMessage(currentSessionId, messageId, msg => ({ ...msg, isPinned: !msg.isPinned }));
+  };
+
+  // Edits of a designed structure are stored as the answer text, so they survive reloads and export
+  const handleUpdateDesign = (messageId: string, design: MetadataDesign) => {
+    if (!currentSessionId) return;
+    updateMessage(currentSessionId, messageId, msg => ({ ...msg, text: serializeMetadataDesign(design) }));
+  };
+
+  const handleProjectContextChange = (projectContext: ProjectContext | undefined) => {
+    setSessions(prev => prev.map(s => (s.id === currentSessionId ? { ...s, projectContext, updatedAt: Date.now() } : s)));
+  };
+
+  const handleGenerationSettingsChange = (generationSettings: GenerationSettings | undefined) => {
+    setSessions(prev => prev.map(s => (s.id === currentSessionId ? { ...s, generationSettings, updatedAt: Date.now() } : s)));
+  };
+
+  const handleWorkspaceChange = (workspace: WorkspaceModule[] | undefined) => {
+    setSessions(prev => prev.map(s => (s.id === currentSessionId ? { ...s, workspace, updatedAt: Date.now() } : s)));
+  };
+
+  const handleUpdateModule = (path: string, text: string) => {
+    handleWorkspaceChange(mergeModules(currentSession?.workspace || [], [createModule(path, text)]));
+  };
+
+  // A new value re-renders every code block, so it changes only with the inputs, not with each streamed chunk
+  const attachmentKey = activePath.filter(m => m.attachments?.length).map(m => m.id).join();
+  const chatContext = useMemo<ChatContextValue>(() => ({
+    platformVersion: getTargetPlatformVersion(currentSession?.projectContext),
+    sourceFiles: getSourceFiles(activePath, currentSession?.workspace),
+    onUpdateModule: handleUpdateModule
+  }), [currentSessionId, currentSession?.projectContext, currentSession?.workspace, attachmentKey]);
+
+  const handleSelectBranch = (messageId: string) => {
+    setSessions(prev => prev.map(s => (s.id === currentSessionId ? selectBranch(s, messageId) : s)));
+  };
+
+  const getBranchInfo = (message: Message) => {
+    if (!currentSession) return undefined;
+    const siblings = getSiblings(currentSession, message);
+    if (siblings.length < 2) return undefined;
+    const index = siblings.findIndex(m => m.id === message.id);
+    return {
+      index,
+      total: siblings.length,
+      prevId: index > 0 ? siblings[index - 1].id : undefined,
+      nextId: index < siblings.length - 1 ? siblings[index + 1].id : undefined
+    };
+  };
+
+  const handleOpenSearchResult = (sessionId: string, messageId?: string) => {
+    setCurrentSessionId(sessionId);
+    if (messageId) setPendingJump({ sessionId, messageId });
+  };
+
+  const handleSettingsChange = (updated: AppSettings) => {
+    setSettings(updated);
+    saveSettings(updated);
+  };
+
+  // The BM25 index lives in memory and is rebuilt whenever documents are added or removed
+  const reloadKnowledge = () => {
+    listKnowledgeChunks()
+      .then(chunks => setKnowledgeIndex(chunks.length > 0 ? buildKnowledgeIndex(chunks) : null))
+      .catch(e => console.error("Failed to load knowledge base", e));
+  };
+
+  const handleActivateMetadata = (index: MetadataIndex | null) => {
+    setMetadataIndex(index);
+    handleSettingsChange({ ...settings, activeMetadataId: index?.id });
   };
 
   return (
-    <div className="flex h-screen bg-[#fcfcf9]">
-      <Sidebar 
-        isOpen={isSidebarOpen}
-        sessions={sessions}
-        currentSessionId={currentSessionId}
-        currentModelId={currentModelId}
-        onSelectSession={setCurrentSessionId}
-        onNewChat={createNewSession}
-        onDeleteSession={deleteSession}
-        onSelectModel={handleModelChange}
-        toggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
-      />
-
-      <div className="flex-1 flex flex-col h-full relative overflow-hidden">
-        {/* Mobile Header */}
-        <div className="md:hidden flex items-center p-4 border-b bg-white">
-          <button onClick={() => setIsSidebarOpen(true)} className="p-2 -ml-2 text-gray-600">
-            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
-            </svg>
-          </button>
-          <span className="font-serif font-bold ml-2">1C Эксперт AI</span>
-        </div>
+    <SettingsContext.Provider value={settings}>
+      <div className="flex h-screen bg-[#fcfcf9]">
+        <Sidebar 
+          isOpen={isSidebarOpen}
+          sessions={sessions}
+          generations={generations}
+          currentSessionId={currentSessionId}
+          currentModelId={currentModelId}
+          models={availableModels}
+          onSelectSession={setCurrentSessionId}
+          onOpenSearchResult={handleOpenSearchResult}
+          onNewChat={createNewSession}
+          onDeleteSession={deleteSession}
+          onSelectModel={handleModelChange}
+          onOpenStorage={() => setIsStorageManagerOpen(true)}
+          onOpenSettings={() => setIsSettingsOpen(true)}
+          metadataIndex={metadataIndex}
+          onActivateMetadata={handleActivateMetadata}
+          knowledgeIndex={knowledgeIndex}
+          onKnowledgeChange={reloadKnowledge}
+          onToggleKnowledge={(enabled) => handleSettingsChange({ ...settings, useKnowledgeBase: enabled })}
+          isStorageFull={isStorageFull}
+          toggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
+        />
+
+        <div className="flex-1 flex flex-col h-full relative overflow-hidden">
+          <ChatHeader
+            projectContext={currentSession?.projectContext}
+            moduleCount={currentSession?.workspace?.length || 0}
+            sessionUsage={summarizeSessionUsage(currentSession?.messages || [], settings.modelPrices)}
+            onOpenUsage={() => setIsUsageOpen(true)}
+            generationSettings={currentSession?.generationSettings}
+            model={currentModel}
+            onGenerationSettingsChange={handleGenerationSettingsChange}
+            onOpenSidebar={() => setIsSidebarOpen(true)}
+            onOpenProjectContext={() => setIsProjectContextOpen(true)}
+            onOpenWorkspace={() => setIsWorkspaceOpen(true)}
+          />
 
-        {/* Chat Area - UPDATED LAYOUT */}
-        {/* If messages exist, allow scrolling. If empty, center content without scroll. */}
-        <div className={`flex-1 ${currentSession?.messages.length === 0 ? 'flex flex-col justify-center items-center p-4 overflow-hidden' : 'overflow-y-auto p-4 md:p-8 scroll-smooth'}`}>
-          <div className={`${currentSession?.messages.length === 0 ? 'w-full max-w-lg' : 'max-w-4xl mx-auto w-full'}`}>
-            {currentSession?.messages.length === 0 ? (
-              <div className="flex flex-col items-center justify-center text-center opacity-80 animate-fadeIn">
-                 <div className="w-16 h-16 bg-[#d97757] rounded-2xl flex items-center justify-center mb-6 shadow-lg">
-                    <span className="text-3xl text-white font-serif">1C</span>
-                 </div>
-                 <h2 className="text-2xl font-serif text-gray-800 mb-2">Добро пожаловать в 1C Эксперт AI</h2>
-                 <p className="text-gray-500 max-w-md mx-auto">
-                   Я помогу создать базы 1С, написать код на встроенном языке и исправить ошибки конфигурации. 
-                   Загрузите файлы (PDF, Excel, Word) или скриншоты для анализа.
-                 </p>
-              </div>
-            ) : (
-              currentSession?.messages.map((msg, idx) => (
-                <MessageBubble 
-                  key={idx} 
-                  message={msg} 
-                  isLast={idx === currentSession.messages.length - 1}
-                  onContinue={handleContinue}
-                  isLoading={isLoading}
-                />
-              ))
-            )}
+          {/* Chat Area - UPDATED LAYOUT */}
+          {/* If messages exist, allow scrolling. If empty, center content without scroll. */}
+          <div className={`flex-1 ${activePath.length === 0 ? 'flex flex-col justify-center items-center p-4 overflow-hidden' : 'overflow-y-auto p-4 md:p-8 scroll-smooth'}`}>
+            <div className={`${activePath.length === 0 ? 'w-full max-w-lg' : 'max-w-4xl mx-auto w-full'}`}>
+              {activePath.length === 0 ? (
+                <div className="flex flex-col items-center justify-center text-center opacity-80 animate-fadeIn">
+                   <div className="w-16 h-16 bg-[#d97757] rounded-2xl flex items-center justify-center mb-6 shadow-lg">
+                      <span className="text-3xl text-white font-serif">1C</span>
+                   </div>
+                   <h2 className="text-2xl font-serif text-gray-800 mb-2">Добро пожаловать в 1C Эксперт AI</h2>
+                   <p className="text-gray-500 max-w-md mx-auto">
+                     Я помогу создать базы 1С, написать код на встроенном языке и исправить ошибки конфигурации. 
+                     Загрузите файлы (PDF, Excel, Word) или скриншоты для анализа.
+                   </p>
+                </div>
+              ) : (
+                <ChatContext.Provider value={chatContext}>
+                  {activePath.map((msg, idx) => (
+                    <MessageBubble 
+                      key={msg.id} 
+                      message={msg} 
+                      isLast={idx === activePath.length - 1}
+                      onContinue={handleContinue}
+                      onEdit={(text) => handleEditMessage(msg.id, text)}
+                      onRegenerate={() => handleRegenerate(msg.id)}
+                      onRetry={() => handleRetry(msg.id)}
+                      modelName={getModelName(msg.modelId)}
+                      onSelectBranch={handleSelectBranch}
+                      onTogglePin={() => handleTogglePin(msg.id)}
+                      onUpdateDesign={(design) => handleUpdateDesign(msg.id, design)}
+                      branch={getBranchInfo(msg)}
+                      isLoading={isLoading}
+                      isHighlighted={msg.id === highlightedMessageId}
+                    />
+                  ))}
+                </ChatContext.Provider>
+              )}
+            </div>
           </div>
+
+          {activePath.length > 0 && (
+            <ContextIndicator contextWindow={currentContextWindow} />
+          )}
+
+          {/* Input Area */}
+          <InputArea
+            onSend={handleSendMessage}
+            onStop={handleStop}
+            workspace={currentSession?.workspace}
+            isLoading={isLoading || currentSession?.messagesLoaded === false}
+            canStop={isLoading}
+            budgetWarning={budgetWarning}
+          />
         </div>
 
-        {/* Input Area */}
-        <InputArea onSend={handleSendMessage} isLoading={isLoading} />
+        {isStorageManagerOpen && (
+          <StorageManager
+            currentSessionId={currentSessionId}
+            onDeleteSessions={deleteSessionsByIds}
+            onClose={() => setIsStorageManagerOpen(false)}
+          />
+        )}
+
+        {isProjectContextOpen && currentSession && (
+          <ProjectContextPanel
+            context={currentSession.projectContext}
+            onSave={handleProjectContextChange}
+            onClose={() => setIsProjectContextOpen(false)}
+          />
+        )}
+
+        {isWorkspaceOpen && currentSession && (
+          <WorkspacePanel
+            modules={currentSession.workspace || []}
+            onChange={handleWorkspaceChange}
+            onClose={() => setIsWorkspaceOpen(false)}
+          />
+        )}
+
+        {isSettingsOpen && (
+          <SettingsPanel
+            settings={settings}
+            models={availableModels}
+            onChange={handleSettingsChange}
+            onClose={() => setIsSettingsOpen(false)}
+          />
+        )}
+
+        {isUsageOpen && (
+          <UsagePanel
+            log={usageLog}
+            models={availableModels}
+            settings={settings}
+            onSettingsChange={handleSettingsChange}
+            onClearLog={() => {
+              clearUsageLog();
+              setUsageLog([]);
+            }}
+            onClose={() => setIsUsageOpen(false)}
+          />
+        )}
       </div>
-    </div>
+    </SettingsContext.Provider>
   );
 };
 
@@ -0,0 +1,13 @@
+import { createContext, useContext } from 'react';
+import { SourceFile } from '../types';
+
+export interface ChatContextValue {
+  platformVersion: string; // Target version of the project ("8.3.14"), or '' when not set; limits the Syntax Assistant checks
+  sourceFiles: SourceFile[]; // Modules that code blocks of answers are compared with
+  onUpdateModule?: (path: string, text: string) => void; // Replaces the text of a workspace module
+}
+
+// Data of the open chat read by code blocks deep inside markdown renderers
+export const ChatContext = createContext<ChatContextValue>({ platformVersion: '', sourceFiles: [] });
+
+export const useChatContext = () => useContext(ChatContext);
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { GenerationSettings, ModelInfo, ProjectContext, TokenUsage } from '../types';
+import { describeProjectContext } from '../services/projectContextService';
+import { formatCost, formatTokenCount } from '../services/usageService';
+import { describeGenerationSettings } from '../services/generationService';
+import GenerationSettingsPopover from './GenerationSettingsPopover';
+
+interface ChatHeaderProps {
+  projectContext?: ProjectContext;
+  moduleCount: number;
+  sessionUsage: { usage: TokenUsage; cost: number };
+  generationSettings?: GenerationSettings;
+  model?: ModelInfo;
+  onGenerationSettingsChange: (settings: GenerationSettings | undefined) => void;
+  onOpenSidebar: () => void;
+  onOpenProjectContext: () => void;
+  onOpenWorkspace: () => void;
+  onOpenUsage: () => void;
+}
+
+const ChatHeader: React.FC<ChatHeaderProps> = ({
+  projectContext,
+  moduleCount,
+  sessionUsage,
+  generationSettings,
+  model,
+  onGenerationSettingsChange,
+  onOpenSidebar,
+  onOpenProjectContext,
+  onOpenWorkspace,
+  onOpenUsage
+}) => {
+  const [isGenerationOpen, setIsGenerationOpen] = useState(false);
+  const contextLabel = describeProjectContext(projectContext);
+  const generationLabel = describeGenerationSettings(generationSettings);
+  const { usage, cost } = sessionUsage;
+  const totalTokens = usage.promptTokens + usage.responseTokens;
+
+  return (
+    <div className="flex items-center p-4 md:px-8 md:py-2 border-b bg-white md:bg-transparent md:border-gray-100">
+      <button onClick={onOpenSidebar} className="md:hidden p-2 -ml-2 text-gray-600">
+        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+        </svg>
+      </button>
+      <span className="md:hidden font-serif font-bold ml-2">1C Эксперт AI</span>
+
+      <div className="ml-auto flex items-center gap-2 min-w-0">
+        <div className="relative flex-shrink-0">
+          <button
+            onClick={() => setIsGenerationOpen(!isGenerationOpen)}
+            className={`
+              flex items-center text-xs px-3 py-1 rounded-full border transition-colors
+              ${generationLabel
+                ? 'border-claude-accent/30 text-claude-accent hover:bg-claude-accent/5'
+                : 'border-gray-200 text-gray-400 hover:text-gray-600 hover:bg-gray-50'}
+            `}
+            title="Температура, top-p, длина ответа и рассуждения для этого чата"
+          >
+            <svg className="w-3.5 h-3.5 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+            </svg>
+            {generationLabel || 'Генерация'}
+          </button>
+          {isGenerationOpen && (
+            <GenerationSettingsPopover
+              settings={generationSettings}
+              model={model}
+              onChange={onGenerationSettingsChange}
+              onClose={() => setIsGenerationOpen(false)}
+            />
+          )}
+        </div>
+        <button
+          onClick={onOpenUsage}
+          className="flex-shrink-0 flex items-center text-xs px-3 py-1 rounded-full border border-gray-200 text-gray-400 hover:text-gray-600 hover:bg-gray-50 transition-colors font-mono"
+          title={`Расход в этом чате: вход ${usage.promptTokens} (из них кэш ${usage.cachedTokens}), выход ${usage.responseTokens} токенов`}
+        >
+          {totalTokens > 0 ? `${formatTokenCount(totalTokens)} ток. · ${formatCost(cost)}` : 'Расход'}
+        </button>
+        <button
+          onClick={onOpenWorkspace}
+          className={`
+            flex-shrink-0 flex items-center text-xs px-3 py-1 rounded-full border transition-colors
+            ${moduleCount > 0
+              ? 'border-claude-accent/30 text-claude-accent hover:bg-claude-accent/5'
+              : 'border-gray-200 text-gray-400 hover:text-gray-600 hover:bg-gray-50'}
+          `}
+          title="Модули BSL, на которые можно сослаться в сообщении через @"
+        >
+          <svg className="w-3.5 h-3.5 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+          </svg>
+          {moduleCount > 0 ? `Модули (${moduleCount})` : 'Модули'}
+        </button>
+        <button
+          onClick={onOpenProjectContext}
+          className={`
+            flex items-center min-w-0 text-xs px-3 py-1 rounded-full border transition-colors
+            ${contextLabel
+              ? 'border-claude-accent/30 text-claude-accent hover:bg-claude-accent/5'
+              : 'border-gray-200 text-gray-400 hover:text-gray-600 hover:bg-gray-50'}
+          `}
+          title="Конфигурация, версия платформы и особенности проекта для этого чата"
+        >
+          <svg className="w-3.5 h-3.5 mr-1 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+          </svg>
+          <span className="truncate">{contextLabel || 'Контекст проекта'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChatHeader;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { ContextWindow } from '../types';
+
+interface ContextIndicatorProps {
+  contextWindow: ContextWindow;
+}
+
+const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const ContextIndicator: React.FC<ContextIndicatorProps> = ({ contextWindow }) => {
+  const { messages, summary, unsummarized, totalMessages, usedTokens, budget } = contextWindow;
+  const usedPercent = Math.min(100, (usedTokens / budget) * 100);
+  const isTrimmed = messages.length < totalMessages;
+
+  return (
+    <div className="w-full max-w-3xl mx-auto px-4 -mb-1">
+      <div
+        className="flex items-center gap-2 text-[10px] text-gray-400 font-mono select-none"
+        title="Сколько истории чата отправляется модели с каждым запросом"
+      >
+        <div className="w-16 h-1 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${usedPercent > 90 ? 'bg-red-400' : 'bg-claude-accent/70'}`}
+            style={{ width: `${usedPercent}%` }}
+          />
+        </div>
+        <span>
+          Контекст: {messages.length} из {totalMessages} сообщ. • ~{formatTokens(usedTokens)} / {formatTokens(budget)} токенов
+        </span>
+        {summary && (
+          <span className="text-claude-accent" title={summary.text}>
+            + сводка ({summary.coveredMessageIds.length} сообщ.)
+          </span>
+        )}
+        {isTrimmed && unsummarized.length > 0 && (
+          <span>• {unsummarized.length} старых сообщ. будут сжаты</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContextIndicator;
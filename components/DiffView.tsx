@@ -0,0 +1,178 @@
+import React, { useMemo, useState } from 'react';
+import { DiffHunk, DiffLine, applyHunks, diffTexts } from '../utils/diffUtils';
+import { downloadFile } from '../utils/fileUtils';
+
+interface DiffViewProps {
+  original: string;
+  modified: string;
+  fileName: string;
+  onApply?: (text: string) => void; // Offered for workspace modules
+}
+
+type DiffMode = 'unified' | 'split';
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  equal: 'text-gray-600',
+  insert: 'bg-green-50 text-green-800',
+  delete: 'bg-red-50 text-red-800'
+};
+
+const LINE_MARKS: Record<DiffLine['type'], string> = { equal: ' ', insert: '+', delete: '-' };
+
+const numberClass = "w-10 shrink-0 pr-2 text-right text-gray-300 select-none";
+
+const UnifiedLines = ({ lines }: { lines: DiffLine[] }) => (
+  <>
+    {lines.map((line, i) => (
+      <div key={i} className={`flex ${LINE_STYLES[line.type]}`}>
+        <span className={numberClass}>{line.oldNumber ?? ''}</span>
+        <span className={numberClass}>{line.newNumber ?? ''}</span>
+        <span className="w-4 shrink-0 select-none">{LINE_MARKS[line.type]}</span>
+        <span className="whitespace-pre">{line.text}</span>
+      </div>
+    ))}
+  </>
+);
+
+// Deleted and inserted lines of one change are shown side by side
+const toSplitRows = (lines: DiffLine[]): [DiffLine | null, DiffLine | null][] => {
+  const rows: [DiffLine | null, DiffLine | null][] = [];
+  let deleted: DiffLine[] = [];
+  let inserted: DiffLine[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) rows.push([deleted[i] || null, inserted[i] || null]);
+    deleted = [];
+    inserted = [];
+  };
+  lines.forEach(line => {
+    if (line.type === 'delete') deleted.push(line);
+    else if (line.type === 'insert') inserted.push(line);
+    else {
+      flush();
+      rows.push([line, line]);
+    }
+  });
+  flush();
+  return rows;
+};
+
+const SplitCell = ({ line, side }: { line: DiffLine | null; side: 'old' | 'new' }) => (
+  <div className={`flex min-w-0 ${line ? LINE_STYLES[line.type] : 'bg-gray-50'}`}>
+    <span className={numberClass}>{(side === 'old' ? line?.oldNumber : line?.newNumber) ?? ''}</span>
+    <span className="whitespace-pre overflow-hidden">{line?.text ?? ''}</span>
+  </div>
+);
+
+const SplitLines = ({ lines }: { lines: DiffLine[] }) => (
+  <>
+    {toSplitRows(lines).map(([left, right], i) => (
+      <div key={i} className="grid grid-cols-2 divide-x divide-gray-200">
+        <SplitCell line={left} side="old" />
+        <SplitCell line={right} side="new" />
+      </div>
+    ))}
+  </>
+);
+
+const DiffView: React.FC<DiffViewProps> = ({ original, modified, fileName, onApply }) => {
+  const diff = useMemo(() => diffTexts(original, modified), [original, modified]);
+  const [mode, setMode] = useState<DiffMode>('unified');
+  const [accepted, setAccepted] = useState<boolean[]>(() => diff.hunks.map(() => true));
+  const [copied, setCopied] = useState(false);
+  const [applied, setApplied] = useState(false);
+
+  const merged = useMemo(() => applyHunks(diff, accepted), [diff, accepted]);
+  const acceptedCount = accepted.filter(Boolean).length;
+  const added = diff.lines.filter(l => l.type === 'insert').length;
+  const removed = diff.lines.filter(l => l.type === 'delete').length;
+
+  const setHunk = (hunk: DiffHunk, value: boolean) => {
+    setAccepted(prev => prev.map((v, i) => (i === hunk.index ? value : v)));
+    setApplied(false);
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(merged);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  // Configuration dumps keep modules in UTF-8 with BOM
+  const handleDownload = () => downloadFile(fileName, `\uFEFF${merged}`);
+
+  const handleApply = () => {
+    onApply?.(merged);
+    setApplied(true);
+  };
+
+  if (diff.hunks.length === 0) {
+    return <div className="px-4 py-3 text-xs text-gray-500 bg-white">Код совпадает с {fileName}</div>;
+  }
+
+  return (
+    <div className="bg-white text-xs">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 bg-gray-50 select-none">
+        <span className="text-gray-500">
+          {fileName}: <span className="text-green-700">+{added}</span> <span className="text-red-700">−{removed}</span>
+        </span>
+        <div className="flex rounded-md border border-gray-200 overflow-hidden">
+          {(['unified', 'split'] as DiffMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-2 py-0.5 ${mode === m ? 'bg-claude-accent text-white' : 'text-gray-500 hover:bg-gray-100'}`}
+            >
+              {m === 'unified' ? 'Общий' : 'Рядом'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="max-h-[480px] overflow-auto font-mono text-[12px] leading-5">
+        {diff.hunks.map(hunk => (
+          <div key={hunk.index} className={`border-b border-gray-100 ${accepted[hunk.index] ? '' : 'opacity-50'}`}>
+            <div className="sticky top-0 flex items-center justify-between px-2 py-1 bg-blue-50 text-blue-700 font-sans">
+              <span className="font-mono">@@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@</span>
+              <span className="flex gap-1">
+                <button
+                  onClick={() => setHunk(hunk, true)}
+                  className={`px-2 rounded ${accepted[hunk.index] ? 'bg-green-600 text-white' : 'text-green-700 hover:bg-green-100'}`}
+                >
+                  Принять
+                </button>
+                <button
+                  onClick={() => setHunk(hunk, false)}
+                  className={`px-2 rounded ${accepted[hunk.index] ? 'text-red-700 hover:bg-red-100' : 'bg-red-600 text-white'}`}
+                >
+                  Отклонить
+                </button>
+              </span>
+            </div>
+            {mode === 'unified' ? <UnifiedLines lines={hunk.lines} /> : <SplitLines lines={hunk.lines} />}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between px-4 py-2 border-t border-gray-200 bg-gray-50 select-none">
+        <span className="text-gray-500">Принято изменений: {acceptedCount} из {diff.hunks.length}</span>
+        <div className="flex gap-3">
+          <button onClick={handleCopy} className="text-gray-500 hover:text-claude-accent">
+            {copied ? 'Скопировано' : 'Копировать результат'}
+          </button>
+          <button onClick={handleDownload} className="text-gray-500 hover:text-claude-accent">Скачать</button>
+          {onApply && (
+            <button
+              onClick={handleApply}
+              disabled={applied}
+              className="px-2 py-0.5 rounded bg-claude-accent text-white hover:bg-[#c26646] disabled:opacity-50"
+            >
+              {applied ? 'Модуль обновлён' : 'Обновить модуль в чате'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiffView;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Attachment } from '../types';
+
+interface ExtractionPreviewProps {
+  attachment: Attachment;
+  onClose: () => void;
+}
+
+// Only the beginning is rendered: long spreadsheets would otherwise freeze the modal
+const PREVIEW_CHARS = 20_000;
+
+const ExtractionPreview: React.FC<ExtractionPreviewProps> = ({ attachment, onClose }) => {
+  const extraction = attachment.extraction;
+  if (!extraction) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-30 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[85vh] flex flex-col animate-fadeIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex justify-between items-start">
+          <div className="min-w-0">
+            <h2 className="font-serif font-bold text-lg text-gray-700 truncate">{attachment.name}</h2>
+            <p className="text-xs text-gray-400 mt-1">
+              Модели будет отправлен извлечённый текст ({extraction.details}, {extraction.text.length.toLocaleString('ru-RU')} симв.)
+            </p>
+            {extraction.truncated && (
+              <p className="text-xs text-amber-600 mt-1">
+                Текст обрезан: отправлено {extraction.text.length.toLocaleString('ru-RU')} из {extraction.originalLength.toLocaleString('ru-RU')} символов.
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 ml-4">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <pre className="flex-1 overflow-auto p-4 text-xs font-mono text-gray-700 whitespace-pre-wrap bg-gray-50 rounded-b-xl">
+          {extraction.text.slice(0, PREVIEW_CHARS) || '(текст не найден)'}
+          {extraction.text.length > PREVIEW_CHARS && '\n\n…'}
+        </pre>
+      </div>
+    </div>
+  );
+};
+
+export default ExtractionPreview;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { GenerationSettings, ModelInfo, ReasoningLevel } from '../types';
+import { CODE_MODE_GENERATION_SETTINGS, DEFAULT_GENERATION_SETTINGS } from '../constants';
+import { REASONING_LEVEL_LABELS, isCodeMode } from '../services/generationService';
+
+interface GenerationSettingsPopoverProps {
+  settings?: GenerationSettings;
+  model?: ModelInfo;
+  onChange: (settings: GenerationSettings | undefined) => void;
+  onClose: () => void;
+}
+
+const labelClass = "flex justify-between text-xs text-gray-500 mb-1";
+const THINKING_BUDGETS = [0, 1024, 4096, 8192, 16384];
+const MAX_OUTPUT_OPTIONS = [2048, 4096, 8192, 16384, 32768, 65536];
+
+const GenerationSettingsPopover: React.FC<GenerationSettingsPopoverProps> = ({ settings, model, onChange, onClose }) => {
+  const current = settings || DEFAULT_GENERATION_SETTINGS;
+
+  const update = (changes: Partial<GenerationSettings>) => onChange({ ...current, ...changes });
+
+  return (
+    <>
+      <div className="fixed inset-0 z-30" onClick={onClose} />
+      <div className="absolute right-0 top-full mt-2 z-40 w-72 bg-white rounded-xl shadow-xl border border-gray-200 p-4 space-y-3 animate-fadeIn text-left">
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isCodeMode(settings)}
+            onChange={(e) => onChange(e.target.checked ? CODE_MODE_GENERATION_SETTINGS : undefined)}
+            className="accent-claude-accent"
+          />
+          Детерминированный режим для кода
+        </label>
+
+        <div>
+          <div className={labelClass}>
+            <span>Температура</span>
+            <span className="font-mono">{current.temperature}</span>
+          </div>
+          <input
+            type="range" min={0} max={2} step={0.1}
+            value={current.temperature}
+            onChange={(e) => update({ temperature: Number(e.target.value) })}
+            className="w-full accent-claude-accent"
+          />
+        </div>
+
+        <div>
+          <div className={labelClass}>
+            <span>Top-p</span>
+            <span className="font-mono">{current.topP}</span>
+          </div>
+          <input
+            type="range" min={0.05} max={1} step={0.05}
+            value={current.topP}
+            onChange={(e) => update({ topP: Number(e.target.value) })}
+            className="w-full accent-claude-accent"
+          />
+        </div>
+
+        <div>
+          <div className={labelClass}><span>Макс. длина ответа, токенов</span></div>
+          <select
+            value={current.maxOutputTokens}
+            onChange={(e) => update({ maxOutputTokens: Number(e.target.value) })}
+            className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm text-gray-700 bg-white"
+          >
+            {MAX_OUTPUT_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </div>
+
+        {model?.reasoning === 'level' && (
+          <div>
+            <div className={labelClass}><span>Уровень рассуждений</span></div>
+            <select
+              value={current.reasoningLevel || ''}
+              onChange={(e) => update({ reasoningLevel: (e.target.value || undefined) as ReasoningLevel | undefined })}
+              className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm text-gray-700 bg-white"
+            >
+              <option value="">По умолчанию для модели</option>
+              {(Object.keys(REASONING_LEVEL_LABELS) as ReasoningLevel[]).map(level => (
+                <option key={level} value={level}>{REASONING_LEVEL_LABELS[level]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {model?.reasoning === 'budget' && (
+          <div>
+            <div className={labelClass}><span>Бюджет размышлений, токенов</span></div>
+            <select
+              value={current.thinkingBudget ?? ''}
+              onChange={(e) => update({ thinkingBudget: e.target.value === '' ? undefined : Number(e.target.value) })}
+              className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm text-gray-700 bg-white"
+            >
+              <option value="">По умолчанию для модели</option>
+              {THINKING_BUDGETS.map(n => <option key={n} value={n}>{n === 0 ? 'Без размышлений' : n}</option>)}
+            </select>
+          </div>
+        )}
+
+        <div className="flex justify-between items-center pt-1">
+          <button onClick={() => onChange(undefined)} className="text-xs text-gray-500 hover:text-claude-accent underline">
+            По умолчанию
+          </button>
+          <span className="text-[10px] text-gray-400">Только для этого чата</span>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default GenerationSettingsPopover;
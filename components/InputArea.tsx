@@ -1,28 +1,92 @@
-import React, { useState, useRef } from 'react';
-import { Attachment } from '../types';
-import { fileToBase64, formatFileSize, isValidFileType, getFileIcon } from '../utils/fileUtils';
+import React, { useState, useRef, useMemo } from 'react';
+import { Attachment, ResponseFormat, WorkspaceModule } from '../types';
+import { formatFileSize, isValidFileType, getFileIcon } from '../utils/fileUtils';
+import { isLegacyOfficeFile } from '../utils/officeUtils';
+import { readAttachment } from '../services/attachmentService';
+import { getMentionSuggestions, resolveMentions } from '../services/workspaceService';
+import ExtractionPreview from './ExtractionPreview';
 
 interface InputAreaProps {
-  onSend: (text: string, attachments: Attachment[], useSearch: boolean) => void;
+  onSend: (text: string, attachments: Attachment[], useSearch: boolean, format?: ResponseFormat) => void;
+  onStop: () => void;
+  workspace?: WorkspaceModule[];
   isLoading: boolean;
+  canStop: boolean;
+  budgetWarning?: { message: string; exceeded: boolean };
 }
 
-const QUICK_PROMPTS = [
+// A prompt with a format also switches the answer to that structured format
+const QUICK_PROMPTS: { label: string; text: string; format?: ResponseFormat }[] = [
   { label: 'Написать код', text: 'Напиши код на 1С для следующей задачи: ' },
   { label: 'Исправить ошибку', text: 'У меня возникает ошибка в 1С. Вот текст ошибки: ' },
-  { label: 'Создать структуру БД', text: 'Предложи структуру метаданных (справочники, документы, регистры) для решения задачи: ' },
+  { label: 'Создать структуру БД', text: 'Предложи структуру метаданных (справочники, документы, регистры) для решения задачи: ', format: 'metadataDesign' },
   { label: 'Запрос 1С', text: 'Помоги написать запрос на языке запросов 1С для выборки: ' },
   { label: 'Инструкция', text: 'Напиши пошаговую инструкцию для пользователя 1С по теме: ' },
 ];
 
-const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading }) => {
+// "@" typed at the start of a word, followed by the part of the name entered so far
+const MENTION_PREFIX_REGEX = /(?:^|\s)@([\p{L}\p{N}_.]*)$/u;
+
+const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, workspace, isLoading, canStop, budgetWarning }) => {
   const [text, setText] = useState('');
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [useSearch, setUseSearch] = useState(false);
+  const [format, setFormat] = useState<ResponseFormat | undefined>();
+  const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null);
+  // Mention being typed: position of "@" and the query after it
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [selectedSuggestion, setSelectedSuggestion] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  const suggestions = useMemo(
+    () => (mention && workspace ? getMentionSuggestions(workspace, mention.query) : []),
+    [mention, workspace]
+  );
+  const mentionedSources = useMemo(
+    () => (workspace && text.includes('@') ? resolveMentions(workspace, text) : []),
+    [workspace, text]
+  );
+
+  const updateMention = (value: string, caret: number) => {
+    const match = workspace?.length ? value.slice(0, caret).match(MENTION_PREFIX_REGEX) : null;
+    setMention(match ? { start: caret - match[1].length - 1, query: match[1] } : null);
+    setSelectedSuggestion(0);
+  };
+
+  const applySuggestion = (value: string) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+    const caret = textarea.selectionStart;
+    const inserted = `@${value} `;
+    setText(text.slice(0, mention.start) + inserted + text.slice(caret));
+    setMention(null);
+    const position = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSelectedSuggestion(prev => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        applySuggestion(suggestions[selectedSuggestion].value);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMention(null);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -31,9 +95,11 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading }) => {
 
   const handleSend = () => {
     if ((!text.trim() && attachments.length === 0) || isLoading) return;
-    onSend(text, attachments, useSearch);
+    if (budgetWarning?.exceeded && !window.confirm(`${budgetWarning.message}. Всё равно отправить?`)) return;
+    onSend(text, [...attachments, ...mentionedSources], useSearch && !format, format);
     setText('');
     setAttachments([]);
+    setMention(null);
     // Reset height
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
@@ -58,13 +124,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading }) => {
         }
 
         try {
-          const base64Data = await fileToBase64(file);
-          newAttachments.push({
-            name: file.name,
-            mimeType: file.type,
-            data: base64Data,
-            size: file.size
-          });
+          newAttachments.push(await readAttachment(file));
         } catch (err) {
           console.error(`Error reading ${file.name}`, err);
           alert(`Ошибка чтения файла ${file.name}.`);
@@ -87,10 +147,12 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading }) => {
     target.style.height = 'auto';
     target.style.height = `${Math.min(target.scrollHeight, 200)}px`;
     setText(target.value);
+    updateMention(target.value, target.selectionStart);
   };
 
-  const handleQuickPrompt = (promptText: string) => {
-    setText(promptText);
+  const handleQuickPrompt = (prompt: typeof QUICK_PROMPTS[number]) => {
+    setText(prompt.text);
+    setFormat(prompt.format);
     if (textareaRef.current) {
       textareaRef.current.focus();
     }
@@ -105,7 +167,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading }) => {
           {QUICK_PROMPTS.map((prompt, idx) => (
             <button
               key={idx}
-              onClick={() => handleQuickPrompt(prompt.text)}
+              onClick={() => handleQuickPrompt(prompt)}
               className="flex-shrink-0 bg-white border border-gray-200 hover:border-claude-accent/50 hover:bg-gray-50 text-gray-600 text-xs px-3 py-1.5 rounded-full transition-all whitespace-nowrap shadow-sm"
             >
               {prompt.label}
@@ -146,6 +208,20 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading }) => {
                   <span className="text-[10px] text-gray-400 uppercase font-mono">
                     {att.name.split('.').pop()} • {formatFileSize(att.size)}
                   </span>
+                  {att.extraction && (
+                    <button
+                      onClick={() => setPreviewAttachment(att)}
+                      className={`text-[10px] text-left hover:underline ${att.extraction.truncated ? 'text-amber-600' : 'text-claude-accent'}`}
+                      title="Показать текст, который будет отправлен модели"
+                    >
+                      текст: {Math.round(att.extraction.text.length / 1000)}k симв.{att.extraction.truncated ? ' (обрезан)' : ''}
+                    </button>
+                  )}
+                  {isLegacyOfficeFile(att.name) && (
+                    <span className="text-[10px] text-amber-600" title="Сохраните файл в формате .docx/.xlsx/.pptx">
+                      старый формат, не читается
+                    </span>
+                  )}
                 </div>
 
                 {/* Remove Button */}
@@ -162,17 +238,59 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading }) => {
           </div>
         )}
 
+        {/* Workspace mention autocomplete */}
+        {suggestions.length > 0 && (
+          <div className="absolute bottom-full left-0 mb-2 w-full max-w-md bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden z-20">
+            {suggestions.map((suggestion, idx) => (
+              <button
+                key={`${suggestion.value}-${suggestion.hint}`}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  applySuggestion(suggestion.value);
+                }}
+                className={`w-full flex justify-between gap-3 px-3 py-1.5 text-left text-xs ${idx === selectedSuggestion ? 'bg-gray-100' : 'hover:bg-gray-50'}`}
+              >
+                <span className="truncate font-mono text-gray-800">@{suggestion.value}</span>
+                <span className="truncate text-gray-400">{suggestion.hint}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Text Area */}
         <textarea
           ref={textareaRef}
           value={text}
           onChange={autoResize}
           onKeyDown={handleKeyDown}
+          onBlur={() => setMention(null)}
           placeholder="Спросите о конфигурации, коде 1С или загрузите базу..."
           className="w-full bg-transparent border-0 focus:ring-0 outline-none resize-none py-3 px-4 max-h-[200px] text-gray-800 placeholder-gray-400 font-sans"
           rows={1}
         />
 
+        {mentionedSources.length > 0 && (
+          <div className="px-4 pb-1 flex flex-wrap gap-1 text-[10px]">
+            <span className="text-gray-400">Будет приложен код:</span>
+            {mentionedSources.map(source => (
+              <button
+                key={source.name}
+                onClick={() => setPreviewAttachment(source)}
+                className="font-mono text-claude-accent hover:underline"
+                title={source.extraction?.details}
+              >
+                {source.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {budgetWarning && (
+          <div className={`px-4 pb-1 text-[10px] ${budgetWarning.exceeded ? 'text-red-600' : 'text-amber-600'}`}>
+            {budgetWarning.message}
+          </div>
+        )}
+
         {/* Toolbar */}
         <div className="flex justify-between items-center px-2 pb-2">
           <div className="flex items-center space-x-1">
@@ -194,36 +312,64 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading }) => {
               </svg>
             </button>
 
-            {/* Search Toggle */}
+            {/* Search Toggle; structured answers are generated without search */}
             <button 
               onClick={() => setUseSearch(!useSearch)}
-              className={`p-2 rounded-lg transition-colors flex items-center space-x-1 ${useSearch ? 'text-blue-600 bg-blue-50' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'}`}
+              disabled={Boolean(format)}
+              className={`p-2 rounded-lg transition-colors flex items-center space-x-1 disabled:opacity-40 ${useSearch && !format ? 'text-blue-600 bg-blue-50' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'}`}
               title="Поиск в интернете"
             >
               <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" />
               </svg>
-              {useSearch && <span className="text-xs font-semibold">Web</span>}
+              {useSearch && !format && <span className="text-xs font-semibold">Web</span>}
+            </button>
+
+            {/* Metadata design mode */}
+            <button
+              onClick={() => setFormat(format ? undefined : 'metadataDesign')}
+              className={`p-2 rounded-lg transition-colors flex items-center space-x-1 ${format ? 'text-claude-accent bg-claude-accent/10' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'}`}
+              title="Проектирование структуры метаданных: ответ в виде дерева объектов с выгрузкой в XML"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 6v12a2 2 0 002 2h12a2 2 0 002-2V6M4 6a2 2 0 012-2h12a2 2 0 012 2M9 10v10M4 14h16" />
+              </svg>
+              {format && <span className="text-xs font-semibold">Структура</span>}
             </button>
           </div>
 
-          {/* Send Button */}
-          <button
-            onClick={handleSend}
-            disabled={isLoading || (!text.trim() && attachments.length === 0)}
-            className={`
-              p-2 rounded-lg transition-all duration-200
-              ${(text.trim() || attachments.length > 0) && !isLoading
-                ? 'bg-claude-accent text-white shadow-md hover:bg-[#c26646]' 
-                : 'bg-gray-200 text-gray-400 cursor-not-allowed'}
-            `}
-          >
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" />
-            </svg>
-          </button>
+          {/* Send / Stop Button */}
+          {canStop ? (
+            <button
+              onClick={onStop}
+              className="p-2 rounded-lg transition-all duration-200 bg-gray-800 text-white shadow-md hover:bg-gray-700"
+              title="Остановить генерацию"
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                <rect x="6" y="6" width="12" height="12" rx="2" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={isLoading || (!text.trim() && attachments.length === 0)}
+              className={`
+                p-2 rounded-lg transition-all duration-200
+                ${(text.trim() || attachments.length > 0) && !isLoading
+                  ? 'bg-claude-accent text-white shadow-md hover:bg-[#c26646]' 
+                  : 'bg-gray-200 text-gray-400 cursor-not-allowed'}
+              `}
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" />
+              </svg>
+            </button>
+          )}
         </div>
       </div>
+      {previewAttachment && (
+        <ExtractionPreview attachment={previewAttachment} onClose={() => setPreviewAttachment(null)} />
+      )}
       <div className="text-center mt-2">
          <p className="text-xs text-gray-400">ИИ может ошибаться. Пожалуйста, проверяйте код 1С.</p>
       </div>
@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { KnowledgeDocument } from '../types';
+import { KNOWLEDGE_FILE_ACCEPT, KnowledgeIndex, importKnowledgeFile, searchKnowledge } from '../services/knowledgeService';
+import { deleteKnowledgeDocument, listKnowledgeDocuments, saveKnowledgeDocument } from '../services/storageService';
+import { useSettings } from './SettingsContext';
+
+interface KnowledgePanelProps {
+  index: KnowledgeIndex | null;
+  onDocumentsChange: () => void;
+  onToggle: (enabled: boolean) => void;
+}
+
+const KnowledgePanel: React.FC<KnowledgePanelProps> = ({ index, onDocumentsChange, onToggle }) => {
+  const { useKnowledgeBase } = useSettings();
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [testQuery, setTestQuery] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshDocuments = () => {
+    listKnowledgeDocuments()
+      .then(setDocuments)
+      .catch(e => console.error("Failed to list knowledge documents", e));
+  };
+
+  useEffect(refreshDocuments, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const failed: string[] = [];
+    for (const [i, file] of files.entries()) {
+      setProgress(`Индексация ${i + 1} из ${files.length}: ${file.name}`);
+      try {
+        const { document, chunks } = await importKnowledgeFile(file);
+        await saveKnowledgeDocument(document, chunks);
+      } catch (err) {
+        failed.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+    setErrors(failed);
+    setProgress(null);
+    refreshDocuments();
+    onDocumentsChange();
+  };
+
+  const handleDelete = async (document: KnowledgeDocument) => {
+    if (!window.confirm(`Удалить «${document.name}» из базы знаний?`)) return;
+    await deleteKnowledgeDocument(document.id);
+    refreshDocuments();
+    onDocumentsChange();
+  };
+
+  const testResults = useMemo(
+    () => (index && testQuery.trim() ? searchKnowledge(index, testQuery) : []),
+    [index, testQuery]
+  );
+
+  return (
+    <div className="space-y-2 text-sm">
+      <label className="flex items-center gap-2 px-1 text-xs text-gray-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={useKnowledgeBase}
+          onChange={(e) => onToggle(e.target.checked)}
+          className="accent-claude-accent"
+        />
+        Добавлять подходящие фрагменты к вопросам
+      </label>
+
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={progress !== null}
+        className="w-full bg-white border border-gray-300 hover:bg-gray-50 text-gray-600 py-1.5 rounded-lg text-xs disabled:opacity-50"
+        title="Markdown, текст, PDF с текстовым слоем, DOCX/XLSX/PPTX"
+      >
+        Добавить документы
+      </button>
+      <input ref={fileInputRef} type="file" className="hidden" multiple accept={KNOWLEDGE_FILE_ACCEPT} onChange={handleImport} />
+
+      {progress && <div className="text-xs text-gray-500 animate-pulse truncate">{progress}</div>}
+      {errors.map((error, i) => <div key={i} className="text-xs text-red-600">{error}</div>)}
+
+      {documents.length === 0 ? (
+        !progress && (
+          <p className="text-xs text-gray-400 italic px-1">
+            Загрузите методики, стандарты разработки и выдержки из ИТС: ассистент найдёт в них нужные фрагменты и сошлётся на них в ответе.
+          </p>
+        )
+      ) : (
+        <>
+          <div>
+            {documents.map(document => (
+              <div key={document.id} className="group flex items-center gap-2 px-2 py-1 rounded-md hover:bg-gray-200/50">
+                <div className="flex-1 min-w-0">
+                  <div className="truncate text-xs text-gray-700" title={document.name}>{document.name}</div>
+                  <div className="text-[10px] text-gray-400">{document.details} · фрагментов: {document.chunkCount}</div>
+                </div>
+                <button
+                  onClick={() => handleDelete(document)}
+                  className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-600"
+                  title="Удалить документ"
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <input
+            type="search"
+            value={testQuery}
+            onChange={(e) => setTestQuery(e.target.value)}
+            placeholder="Проверить поиск"
+            className="w-full bg-white border border-gray-300 text-gray-700 py-1.5 px-2.5 rounded-lg text-xs focus:outline-none focus:ring-1 focus:ring-claude-accent"
+          />
+          {testQuery.trim() && (
+            <div className="space-y-1">
+              {testResults.length === 0 && <p className="text-xs text-gray-400 italic px-1">Ничего не найдено</p>}
+              {testResults.map((chunk, i) => (
+                <div key={chunk.id} className="px-2 py-1 rounded-md bg-white border border-gray-200 text-[11px]">
+                  <div className="truncate text-gray-700 font-medium">
+                    <span className="text-claude-accent mr-1">[{i + 1}]</span>{chunk.documentName}
+                  </div>
+                  {chunk.heading && <div className="truncate text-[10px] text-gray-400">{chunk.heading}</div>}
+                  <div className="text-gray-500 line-clamp-2">{chunk.text}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default KnowledgePanel;
@@ -1,23 +1,134 @@
-import React, { useState, memo, useEffect } from 'react';
-import ReactMarkdown from 'react-markdown';
+import React, { useState, memo, useEffect, useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import SyntaxHighlighter, { resolveLanguage } from '../utils/highlighter';
+import { detectCodeLanguage, sdblLanguage } from '../utils/bslGrammar';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { Message, Role } from '../types';
+import { lintBsl } from '../utils/bslLinter';
+import { useSettings } from './SettingsContext';
+import { useChatContext } from './ChatContext';
+import SyntaxHelperTooltip, { syntaxRefRenderer } from './SyntaxHelperTooltip';
+import DiffView from './DiffView';
+import QueryView from './QueryView';
+import ProcessorExportDialog from './ProcessorExportDialog';
+import MetadataDesignView from './MetadataDesignView';
+import { matchSourceFile } from '../services/workspaceService';
+import { extractCodeBlocks, guessProcessorPart } from '../services/exportService';
+import { parseMetadataDesign } from '../services/metadataDesignService';
+import { findPlatformVersionIssues } from '../utils/syntaxHelper';
+import { extractQueryTexts } from '../utils/queryParser';
+import { BslDiagnostic, ChatError, Message, MetadataDesign, Role } from '../types';
+import { ERROR_TITLES } from '../utils/errorUtils';
+import { formatTokenCount } from '../services/usageService';
 import { getFileIcon } from '../utils/fileUtils';
 
+interface BranchInfo {
+  index: number;
+  total: number;
+  prevId?: string;
+  nextId?: string;
+}
+
 interface MessageBubbleProps {
   message: Message;
   isLast: boolean;
   onContinue: () => void;
+  onEdit: (text: string) => void;
+  onRegenerate: () => void;
+  onRetry: () => void;
+  onSelectBranch: (messageId: string) => void;
+  onTogglePin: () => void;
+  onUpdateDesign: (design: MetadataDesign) => void; // Edits of a structured metadata design answer
+  modelName?: string; // Model that actually produced the answer, after fallbacks
+  branch?: BranchInfo;
   isLoading: boolean;
+  isHighlighted?: boolean; // Target of a search jump
 }
 
+const BranchSwitcher = ({ branch, onSelect, disabled }: { branch: BranchInfo; onSelect: (id: string) => void; disabled: boolean }) => (
+  <div className="flex items-center text-xs text-gray-400 select-none">
+    <button
+      onClick={() => branch.prevId && onSelect(branch.prevId)}
+      disabled={disabled || !branch.prevId}
+      className="p-1 rounded hover:bg-gray-100 hover:text-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"
+      title="Предыдущий вариант"
+    >
+      <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+      </svg>
+    </button>
+    <span className="font-mono mx-1">{branch.index + 1}/{branch.total}</span>
+    <button
+      onClick={() => branch.nextId && onSelect(branch.nextId)}
+      disabled={disabled || !branch.nextId}
+      className="p-1 rounded hover:bg-gray-100 hover:text-gray-700 disabled:opacity-30 disabled:hover:bg-transparent"
+      title="Следующий вариант"
+    >
+      <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+      </svg>
+    </button>
+  </div>
+);
+
+const DiagnosticsList = ({ diagnostics }: { diagnostics: BslDiagnostic[] }) => (
+  <div className="bg-[#fffaf3] border-t border-gray-200 px-4 py-2 text-xs font-mono space-y-0.5">
+    {diagnostics.map((d, i) => (
+      <div key={i} className={d.severity === 'error' ? 'text-red-600' : 'text-amber-700'}>
+        <span className="text-gray-400">{d.line}:</span> <span className="font-semibold">{d.ruleId}</span> {d.message}
+      </div>
+    ))}
+  </div>
+);
+
+// Props react-markdown passes to `code`; `inline` was only set by its older versions
+type CodeBlockProps = React.ComponentProps<Exclude<Components['code'], string | undefined>> & {
+  inline?: boolean;
+  lint?: boolean;
+};
+
 // Separate component for Code Block to handle copy state
-const CodeBlock = ({ inline, className, children, ...props }: any) => {
+const CodeBlock = ({ inline, className, children, node, lint, ...props }: CodeBlockProps) => {
   const [copied, setCopied] = useState(false);
-  const match = /language-(\w+)/.exec(className || '');
-  const language = match ? match[1] : 'text';
+  const { disabledLintRules } = useSettings();
+  const { platformVersion: targetVersion, sourceFiles, onUpdateModule } = useChatContext();
+  const [showDiff, setShowDiff] = useState(false);
+  const [showQuery, setShowQuery] = useState(false);
+  const match = /language-([\w\u0400-\u04ff-]+)/.exec(className || '');
+  const code = String(children);
+  // Fenced blocks always end with a newline; untagged ones get a guess so 1C code is still highlighted
+  const detected = !match && !inline && code.includes('\n') ? detectCodeLanguage(code) : null;
+  const language = match ? match[1] : detected || 'text';
+  const isBsl = resolveLanguage(language) === 'bsl';
+
+  const diagnostics = useMemo(() => {
+    if (!lint || !isBsl || inline) return [];
+    const versionIssues = targetVersion ? findPlatformVersionIssues(code, targetVersion) : [];
+    return [...lintBsl(code, disabledLintRules), ...versionIssues].sort((a, b) => a.line - b.line);
+  }, [lint, isBsl, inline, code, disabledLintRules, targetVersion]);
+  // A finished BSL block that rewrites an attached or workspace module can be compared with it
+  const source = useMemo(
+    () => {
+      if (!lint || !isBsl || inline) return undefined;
+      const file = matchSourceFile(sourceFiles, code);
+      return file && file.text.trim() !== code.trim() ? file : undefined;
+    },
+    [lint, isBsl, inline, code, sourceFiles]
+  );
+
+  // Query blocks, and query texts inside BSL strings, can be laid out and checked
+  const queries = useMemo(() => {
+    if (!lint || inline) return [];
+    const resolved = resolveLanguage(language);
+    if (resolved === 'sdbl' || sdblLanguage.aliases.includes(resolved)) return [{ text: code.replace(/\n$/, ''), line: 1 }];
+    return isBsl ? extractQueryTexts(code) : [];
+  }, [lint, inline, language, isBsl, code]);
+
+  const diagnosticsByLine = useMemo(() => {
+    const map = new Map<number, BslDiagnostic[]>();
+    diagnostics.forEach(d => map.set(d.line, [...(map.get(d.line) || []), d]));
+    return map;
+  }, [diagnostics]);
 
   const handleCopy = () => {
     navigator.clipboard.writeText(String(children).replace(/\n$/, ''));
@@ -25,41 +136,97 @@ const CodeBlock = ({ inline, className, children, ...props }: any) => {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  if (!inline && match) {
+  if (!inline && (match || detected)) {
     return (
       <div className="relative group my-4 rounded-lg overflow-hidden border border-gray-200 shadow-sm">
         <div className="flex justify-between items-center bg-gray-50 px-4 py-2 text-xs text-gray-500 select-none border-b border-gray-200">
           <span className="font-mono font-semibold">{language.toUpperCase()}</span>
-          <button 
-            onClick={handleCopy}
-            className="flex items-center space-x-1 hover:text-claude-accent transition-colors"
-          >
-            {copied ? (
-              <>
-                <svg className="w-3.5 h-3.5 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          <div className="flex items-center space-x-4">
+            {queries.length > 0 && (
+              <button
+                onClick={() => { setShowQuery(!showQuery); setShowDiff(false); }}
+                title="Форматирование, проверка синтаксиса, параметры и временные таблицы"
+                className="flex items-center space-x-1 hover:text-claude-accent transition-colors"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7c0-1.657 3.582-3 8-3s8 1.343 8 3-3.582 3-8 3-8-1.343-8-3zm0 0v10c0 1.657 3.582 3 8 3s8-1.343 8-3V7M4 12c0 1.657 3.582 3 8 3s8-1.343 8-3" />
                 </svg>
-                <span className="text-green-600">Скопировано</span>
-              </>
-            ) : (
-              <>
+                <span>{showQuery ? 'Код' : 'Разбор запроса'}</span>
+              </button>
+            )}
+            {source && (
+              <button
+                onClick={() => { setShowDiff(!showDiff); setShowQuery(false); }}
+                className="flex items-center space-x-1 hover:text-claude-accent transition-colors"
+              >
                 <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
                 </svg>
-                <span>Копировать</span>
-              </>
+                <span>{showDiff ? 'Код' : `Сравнить с ${source.name}`}</span>
+              </button>
             )}
-          </button>
+            <button 
+              onClick={handleCopy}
+              className="flex items-center space-x-1 hover:text-claude-accent transition-colors"
+            >
+              {copied ? (
+                <>
+                  <svg className="w-3.5 h-3.5 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                  <span className="text-green-600">Скопировано</span>
+                </>
+              ) : (
+                <>
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" />
+                  </svg>
+                  <span>Копировать</span>
+                </>
+              )}
+            </button>
+          </div>
         </div>
-        <SyntaxHighlighter
-          {...props}
-          style={vscDarkPlus}
-          language={language}
-          PreTag="div"
-          customStyle={{ margin: 0, borderRadius: 0, fontSize: '0.85em' }}
-        >
-          {String(children).replace(/\n$/, '')}
-        </SyntaxHighlighter>
+        {showDiff && source ? (
+          <DiffView
+            key={source.text}
+            original={source.text}
+            modified={code.replace(/\n$/, '')}
+            fileName={source.name}
+            onApply={source.modulePath && onUpdateModule ? text => onUpdateModule(source.modulePath!, text) : undefined}
+          />
+        ) : showQuery && queries.length > 0 ? (
+          <QueryView queries={queries} />
+        ) : (
+          <SyntaxHelperTooltip targetVersion={targetVersion}>
+            <SyntaxHighlighter
+              {...props}
+              renderer={isBsl ? syntaxRefRenderer : undefined}
+              style={vscDarkPlus}
+              language={resolveLanguage(language)}
+              PreTag="div"
+              customStyle={{ margin: 0, borderRadius: 0, fontSize: '0.85em' }}
+              showLineNumbers={diagnostics.length > 0}
+              wrapLines={diagnostics.length > 0}
+              lineProps={(lineNumber: number) => {
+                const lineDiagnostics = diagnosticsByLine.get(lineNumber);
+                if (!lineDiagnostics) return {};
+                const hasError = lineDiagnostics.some(d => d.severity === 'error');
+                return {
+                  title: lineDiagnostics.map(d => `${d.ruleId}: ${d.message}`).join('\n'),
+                  style: {
+                    display: 'block',
+                    backgroundColor: hasError ? 'rgba(239, 68, 68, 0.2)' : 'rgba(245, 158, 11, 0.15)',
+                    boxShadow: `inset 3px 0 0 ${hasError ? '#ef4444' : '#f59e0b'}`
+                  }
+                };
+              }}
+            >
+              {String(children).replace(/\n$/, '')}
+            </SyntaxHighlighter>
+          </SyntaxHelperTooltip>
+        )}
+        {diagnostics.length > 0 && <DiagnosticsList diagnostics={diagnostics} />}
       </div>
     );
   }
@@ -71,74 +238,86 @@ const CodeBlock = ({ inline, className, children, ...props }: any) => {
   );
 };
 
-const MessageBubble: React.FC<MessageBubbleProps> = memo(({ message, isLast, onContinue, isLoading }) => {
+// Code in a finished answer is checked; while streaming, blocks are incomplete and would only produce noise
+const LintedCodeBlock = (props: CodeBlockProps) => <CodeBlock {...props} lint />;
+
+const MessageBubble: React.FC<MessageBubbleProps> = memo(({
+  message,
+  isLast,
+  onContinue,
+  onEdit,
+  onRegenerate,
+  onRetry,
+  onSelectBranch,
+  onTogglePin,
+  onUpdateDesign,
+  modelName,
+  branch,
+  isLoading,
+  isHighlighted
+}) => {
   const isUser = message.role === Role.USER;
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(message.text);
   const [showSources, setShowSources] = useState(false);
   const hasSources = message.groundingSources && message.groundingSources.length > 0;
-  const [displayedText, setDisplayedText] = useState(message.text);
+  const [showKnowledge, setShowKnowledge] = useState(false);
+  const hasKnowledge = message.knowledgeSources && message.knowledgeSources.length > 0;
+  const [showToolCalls, setShowToolCalls] = useState(false);
+  const toolCalls = message.toolCalls || [];
+  // Older sessions stored failures as the answer text
+  const isLegacyError = !message.error && message.role === Role.MODEL && message.text.startsWith('Ошибка:');
+  const error: ChatError | undefined = message.error
+    || (isLegacyError ? { kind: 'unknown', message: message.text.slice('Ошибка:'.length).trim() } : undefined);
+  const text = isLegacyError ? '' : message.text;
+  const [displayedText, setDisplayedText] = useState(text);
 
-  // Check if message is an error
-  const isError = message.text.startsWith('Ошибка:') || message.text.includes('{"error":');
+  const isStreaming = isLast && message.role === Role.MODEL && isLoading;
+  const [showExport, setShowExport] = useState(false);
+  const isDesign = message.format === 'metadataDesign';
+  const design = useMemo(() => (isDesign && !isStreaming ? parseMetadataDesign(text) : null), [isDesign, isStreaming, text]);
+  const canExport = useMemo(
+    () => !isUser && !isStreaming && extractCodeBlocks(text).some(block => guessProcessorPart(block)),
+    [isUser, isStreaming, text]
+  );
 
   useEffect(() => {
-    const shouldAnimate = isLast && message.role === Role.MODEL && isLoading;
-
-    if (!shouldAnimate) {
-      setDisplayedText(message.text);
+    if (!isStreaming) {
+      setDisplayedText(text);
       return;
     }
 
-    if (displayedText === message.text) return;
+    if (displayedText === text) return;
 
-    if (message.text.length < displayedText.length) {
-       setDisplayedText(message.text);
+    if (text.length < displayedText.length) {
+       setDisplayedText(text);
        return;
     }
 
     const timeout = setTimeout(() => {
        setDisplayedText(prev => {
-          const delta = message.text.length - prev.length;
+          const delta = text.length - prev.length;
           const chunk = Math.max(1, Math.min(5, Math.ceil(delta / 2))); 
-          return message.text.slice(0, prev.length + chunk);
+          return text.slice(0, prev.length + chunk);
        });
     }, 15);
     
     return () => clearTimeout(timeout);
-  }, [message.text, isLast, isLoading, message.role, displayedText]);
-
-  // Clean Error Rendering
-  if (isError) {
-    let cleanError = message.text.replace('Ошибка:', '').trim();
-    // Try to remove raw JSON if it leaked
-    if (cleanError.includes('{"error":')) {
-       try {
-         const jsonPart = cleanError.match(/\{.*\}/);
-         if (jsonPart) {
-           const parsed = JSON.parse(jsonPart[0]);
-           cleanError = parsed.error?.message || "Неизвестная ошибка API";
-         }
-       } catch (e) {
-         // keep original if parsing fails
-       }
-    }
+  }, [text, isStreaming, displayedText]);
 
-    return (
-      <div className={`flex w-full mb-6 justify-start animate-fadeIn`}>
-         <div className="max-w-4xl w-full px-5 py-4 rounded-2xl bg-red-50 border border-red-100 text-red-800">
-            <div className="flex items-center mb-2 font-bold text-red-600 text-sm uppercase tracking-wide">
-              <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-              </svg>
-              Ошибка генерации
-            </div>
-            <p className="text-sm whitespace-pre-wrap leading-relaxed">{cleanError}</p>
-         </div>
-      </div>
-    );
-  }
+  const startEditing = () => {
+    setEditText(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!editText.trim()) return;
+    setIsEditing(false);
+    onEdit(editText);
+  };
 
   return (
-    <div className={`flex w-full mb-6 ${isUser ? 'justify-end' : 'justify-start'} animate-fadeIn`}>
+    <div id={`message-${message.id}`} className={`flex w-full mb-6 ${isUser ? 'justify-end' : 'justify-start'} animate-fadeIn`}>
       <div 
         className={`
           max-w-4xl w-full px-5 py-4 rounded-2xl transition-all duration-300
@@ -146,10 +325,14 @@ const MessageBubble: React.FC<MessageBubbleProps> = memo(({ message, isLast, onC
             ? 'bg-[#f4f4f2] text-gray-800 rounded-tr-sm' 
             : 'bg-transparent text-gray-900 rounded-tl-sm'
           }
+          ${isHighlighted ? 'ring-2 ring-claude-accent/60 bg-claude-accent/5' : ''}
         `}
       >
         <div className="text-xs font-semibold mb-2 text-gray-400 uppercase tracking-wider flex items-center gap-2 select-none">
           {isUser ? 'Вы' : '1C Эксперт AI'}
+          {!isUser && modelName && (
+            <span className="normal-case tracking-normal font-normal text-gray-300">· {modelName}</span>
+          )}
         </div>
 
         {message.attachments && message.attachments.length > 0 && (
@@ -165,6 +348,88 @@ const MessageBubble: React.FC<MessageBubbleProps> = memo(({ message, isLast, onC
           </div>
         )}
 
+        {message.metadataRefs && message.metadataRefs.length > 0 && (
+          <div className="mb-3 flex flex-wrap items-center gap-1 text-[11px] text-gray-400 select-none" title="Объекты конфигурации, переданные модели">
+            <span>Метаданные:</span>
+            {message.metadataRefs.map(ref => (
+              <span key={ref} className="font-mono bg-gray-100 text-gray-600 rounded px-1.5 py-0.5">{ref}</span>
+            ))}
+          </div>
+        )}
+
+        {hasKnowledge && (
+          <div className="mb-4">
+            <button
+              onClick={() => setShowKnowledge(!showKnowledge)}
+              className="group flex items-center text-sm text-gray-500 hover:text-gray-800 transition-colors bg-transparent p-0 border-0 focus:outline-none"
+            >
+              <span className="mr-1">База знаний: {message.knowledgeSources!.length} фрагм.</span>
+              <svg 
+                className={`w-4 h-4 text-gray-400 group-hover:text-gray-600 transition-transform duration-200 ${showKnowledge ? '-rotate-90' : 'rotate-90'}`} 
+                fill="none" viewBox="0 0 24 24" stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+
+            {showKnowledge && (
+              <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2 animate-fadeIn">
+                {message.knowledgeSources!.map((source, idx) => (
+                  <div
+                    key={idx}
+                    className="flex flex-col p-3 rounded-lg border border-gray-200 bg-white"
+                  >
+                    <div className="text-xs font-semibold text-gray-800 truncate mb-1" title={source.documentName}>
+                      <span className="text-claude-accent mr-1">[{idx + 1}]</span>{source.documentName}
+                    </div>
+                    {source.heading && <div className="text-[10px] text-gray-400 truncate mb-1">{source.heading}</div>}
+                    <div className="text-[11px] text-gray-500 line-clamp-3 whitespace-pre-line">{source.snippet}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {toolCalls.length > 0 && (
+          <div className="mb-4">
+            <button
+              onClick={() => setShowToolCalls(!showToolCalls)}
+              className="group flex items-center text-sm text-gray-500 hover:text-gray-800 transition-colors bg-transparent p-0 border-0 focus:outline-none"
+            >
+              <span className="mr-1">Инструменты: {toolCalls.length}</span>
+              {toolCalls.some(step => step.result === undefined) && (
+                <span className="mr-1 text-xs text-gray-400 animate-pulse">выполняется {toolCalls[toolCalls.length - 1].title}...</span>
+              )}
+              <svg 
+                className={`w-4 h-4 text-gray-400 group-hover:text-gray-600 transition-transform duration-200 ${showToolCalls ? '-rotate-90' : 'rotate-90'}`} 
+                fill="none" viewBox="0 0 24 24" stroke="currentColor"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+
+            {showToolCalls && (
+              <div className="mt-3 space-y-2 animate-fadeIn">
+                {toolCalls.map(step => (
+                  <div key={step.id} className={`p-3 rounded-lg border bg-white ${step.isError ? 'border-red-200' : 'border-gray-200'}`}>
+                    <div className="flex items-center gap-2 text-xs font-semibold text-gray-800 mb-1">
+                      {step.title}
+                      <span className="font-mono font-normal text-gray-400">{step.name}</span>
+                    </div>
+                    <pre className="text-[11px] text-gray-500 bg-gray-50 rounded p-2 overflow-x-auto whitespace-pre-wrap">{JSON.stringify(step.args, null, 2)}</pre>
+                    {step.result !== undefined && (
+                      <pre className={`mt-1 text-[11px] rounded p-2 max-h-48 overflow-auto whitespace-pre-wrap ${step.isError ? 'text-red-600 bg-red-50' : 'text-gray-600 bg-gray-50'}`}>
+                        {step.result}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {hasSources && (
           <div className="mb-4">
             <button
@@ -204,26 +469,159 @@ const MessageBubble: React.FC<MessageBubbleProps> = memo(({ message, isLast, onC
           </div>
         )}
 
-        {message.isThinking ? (
+        {isEditing ? (
+          <div className="animate-fadeIn">
+            <textarea
+              value={editText}
+              onChange={(e) => setEditText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                }
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              autoFocus
+              rows={Math.min(10, Math.max(2, editText.split('\n').length))}
+              className="w-full bg-white border border-gray-300 rounded-lg p-3 text-gray-800 font-sans text-sm focus:outline-none focus:ring-1 focus:ring-claude-accent focus:border-claude-accent resize-y"
+            />
+            <div className="flex justify-end gap-2 mt-2">
+              <button
+                onClick={() => setIsEditing(false)}
+                className="text-xs px-3 py-1 rounded-full border border-gray-300 text-gray-600 hover:bg-gray-100"
+              >
+                Отмена
+              </button>
+              <button
+                onClick={submitEdit}
+                disabled={isLoading || !editText.trim()}
+                className="text-xs px-3 py-1 rounded-full bg-claude-accent text-white hover:bg-[#c26646] disabled:opacity-50"
+              >
+                Отправить
+              </button>
+            </div>
+          </div>
+        ) : message.isThinking ? (
            <div className="flex items-center space-x-1.5 text-gray-400 py-1">
              <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0s' }}></div>
              <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.15s' }}></div>
              <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.3s' }}></div>
            </div>
-        ) : (
+        ) : isDesign && text ? (
+          isStreaming ? (
+            <div className="text-sm text-gray-400 animate-pulse select-none">
+              Формируется структура метаданных... {text.length} симв.
+            </div>
+          ) : design ? (
+            <MetadataDesignView design={design} onChange={isLoading ? undefined : onUpdateDesign} />
+          ) : (
+            <div>
+              <p className="text-sm text-amber-700 mb-2">
+                Ответ не удалось разобрать как структуру метаданных: он оборван или не соответствует схеме. Увеличьте лимит ответа в настройках чата и сгенерируйте заново.
+              </p>
+              <pre className="text-xs text-gray-500 bg-gray-50 border border-gray-200 rounded-lg p-3 max-h-64 overflow-auto whitespace-pre-wrap">{text}</pre>
+            </div>
+          )
+        ) : text && (
           <div className="markdown-body font-serif text-[0.95rem] leading-7 text-gray-800">
             <ReactMarkdown 
               remarkPlugins={[remarkGfm]}
               components={{
-                code: CodeBlock
+                code: isStreaming ? CodeBlock : LintedCodeBlock
               }}
             >
               {displayedText}
             </ReactMarkdown>
           </div>
         )}
+
+        {message.notice && (message.isThinking || isStreaming) && (
+          <div className="mt-1 text-xs text-gray-400 italic select-none">{message.notice}</div>
+        )}
+
+        {error && (
+          <div className={`${text ? 'mt-3' : ''} px-5 py-4 rounded-2xl bg-red-50 border border-red-100 text-red-800`}>
+            <div className="flex items-center mb-2 font-bold text-red-600 text-sm uppercase tracking-wide">
+              <svg className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+              </svg>
+              {ERROR_TITLES[error.kind]}
+            </div>
+            <p className="text-sm whitespace-pre-wrap leading-relaxed">{error.message}</p>
+            {error.details && <p className="mt-1 text-xs text-red-600/70 whitespace-pre-wrap break-words">{error.details}</p>}
+            <button
+              onClick={onRetry}
+              disabled={isLoading}
+              className="mt-3 text-xs px-3 py-1 rounded-full border border-red-200 text-red-700 hover:bg-red-100 disabled:opacity-50"
+            >
+              Повторить
+            </button>
+          </div>
+        )}
+
+        {message.isInterrupted && (
+          <div className="mt-2 inline-flex items-center text-xs text-gray-400 italic select-none">
+            <svg className="w-3.5 h-3.5 mr-1" fill="currentColor" viewBox="0 0 24 24">
+              <rect x="6" y="6" width="12" height="12" rx="2" />
+            </svg>
+            Генерация остановлена
+          </div>
+        )}
         
-        {!isUser && isLast && !isLoading && !message.isThinking && (
+        {!isEditing && !message.isThinking && (
+          <div className={`mt-2 flex items-center gap-2 ${isUser ? 'justify-end' : 'justify-start'}`}>
+            {branch && <BranchSwitcher branch={branch} onSelect={onSelectBranch} disabled={isLoading} />}
+            <button
+              onClick={onTogglePin}
+              className={`p-1 rounded transition-colors ${message.isPinned ? 'text-claude-accent' : 'text-gray-400 hover:text-gray-700 hover:bg-gray-100'}`}
+              title={message.isPinned ? 'Открепить (может быть сжато в сводку)' : 'Закрепить: всегда отправлять модели'}
+            >
+              <svg className="w-3.5 h-3.5" fill={message.isPinned ? 'currentColor' : 'none'} viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+              </svg>
+            </button>
+            {!isLoading && (
+              <button
+                onClick={isUser ? startEditing : onRegenerate}
+                className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+                title={isUser ? 'Изменить сообщение' : 'Сгенерировать заново'}
+              >
+                {isUser ? (
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                  </svg>
+                ) : (
+                  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                  </svg>
+                )}
+              </button>
+            )}
+            {canExport && (
+              <button
+                onClick={() => setShowExport(true)}
+                className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+                title="Экспорт как внешняя обработка"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                </svg>
+              </button>
+            )}
+            {message.usage && (
+              <span
+                className="text-[10px] text-gray-300 font-mono select-none"
+                title={`Вход: ${message.usage.promptTokens} (из них кэш ${message.usage.cachedTokens}), выход: ${message.usage.responseTokens} токенов`}
+              >
+                {formatTokenCount(message.usage.promptTokens)} → {formatTokenCount(message.usage.responseTokens)}
+              </span>
+            )}
+          </div>
+        )}
+
+        {showExport && <ProcessorExportDialog text={text} onClose={() => setShowExport(false)} />}
+
+        {!isUser && isLast && !isLoading && !message.isThinking && !error && !isDesign && (
           <div className="mt-3 animate-fadeIn">
              <button 
                onClick={onContinue}
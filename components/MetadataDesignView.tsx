@@ -0,0 +1,312 @@
+import React, { useId, useMemo, useState } from 'react';
+import { DesignKind, DesignObject, MetadataDesign, MetadataField, MetadataTabularSection } from '../types';
+import { useChatContext } from './ChatContext';
+import {
+  DESIGN_KINDS,
+  DESIGN_KIND_LABELS,
+  DesignIssue,
+  createDesignObject,
+  designToMarkdown,
+  designToXmlZip,
+  getDesignObjectPath,
+  validateMetadataDesign
+} from '../services/metadataDesignService';
+import { METADATA_KINDS } from '../services/metadataService';
+import { downloadFile } from '../utils/fileUtils';
+
+interface MetadataDesignViewProps {
+  design: MetadataDesign;
+  onChange?: (design: MetadataDesign) => void; // Read-only without it
+}
+
+const cellInputClass = "min-w-0 bg-transparent border border-transparent rounded px-1.5 py-0.5 text-xs text-gray-700 hover:border-gray-200 focus:outline-none focus:border-claude-accent focus:bg-white";
+const linkButtonClass = "text-xs text-gray-400 hover:text-claude-accent";
+
+const PRIMITIVE_TYPES = ['Строка(100)', 'Число(15,2)', 'Дата', 'Дата (дата и время)', 'Булево'];
+
+const FieldList = ({ title, fields, typed = true, readOnly, typesListId, onChange }: {
+  title: string;
+  fields: MetadataField[];
+  typed?: boolean;
+  readOnly: boolean;
+  typesListId?: string;
+  onChange: (fields: MetadataField[]) => void;
+}) => {
+  if (readOnly && fields.length === 0) return null;
+  const update = (index: number, patch: Partial<MetadataField>) => onChange(fields.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+
+  return (
+    <div className="mt-2">
+      <div className="text-[10px] font-semibold text-gray-400 uppercase mb-0.5">{title}</div>
+      {fields.map((field, i) => (
+        <div key={i} className={`grid ${typed ? 'grid-cols-[1fr_1fr_1fr_auto]' : 'grid-cols-[1fr_1fr_auto]'} gap-1 items-center`}>
+          <input value={field.name} readOnly={readOnly} onChange={(e) => update(i, { name: e.target.value.trim() })} className={`${cellInputClass} font-mono`} />
+          <input value={field.synonym || ''} readOnly={readOnly} placeholder="Синоним" onChange={(e) => update(i, { synonym: e.target.value || undefined })} className={cellInputClass} />
+          {typed && (
+            <input
+              value={field.type || ''}
+              readOnly={readOnly}
+              placeholder="Тип"
+              list={typesListId}
+              onChange={(e) => update(i, { type: e.target.value || undefined })}
+              className={`${cellInputClass} font-mono text-blue-700`}
+            />
+          )}
+          {!readOnly && (
+            <button onClick={() => onChange(fields.filter((_, j) => j !== i))} className="text-gray-300 hover:text-red-500 px-1" title="Удалить">×</button>
+          )}
+        </div>
+      ))}
+      {!readOnly && (
+        <button onClick={() => onChange([...fields, { name: `Новый${fields.length + 1}`, ...(typed && { type: 'Строка(100)' }) }])} className={`${linkButtonClass} ml-1.5`}>
+          + добавить
+        </button>
+      )}
+    </div>
+  );
+};
+
+const ObjectNode = ({ object, design, issues, expanded, readOnly, typesListId, onToggle, onChange, onRemove }: {
+  object: DesignObject;
+  design: MetadataDesign;
+  issues: DesignIssue[];
+  expanded: boolean;
+  readOnly: boolean;
+  typesListId: string;
+  onToggle: () => void;
+  onChange: (object: DesignObject) => void;
+  onRemove: () => void;
+}) => {
+  const update = (patch: Partial<DesignObject>) => onChange({ ...object, ...patch });
+  const hasErrors = issues.some(i => i.severity === 'error');
+  const registers = design.objects.filter(o => o.kind === 'InformationRegister' || o.kind === 'AccumulationRegister').map(getDesignObjectPath);
+  const isRegister = object.kind === 'InformationRegister' || object.kind === 'AccumulationRegister';
+  const hasTabularSections = object.kind === 'Catalog' || object.kind === 'Document';
+
+  const updateSection = (index: number, patch: Partial<MetadataTabularSection>) =>
+    update({ tabularSections: object.tabularSections.map((s, i) => (i === index ? { ...s, ...patch } : s)) });
+
+  return (
+    <div className={`rounded-lg border bg-white ${hasErrors ? 'border-red-200' : issues.length > 0 ? 'border-amber-200' : 'border-gray-200'}`}>
+      <button onClick={onToggle} className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm">
+        <svg className={`w-3 h-3 text-gray-400 transition-transform ${expanded ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <span className="font-mono text-gray-800">{object.name}</span>
+        {object.synonym && <span className="text-xs text-gray-400 truncate">{object.synonym}</span>}
+        {issues.length > 0 && (
+          <span className={`ml-auto text-[10px] px-1.5 rounded ${hasErrors ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-700'}`}>{issues.length}</span>
+        )}
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 border-t border-gray-100">
+          <div className="grid grid-cols-2 gap-1 mt-2">
+            <input value={object.name} readOnly={readOnly} onChange={(e) => update({ name: e.target.value.trim() })} className={`${cellInputClass} font-mono`} />
+            <input value={object.synonym || ''} readOnly={readOnly} placeholder="Синоним" onChange={(e) => update({ synonym: e.target.value || undefined })} className={cellInputClass} />
+          </div>
+
+          {object.kind === 'AccumulationRegister' && (
+            <label className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+              Вид регистра:
+              <select
+                value={object.registerType || 'Balance'}
+                disabled={readOnly}
+                onChange={(e) => update({ registerType: e.target.value as DesignObject['registerType'] })}
+                className="border border-gray-300 rounded px-1.5 py-0.5 text-xs bg-white"
+              >
+                <option value="Balance">Остатки</option>
+                <option value="Turnovers">Обороты</option>
+              </select>
+            </label>
+          )}
+          {object.kind === 'InformationRegister' && (
+            <label className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+              <input type="checkbox" checked={Boolean(object.periodic)} disabled={readOnly} onChange={(e) => update({ periodic: e.target.checked })} className="accent-claude-accent" />
+              Периодический
+            </label>
+          )}
+
+          {isRegister && (
+            <>
+              <FieldList title="Измерения" fields={object.dimensions} readOnly={readOnly} typesListId={typesListId} onChange={(dimensions) => update({ dimensions })} />
+              <FieldList title="Ресурсы" fields={object.resources} readOnly={readOnly} typesListId={typesListId} onChange={(resources) => update({ resources })} />
+            </>
+          )}
+          {object.kind === 'Enum' ? (
+            <FieldList title="Значения" fields={object.values} typed={false} readOnly={readOnly} onChange={(values) => update({ values })} />
+          ) : (
+            <FieldList title="Реквизиты" fields={object.attributes} readOnly={readOnly} typesListId={typesListId} onChange={(attributes) => update({ attributes })} />
+          )}
+
+          {hasTabularSections && object.tabularSections.map((section, i) => (
+            <div key={i} className="mt-2 ml-2 pl-2 border-l-2 border-gray-100">
+              <div className="flex items-center gap-1">
+                <span className="text-[10px] font-semibold text-gray-400 uppercase">Табличная часть</span>
+                <input value={section.name} readOnly={readOnly} onChange={(e) => updateSection(i, { name: e.target.value.trim() })} className={`${cellInputClass} font-mono`} />
+                {!readOnly && (
+                  <button onClick={() => update({ tabularSections: object.tabularSections.filter((_, j) => j !== i) })} className="text-gray-300 hover:text-red-500 px-1" title="Удалить">×</button>
+                )}
+              </div>
+              <FieldList title="Реквизиты" fields={section.attributes} readOnly={readOnly} typesListId={typesListId} onChange={(attributes) => updateSection(i, { attributes })} />
+            </div>
+          ))}
+          {hasTabularSections && !readOnly && (
+            <button
+              onClick={() => update({ tabularSections: [...object.tabularSections, { name: `ТабличнаяЧасть${object.tabularSections.length + 1}`, attributes: [] }] })}
+              className={`${linkButtonClass} mt-2 ml-1.5 block`}
+            >
+              + табличная часть
+            </button>
+          )}
+
+          {object.kind === 'Document' && registers.length > 0 && (
+            <div className="mt-2">
+              <div className="text-[10px] font-semibold text-gray-400 uppercase mb-0.5">Движения</div>
+              {registers.map(path => (
+                <label key={path} className="flex items-center gap-2 text-xs text-gray-600 font-mono">
+                  <input
+                    type="checkbox"
+                    checked={object.registerRecords.includes(path)}
+                    disabled={readOnly}
+                    onChange={(e) => update({
+                      registerRecords: e.target.checked ? [...object.registerRecords, path] : object.registerRecords.filter(r => r !== path)
+                    })}
+                    className="accent-claude-accent"
+                  />
+                  {path}
+                </label>
+              ))}
+            </div>
+          )}
+
+          {issues.length > 0 && (
+            <div className="mt-2 space-y-0.5 text-xs">
+              {issues.map((issue, i) => (
+                <div key={i} className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}>
+                  <span className="font-mono text-gray-400">{issue.path}:</span> {issue.message}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!readOnly && (
+            <button onClick={onRemove} className="mt-3 text-xs text-gray-400 hover:text-red-600 underline">Удалить объект</button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Editable tree of a metadata design; references between objects are checked on every change
+const MetadataDesignView: React.FC<MetadataDesignViewProps> = ({ design, onChange }) => {
+  const { platformVersion } = useChatContext();
+  // Type suggestions; several designs may be shown in one chat
+  const typesListId = useId();
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [newKind, setNewKind] = useState<DesignKind>('Catalog');
+  const issues = useMemo(() => validateMetadataDesign(design), [design]);
+  const readOnly = !onChange;
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+
+  const typeSuggestions = useMemo(() => [
+    ...PRIMITIVE_TYPES,
+    ...design.objects
+      .filter(o => o.kind === 'Catalog' || o.kind === 'Document' || o.kind === 'Enum')
+      .map(o => `${METADATA_KINDS[o.kind].single}Ссылка.${o.name}`)
+  ], [design.objects]);
+
+  const toggle = (index: number) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    return next;
+  });
+
+  const updateObject = (index: number, object: DesignObject) =>
+    onChange?.({ ...design, objects: design.objects.map((o, i) => (i === index ? object : o)) });
+
+  const removeObject = (index: number) => {
+    onChange?.({ ...design, objects: design.objects.filter((_, i) => i !== index) });
+    setExpanded(new Set());
+  };
+
+  const addObject = () => {
+    const count = design.objects.filter(o => o.kind === newKind).length;
+    onChange?.({ ...design, objects: [...design.objects, createDesignObject(newKind, `Новый${count + 1}`)] });
+    setExpanded(new Set([design.objects.length]));
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-gray-50 font-sans">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 text-xs text-gray-500">
+        <span>
+          <span className="font-semibold text-gray-700">{design.name}</span> · объектов: {design.objects.length}
+          {issues.length > 0 && (
+            <span className={errorCount > 0 ? 'text-red-600' : 'text-amber-700'}>
+              {' '}· ошибок: {errorCount}, предупреждений: {issues.length - errorCount}
+            </span>
+          )}
+        </span>
+        <span className="flex gap-3">
+          <button onClick={() => downloadFile(`${design.name}.md`, designToMarkdown(design), 'text/markdown;charset=utf-8')} className="hover:text-claude-accent">
+            Markdown
+          </button>
+          <button onClick={() => downloadFile(`${design.name}.zip`, designToXmlZip(design, platformVersion), 'application/zip')} className="hover:text-claude-accent">
+            XML (выгрузка конфигурации)
+          </button>
+        </span>
+      </div>
+
+      {design.summary && <p className="px-4 pt-3 text-sm text-gray-600">{design.summary}</p>}
+
+      <datalist id={typesListId}>
+        {typeSuggestions.map(type => <option key={type} value={type} />)}
+      </datalist>
+
+      <div className="p-4 space-y-4">
+        {DESIGN_KINDS.map(kind => {
+          const objects = design.objects.map((object, index) => ({ object, index })).filter(({ object }) => object.kind === kind);
+          if (objects.length === 0) return null;
+          return (
+            <div key={kind}>
+              <div className="text-xs font-semibold text-gray-400 uppercase mb-1">{DESIGN_KIND_LABELS[kind]}</div>
+              <div className="space-y-1">
+                {objects.map(({ object, index }) => (
+                  <ObjectNode
+                    key={index}
+                    object={object}
+                    design={design}
+                    issues={issues.filter(i => i.objectIndex === index)}
+                    expanded={expanded.has(index)}
+                    readOnly={readOnly}
+                    typesListId={typesListId}
+                    onToggle={() => toggle(index)}
+                    onChange={(updated) => updateObject(index, updated)}
+                    onRemove={() => removeObject(index)}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        {!readOnly && (
+          <div className="flex items-center gap-2 text-xs">
+            <select
+              value={newKind}
+              onChange={(e) => setNewKind(e.target.value as DesignKind)}
+              className="border border-gray-300 rounded px-1.5 py-0.5 text-xs text-gray-700 bg-white focus:outline-none focus:ring-1 focus:ring-claude-accent"
+            >
+              {DESIGN_KINDS.map(kind => <option key={kind} value={kind}>{METADATA_KINDS[kind].single}</option>)}
+            </select>
+            <button onClick={addObject} className={linkButtonClass}>+ добавить объект</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MetadataDesignView;
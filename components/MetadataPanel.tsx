@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MetadataField, MetadataIndex, MetadataIndexSummary, MetadataKind, MetadataObject } from '../types';
+import { METADATA_KINDS, getObjectPath, importConfigurationDump } from '../services/metadataService';
+import { deleteMetadataIndex, listMetadataIndexes, loadMetadataIndex, saveMetadataIndex } from '../services/storageService';
+
+interface MetadataPanelProps {
+  activeIndex: MetadataIndex | null;
+  onActivate: (index: MetadataIndex | null) => void;
+}
+
+const MAX_FILTERED_OBJECTS = 200;
+
+const FieldList = ({ title, fields }: { title: string; fields?: MetadataField[] }) => {
+  if (!fields || fields.length === 0) return null;
+  return (
+    <div className="mt-1">
+      <div className="text-[10px] font-semibold text-gray-400 uppercase">{title}</div>
+      {fields.map(field => (
+        <div key={field.name} className="flex justify-between gap-2 pl-2" title={field.synonym}>
+          <span className="truncate text-gray-700">{field.name}</span>
+          {field.type && <span className="truncate text-gray-400 font-mono text-[10px] text-right">{field.type}</span>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ObjectDetails = ({ object }: { object: MetadataObject }) => (
+  <div className="ml-3 mb-2 pl-2 border-l border-gray-200 text-xs">
+    {object.type && <div className="text-gray-400 font-mono text-[10px]">{object.type}</div>}
+    <FieldList title="Измерения" fields={object.dimensions} />
+    <FieldList title="Ресурсы" fields={object.resources} />
+    <FieldList title="Реквизиты" fields={object.attributes} />
+    {object.tabularSections?.map(ts => (
+      <FieldList key={ts.name} title={`ТЧ ${ts.name}`} fields={ts.attributes} />
+    ))}
+    <FieldList title="Значения" fields={object.values} />
+  </div>
+);
+
+const MetadataPanel: React.FC<MetadataPanelProps> = ({ activeIndex, onActivate }) => {
+  const [indexes, setIndexes] = useState<MetadataIndexSummary[]>([]);
+  const [filter, setFilter] = useState('');
+  const [expandedKinds, setExpandedKinds] = useState<Set<MetadataKind>>(new Set());
+  const [expandedObject, setExpandedObject] = useState<string | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshIndexes = () => {
+    listMetadataIndexes()
+      .then(setIndexes)
+      .catch(e => console.error("Failed to list metadata", e));
+  };
+
+  useEffect(refreshIndexes, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setError(null);
+    setProgress('Чтение файлов…');
+    try {
+      const index = await importConfigurationDump(files, (done, total) => setProgress(`Разбор объектов: ${done} из ${total}`));
+      await saveMetadataIndex(index);
+      refreshIndexes();
+      onActivate(index);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleSelect = async (id: string) => {
+    if (!id) {
+      onActivate(null);
+      return;
+    }
+    const index = await loadMetadataIndex(id);
+    onActivate(index);
+  };
+
+  const handleDelete = async () => {
+    if (!activeIndex || !window.confirm(`Удалить метаданные «${activeIndex.name}»?`)) return;
+    await deleteMetadataIndex(activeIndex.id);
+    refreshIndexes();
+    onActivate(null);
+  };
+
+  const groups = useMemo(() => {
+    if (!activeIndex) return [];
+    const query = filter.trim().toLowerCase();
+    const matches = query
+      ? activeIndex.objects.filter(o =>
+          getObjectPath(o).toLowerCase().includes(query) || o.synonym?.toLowerCase().includes(query)
+        ).slice(0, MAX_FILTERED_OBJECTS)
+      : activeIndex.objects;
+
+    const byKind = new Map<MetadataKind, MetadataObject[]>();
+    matches.forEach(o => byKind.set(o.kind, [...(byKind.get(o.kind) || []), o]));
+    return Array.from(byKind.entries());
+  }, [activeIndex, filter]);
+
+  const toggleKind = (kind: MetadataKind) => {
+    setExpandedKinds(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind); else next.add(kind);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-1">
+        <select
+          value={activeIndex?.id || ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 min-w-0 bg-white border border-gray-300 text-gray-700 py-1.5 px-2 rounded-lg text-xs focus:outline-none focus:ring-1 focus:ring-claude-accent"
+        >
+          <option value="">Не использовать</option>
+          {indexes.map(index => (
+            <option key={index.id} value={index.id}>
+              {index.synonym || index.name}{index.version ? ` ${index.version}` : ''} ({index.objectCount})
+            </option>
+          ))}
+        </select>
+        {activeIndex && (
+          <button onClick={handleDelete} className="p-1.5 rounded-md text-gray-400 hover:text-red-600 hover:bg-gray-200" title="Удалить метаданные">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2 text-xs">
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          disabled={progress !== null}
+          className="flex-1 bg-white border border-gray-300 hover:bg-gray-50 text-gray-600 py-1.5 rounded-lg disabled:opacity-50"
+          title="Каталог, выгруженный командой «Конфигурация → Выгрузить конфигурацию в файлы»"
+        >
+          Каталог выгрузки
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={progress !== null}
+          className="flex-1 bg-white border border-gray-300 hover:bg-gray-50 text-gray-600 py-1.5 rounded-lg disabled:opacity-50"
+          title="ZIP-архив выгрузки или отдельные XML-файлы объектов"
+        >
+          ZIP / XML
+        </button>
+        <input
+          ref={folderInputRef}
+          type="file"
+          className="hidden"
+          onChange={handleImport}
+          {...{ webkitdirectory: '', directory: '' }}
+        />
+        <input ref={fileInputRef} type="file" className="hidden" multiple accept=".zip,.xml" onChange={handleImport} />
+      </div>
+
+      {progress && <div className="text-xs text-gray-500 animate-pulse">{progress}</div>}
+      {error && <div className="text-xs text-red-600">{error}</div>}
+
+      {activeIndex ? (
+        <>
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Найти объект"
+            className="w-full bg-white border border-gray-300 text-gray-700 py-1.5 px-2.5 rounded-lg text-xs focus:outline-none focus:ring-1 focus:ring-claude-accent"
+          />
+          <p className="text-[10px] text-gray-400 px-1">
+            Объекты, упомянутые в вопросе (например, Справочник.Номенклатура), передаются модели вместе с запросом.
+          </p>
+          <div>
+            {groups.map(([kind, objects]) => {
+              const isExpanded = filter.trim() !== '' || expandedKinds.has(kind);
+              return (
+                <div key={kind}>
+                  <button
+                    onClick={() => toggleKind(kind)}
+                    className="w-full flex justify-between items-center px-2 py-1 rounded-md text-xs font-semibold text-gray-600 hover:bg-gray-200/50"
+                  >
+                    <span>{METADATA_KINDS[kind].label}</span>
+                    <span className="text-gray-400 font-normal">{objects.length}</span>
+                  </button>
+                  {isExpanded && objects.map(object => {
+                    const path = getObjectPath(object);
+                    return (
+                      <div key={path}>
+                        <button
+                          onClick={() => setExpandedObject(expandedObject === path ? null : path)}
+                          className={`w-full text-left pl-4 pr-2 py-0.5 rounded-md text-xs truncate hover:bg-gray-200/50 ${expandedObject === path ? 'text-claude-accent' : 'text-gray-700'}`}
+                          title={object.synonym}
+                        >
+                          {object.name}
+                        </button>
+                        {expandedObject === path && <ObjectDetails object={object} />}
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      ) : (
+        !progress && (
+          <p className="text-xs text-gray-400 italic px-1">
+            Загрузите выгрузку конфигурации в файлы, чтобы ассистент знал реальные реквизиты и регистры вашей базы.
+          </p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default MetadataPanel;
@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useChatContext } from './ChatContext';
+import {
+  PROCESSOR_PART_LABELS,
+  ProcessorPart,
+  buildExternalDataProcessor,
+  extractCodeBlocks,
+  getDumpFormatVersion,
+  guessProcessorPart,
+  isValidObjectName
+} from '../services/exportService';
+import { downloadFile } from '../utils/fileUtils';
+
+interface ProcessorExportDialogProps {
+  text: string;
+  onClose: () => void;
+}
+
+const labelClass = "block text-xs font-semibold text-gray-400 mb-1 uppercase";
+const inputClass = "w-full bg-white border border-gray-300 text-gray-700 py-1.5 px-2.5 rounded-lg text-sm focus:outline-none focus:ring-1 focus:ring-claude-accent focus:border-claude-accent";
+
+const PARTS = Object.keys(PROCESSOR_PART_LABELS) as ProcessorPart[];
+const PREVIEW_LINES = 6;
+
+// Rendered into document.body: message bubbles are animated with a transform, which would clip a fixed overlay
+const ProcessorExportDialog: React.FC<ProcessorExportDialogProps> = ({ text, onClose }) => {
+  const { platformVersion } = useChatContext();
+  const blocks = useMemo(() => extractCodeBlocks(text), [text]);
+  const [name, setName] = useState('НоваяОбработка');
+  const [synonym, setSynonym] = useState('');
+  // Several BSL blocks of one module are joined in the order of the answer
+  const [assignments, setAssignments] = useState<(ProcessorPart | '')[]>(() => {
+    let hasFormDescription = false;
+    return blocks.map(block => {
+      const part = guessProcessorPart(block);
+      if (part !== 'formDescription') return part || '';
+      if (hasFormDescription) return '';
+      hasFormDescription = true;
+      return part;
+    });
+  });
+  const [error, setError] = useState('');
+
+  const setAssignment = (index: number, part: ProcessorPart | '') => {
+    setAssignments(prev => prev.map((p, i) => (i === index ? part : p)));
+    setError('');
+  };
+
+  const selectedCount = assignments.filter(Boolean).length;
+  const formDescriptionIndex = assignments.indexOf('formDescription');
+
+  const handleExport = () => {
+    const parts: Partial<Record<ProcessorPart, string>> = {};
+    blocks.forEach((block, i) => {
+      const part = assignments[i];
+      if (part) parts[part] = parts[part] ? `${parts[part]}\n\n${block.code}` : block.code;
+    });
+
+    try {
+      const zip = buildExternalDataProcessor({ name: name.trim(), synonym, platformVersion, parts });
+      downloadFile(`${name.trim()}.zip`, zip, 'application/zip');
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-30 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col animate-fadeIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="font-serif font-bold text-lg text-gray-700">Экспорт как внешняя обработка</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Имя</label>
+              <input
+                value={name}
+                onChange={(e) => { setName(e.target.value); setError(''); }}
+                className={`${inputClass} ${isValidObjectName(name.trim()) ? '' : 'border-red-300'}`}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Синоним</label>
+              <input value={synonym} onChange={(e) => setSynonym(e.target.value)} placeholder="Представление в списке" className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Блоки кода</label>
+            <div className="space-y-2">
+              {blocks.map((block, i) => (
+                <div key={i} className={`rounded-lg border ${assignments[i] ? 'border-claude-accent/40' : 'border-gray-200'}`}>
+                  <div className="flex items-center justify-between px-3 py-1.5 bg-gray-50 rounded-t-lg text-xs text-gray-500">
+                    <span className="font-mono">{block.language.toUpperCase()} · {block.code.split('\n').length} стр.</span>
+                    <select
+                      value={assignments[i]}
+                      onChange={(e) => setAssignment(i, e.target.value as ProcessorPart | '')}
+                      className="border border-gray-300 rounded px-1.5 py-0.5 text-xs text-gray-700 bg-white focus:outline-none focus:ring-1 focus:ring-claude-accent"
+                    >
+                      <option value="">Не включать</option>
+                      {PARTS.map(part => (
+                        <option
+                          key={part}
+                          value={part}
+                          disabled={part === 'formDescription' && formDescriptionIndex >= 0 && formDescriptionIndex !== i}
+                        >
+                          {PROCESSOR_PART_LABELS[part]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <pre className="px-3 py-2 text-[11px] text-gray-600 overflow-hidden whitespace-pre">
+                    {block.code.split('\n').slice(0, PREVIEW_LINES).join('\n')}
+                    {block.code.split('\n').length > PREVIEW_LINES && '\n…'}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-400">
+            Архив содержит файлы в формате выгрузки конфигуратора (версия формата {getDumpFormatVersion(platformVersion)}
+            {platformVersion ? `, платформа ${platformVersion}` : ''}). Распакуйте его и выберите {name.trim() || 'Имя'}.xml в
+            конфигураторе: «Файл — Загрузить внешнюю обработку, отчет из файлов». Если модуль формы выбран без описания формы,
+            создаётся пустая форма.
+          </p>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
+          <button onClick={onClose} className="text-sm px-3 py-1.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-100">
+            Отмена
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={selectedCount === 0 || !isValidObjectName(name.trim())}
+            className="text-sm px-3 py-1.5 rounded-lg bg-claude-accent text-white hover:bg-[#c26646] transition-colors disabled:opacity-50"
+          >
+            Скачать .zip
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ProcessorExportDialog;
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { ClientType, FormsMode, ProjectContext, ProjectContextPreset } from '../types';
+import {
+  EMPTY_PROJECT_CONTEXT,
+  FORMS_MODE_LABELS,
+  CLIENT_TYPE_LABELS,
+  isProjectContextEmpty,
+  loadPresets,
+  savePresets
+} from '../services/projectContextService';
+
+interface ProjectContextPanelProps {
+  context?: ProjectContext;
+  onSave: (context: ProjectContext | undefined) => void;
+  onClose: () => void;
+}
+
+const CONFIGURATION_SUGGESTIONS = [
+  'Управление торговлей',
+  'Бухгалтерия предприятия',
+  '1С:ERP Управление предприятием',
+  'Комплексная автоматизация',
+  'Зарплата и управление персоналом',
+  'Управление нашей фирмой',
+  'Розница',
+  'Документооборот'
+];
+
+const PLATFORM_SUGGESTIONS = ['8.3.10', '8.3.14', '8.3.18', '8.3.20', '8.3.22', '8.3.23', '8.3.24', '8.3.25', '8.3.27', '8.5.1'];
+
+const COMPATIBILITY_SUGGESTIONS = ['Не использовать', '8.3.10', '8.3.12', '8.3.14', '8.3.16', '8.3.18', '8.3.20', '8.3.22', '8.3.24'];
+
+const inputClass = "w-full bg-white border border-gray-300 text-gray-700 py-1.5 px-2.5 rounded-lg text-sm focus:outline-none focus:ring-1 focus:ring-claude-accent focus:border-claude-accent";
+const labelClass = "block text-xs font-semibold text-gray-400 mb-1 uppercase";
+
+const ProjectContextPanel: React.FC<ProjectContextPanelProps> = ({ context, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProjectContext>({ ...EMPTY_PROJECT_CONTEXT, ...context });
+  const [presets, setPresets] = useState<ProjectContextPreset[]>(loadPresets);
+
+  const update = <K extends keyof ProjectContext>(key: K, value: ProjectContext[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) setDraft({ ...EMPTY_PROJECT_CONTEXT, ...preset.context });
+  };
+
+  const saveAsPreset = () => {
+    const suggestedName = [draft.configurationName, draft.configurationVersion].filter(Boolean).join(' ');
+    const name = window.prompt('Название пресета:', suggestedName || 'Мой проект');
+    if (!name) return;
+
+    const existing = presets.find(p => p.name === name);
+    const updated = existing
+      ? presets.map(p => (p.id === existing.id ? { ...p, context: draft } : p))
+      : [...presets, { id: uuidv4(), name, context: draft }];
+    setPresets(updated);
+    savePresets(updated);
+  };
+
+  const deletePreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset || !window.confirm(`Удалить пресет «${preset.name}»?`)) return;
+    const updated = presets.filter(p => p.id !== id);
+    setPresets(updated);
+    savePresets(updated);
+  };
+
+  const handleSave = () => {
+    onSave(isProjectContextEmpty(draft) ? undefined : draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-30 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col animate-fadeIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="font-serif font-bold text-lg text-gray-700">Контекст проекта</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {/* Presets */}
+          <div>
+            <label className={labelClass}>Пресеты</label>
+            {presets.length === 0 ? (
+              <p className="text-xs text-gray-400 italic">Сохраните контекст как пресет, чтобы использовать его в других чатах.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {presets.map(preset => (
+                  <span key={preset.id} className="inline-flex items-center bg-white border border-gray-200 rounded-full text-xs text-gray-600 shadow-sm">
+                    <button onClick={() => applyPreset(preset.id)} className="pl-3 pr-1 py-1 hover:text-claude-accent">
+                      {preset.name}
+                    </button>
+                    <button onClick={() => deletePreset(preset.id)} className="pr-2 pl-1 py-1 text-gray-300 hover:text-red-500" title="Удалить пресет">
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className={labelClass}>Конфигурация</label>
+              <input
+                list="project-configurations"
+                value={draft.configurationName}
+                onChange={(e) => update('configurationName', e.target.value)}
+                placeholder="Управление торговлей"
+                className={inputClass}
+              />
+              <datalist id="project-configurations">
+                {CONFIGURATION_SUGGESTIONS.map(c => <option key={c} value={c} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className={labelClass}>Версия</label>
+              <input
+                value={draft.configurationVersion}
+                onChange={(e) => update('configurationVersion', e.target.value)}
+                placeholder="11.5.18"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Платформа</label>
+              <input
+                list="project-platforms"
+                value={draft.platformVersion}
+                onChange={(e) => update('platformVersion', e.target.value)}
+                placeholder="8.3.24"
+                className={inputClass}
+              />
+              <datalist id="project-platforms">
+                {PLATFORM_SUGGESTIONS.map(v => <option key={v} value={v} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className={labelClass}>Режим совместимости</label>
+              <input
+                list="project-compatibility"
+                value={draft.compatibilityMode}
+                onChange={(e) => update('compatibilityMode', e.target.value)}
+                placeholder="Не использовать"
+                className={inputClass}
+              />
+              <datalist id="project-compatibility">
+                {COMPATIBILITY_SUGGESTIONS.map(v => <option key={v} value={v} />)}
+              </datalist>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Формы</label>
+              <select
+                value={draft.formsMode}
+                onChange={(e) => update('formsMode', e.target.value as FormsMode)}
+                className={inputClass}
+              >
+                <option value="">Не указано</option>
+                {Object.entries(FORMS_MODE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Клиент</label>
+              <select
+                value={draft.clientType}
+                onChange={(e) => update('clientType', e.target.value as ClientType)}
+                className={inputClass}
+              >
+                <option value="">Не указано</option>
+                {Object.entries(CLIENT_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Заметки о проекте</label>
+            <textarea
+              value={draft.notes}
+              onChange={(e) => update('notes', e.target.value)}
+              rows={4}
+              placeholder="Например: доработки ведём в расширениях, БСП 3.1.9, PostgreSQL 15"
+              className={`${inputClass} resize-y`}
+            />
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-between items-center">
+          <div className="flex gap-3">
+            <button onClick={saveAsPreset} className="text-xs text-gray-500 hover:text-claude-accent underline">
+              Сохранить как пресет
+            </button>
+            <button onClick={() => setDraft(EMPTY_PROJECT_CONTEXT)} className="text-xs text-gray-500 hover:text-red-600 underline">
+              Очистить
+            </button>
+          </div>
+          <button
+            onClick={handleSave}
+            className="text-sm px-3 py-1.5 rounded-lg bg-claude-accent text-white hover:bg-[#c26646] transition-colors"
+          >
+            Применить к чату
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectContextPanel;
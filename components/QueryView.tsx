@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import SyntaxHighlighter from '../utils/highlighter';
+import { ExtractedQuery, QuerySource, QueryStatement, parseQuery } from '../utils/queryParser';
+import { formatParameterSetters, formatQuery, wrapQueryText } from '../utils/queryFormatter';
+
+interface QueryViewProps {
+  queries: ExtractedQuery[]; // Query texts of the block; lines are those of the code block
+}
+
+const SOURCE_STYLES: Record<QuerySource['kind'], string> = {
+  table: 'bg-gray-100 text-gray-600',
+  virtual: 'bg-blue-50 text-blue-700',
+  temporary: 'bg-amber-50 text-amber-800'
+};
+
+const SOURCE_LABELS: Record<QuerySource['kind'], string> = {
+  table: 'таблица',
+  virtual: 'виртуальная таблица',
+  temporary: 'временная таблица'
+};
+
+const sectionClass = "px-4 py-2 border-t border-gray-200";
+const titleClass = "text-[11px] font-semibold text-gray-400 uppercase mb-1";
+
+const SourceItem = ({ source }: { source: QuerySource }) => (
+  <div className="flex items-start gap-2">
+    <span className={`shrink-0 px-1.5 rounded text-[10px] ${SOURCE_STYLES[source.kind]}`}>{SOURCE_LABELS[source.kind]}</span>
+    <div className="min-w-0">
+      <span className="font-mono text-gray-700">{source.name}</span>
+      {source.alias && <span className="text-gray-400"> как {source.alias}</span>}
+      {source.kind === 'temporary' && (
+        <span className={source.createdBy ? 'text-gray-400' : 'text-amber-700'}>
+          {source.createdBy ? ` ← запрос ${source.createdBy}` : ' ← менеджер временных таблиц'}
+        </span>
+      )}
+      {source.parameters.map(p => (
+        <div key={p.name} className="font-mono text-[11px] text-gray-500 pl-2">
+          {p.name}: <span className="text-gray-700">{p.value}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// One query of the batch with its sources; temporary tables point to the query that fills them
+const StatementItem = ({ statement, usedBy }: { statement: QueryStatement; usedBy: number[] }) => (
+  <div className="flex gap-2">
+    <span className="shrink-0 w-5 h-5 rounded-full bg-gray-100 text-gray-500 text-[10px] flex items-center justify-center">
+      {statement.index}
+    </span>
+    <div className="min-w-0 flex-1 space-y-1">
+      <div className="text-gray-700">
+        {statement.kind === 'drop' ? (
+          <>УНИЧТОЖИТЬ <span className="font-mono">{statement.into}</span></>
+        ) : statement.into ? (
+          <>
+            ВЫБРАТЬ → <span className="font-mono text-amber-800">{statement.into}</span>
+            <span className="text-gray-400">{usedBy.length > 0 ? ` → запрос ${usedBy.join(', ')}` : ' (не используется в пакете)'}</span>
+          </>
+        ) : (
+          <>ВЫБРАТЬ <span className="text-gray-400">— результат запроса</span></>
+        )}
+      </div>
+      {statement.sources.map((source, i) => <SourceItem key={i} source={source} />)}
+    </div>
+  </div>
+);
+
+const QueryView: React.FC<QueryViewProps> = ({ queries }) => {
+  const [selected, setSelected] = useState(0);
+  const [copied, setCopied] = useState<string | null>(null);
+  const query = queries[Math.min(selected, queries.length - 1)];
+
+  const parsed = useMemo(() => parseQuery(query.text), [query.text]);
+  const formatted = useMemo(() => formatQuery(query.text), [query.text]);
+
+  const copy = (key: string, text: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  // Temporary table of each query and the later queries that read it
+  const usedBy = (statement: QueryStatement) => parsed.statements
+    .filter(s => s.sources.some(source => source.createdBy === statement.index))
+    .map(s => s.index);
+
+  return (
+    <div className="bg-white text-xs">
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-gray-200 bg-gray-50 select-none">
+        <div className="flex gap-1 overflow-x-auto">
+          {queries.length > 1 ? queries.map((q, i) => (
+            <button
+              key={i}
+              onClick={() => setSelected(i)}
+              className={`px-2 py-0.5 rounded-md whitespace-nowrap ${i === selected ? 'bg-claude-accent text-white' : 'text-gray-500 hover:bg-gray-100'}`}
+            >
+              Запрос {i + 1} · стр. {q.line}
+            </button>
+          )) : (
+            <span className="text-gray-500">
+              {parsed.statements.length > 1 ? `Пакет из ${parsed.statements.length} запросов` : 'Запрос'}
+            </span>
+          )}
+        </div>
+        <div className="flex gap-3 shrink-0">
+          <button onClick={() => copy('text', formatted)} className="text-gray-500 hover:text-claude-accent">
+            {copied === 'text' ? 'Скопировано' : 'Копировать текст'}
+          </button>
+          <button onClick={() => copy('bsl', wrapQueryText(formatted, query.target))} className="text-gray-500 hover:text-claude-accent">
+            {copied === 'bsl' ? 'Скопировано' : `Копировать как ${query.target || 'Запрос.Текст'} = "..."`}
+          </button>
+        </div>
+      </div>
+
+      <SyntaxHighlighter
+        style={vscDarkPlus}
+        language="sdbl"
+        PreTag="div"
+        customStyle={{ margin: 0, borderRadius: 0, fontSize: '0.95em', maxHeight: 480 }}
+      >
+        {formatted}
+      </SyntaxHighlighter>
+
+      {parsed.issues.length > 0 ? (
+        <div className="bg-[#fffaf3] border-t border-gray-200 px-4 py-2 font-mono space-y-0.5">
+          {parsed.issues.map((issue, i) => (
+            <div key={i} className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}>
+              <span className="text-gray-400">{query.line + issue.line - 1}:</span> {issue.message}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className={`${sectionClass} text-green-700`}>Синтаксических ошибок не найдено</div>
+      )}
+
+      {parsed.parameters.length > 0 && (
+        <div className={sectionClass}>
+          <div className="flex items-center justify-between">
+            <div className={titleClass}>Параметры</div>
+            <button
+              onClick={() => copy('params', formatParameterSetters(parsed.parameters, query.target))}
+              className="text-gray-500 hover:text-claude-accent"
+            >
+              {copied === 'params' ? 'Скопировано' : 'Копировать УстановитьПараметр'}
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {parsed.parameters.map(p => (
+              <span key={p.name} className="font-mono px-1.5 py-0.5 rounded bg-gray-100 text-gray-700">&amp;{p.name}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {parsed.statements.length > 0 && (
+        <div className={sectionClass}>
+          <div className={titleClass}>{parsed.statements.length > 1 ? 'Пакет запросов' : 'Источники'}</div>
+          <div className="space-y-2">
+            {parsed.statements.map(statement => (
+              <StatementItem key={statement.index} statement={statement} usedBy={usedBy(statement)} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueryView;
@@ -0,0 +1,96 @@
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { ChatSession, SearchFilters, SearchHitKind } from '../types';
+import { listStoredSessions } from '../services/storageService';
+import { parseQuery, searchSessions, splitHighlights } from '../services/searchService';
+
+interface SearchResultsProps {
+  sessions: ChatSession[];
+  query: string;
+  filters: SearchFilters;
+  currentSessionId: string | null;
+  onOpenResult: (sessionId: string, messageId?: string) => void;
+}
+
+const KIND_LABELS: Record<SearchHitKind, string> = {
+  text: 'текст',
+  code: 'код',
+  attachment: 'вложение'
+};
+
+const Highlighted = ({ text, terms }: { text: string; terms: string[] }) => (
+  <>
+    {splitHighlights(text, terms).map((part, i) =>
+      part.match
+        ? <mark key={i} className="bg-claude-accent/20 text-gray-900 rounded-sm">{part.text}</mark>
+        : <React.Fragment key={i}>{part.text}</React.Fragment>
+    )}
+  </>
+);
+
+const SearchResults: React.FC<SearchResultsProps> = ({ sessions, query, filters, currentSessionId, onOpenResult }) => {
+  // Chats that were never opened only exist in IndexedDB, so their records are read once for indexing
+  const [storedSessions, setStoredSessions] = useState<Map<string, ChatSession> | null>(null);
+  const deferredQuery = useDeferredValue(query);
+
+  useEffect(() => {
+    listStoredSessions()
+      .then(records => setStoredSessions(new Map(records.map(s => [s.id, s]))))
+      .catch(e => {
+        console.error("Failed to load sessions for search", e);
+        setStoredSessions(new Map());
+      });
+  }, []);
+
+  const searchable = useMemo(
+    () => sessions.map(s => (s.messagesLoaded === false ? storedSessions?.get(s.id) || s : s)),
+    [sessions, storedSessions]
+  );
+  const results = useMemo(
+    () => searchSessions(searchable, deferredQuery, filters),
+    [searchable, deferredQuery, filters]
+  );
+  const terms = parseQuery(deferredQuery);
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-gray-400 px-2 mb-2">
+        {storedSessions === null ? 'Индексация чатов…' : `Найдено чатов: ${results.length}`}
+      </div>
+      {results.map(result => (
+        <div
+          key={result.sessionId}
+          className={`rounded-lg text-sm ${result.sessionId === currentSessionId ? 'bg-gray-200' : 'hover:bg-gray-200/50'}`}
+        >
+          <button
+            onClick={() => onOpenResult(result.sessionId, result.hits[0]?.messageId)}
+            className="w-full text-left px-3 pt-2 pb-1 focus:outline-none"
+          >
+            <div className="truncate text-gray-800 font-medium">
+              <Highlighted text={result.title || 'Новый чат'} terms={terms} />
+            </div>
+            <div className="text-[10px] text-gray-400">
+              {new Date(result.updatedAt).toLocaleDateString('ru-RU')}
+              {result.totalHits > result.hits.length && ` · совпадений: ${result.totalHits}`}
+            </div>
+          </button>
+          {result.hits.map((hit, i) => (
+            <button
+              key={`${hit.messageId}-${i}`}
+              onClick={() => onOpenResult(result.sessionId, hit.messageId)}
+              className="w-full text-left px-3 py-1 text-xs text-gray-500 hover:text-gray-800 focus:outline-none last:pb-2"
+            >
+              <span className={`mr-1 px-1 rounded text-[10px] ${hit.kind === 'code' ? 'bg-gray-700 text-gray-100 font-mono' : 'bg-white border border-gray-200'}`}>
+                {KIND_LABELS[hit.kind]}
+              </span>
+              <span className="break-words">
+                <Highlighted text={hit.snippet} terms={terms} />
+              </span>
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SearchResults;
@@ -0,0 +1,8 @@
+import { createContext, useContext } from 'react';
+import { AppSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../services/settingsService';
+
+// Settings are read deep inside markdown renderers (code blocks), so they travel through context instead of props
+export const SettingsContext = createContext<AppSettings>(DEFAULT_SETTINGS);
+
+export const useSettings = () => useContext(SettingsContext);
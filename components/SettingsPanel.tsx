@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { AppSettings, ModelInfo, RetryPolicy } from '../types';
+import { BSL_RULES } from '../utils/bslLinter';
+import { DEFAULT_RETRY_POLICY } from '../constants';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  models: ModelInfo[];
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const labelClass = "block text-xs font-semibold text-gray-400 mb-1 uppercase";
+const numberClass = "w-full border border-gray-300 rounded-lg px-2 py-1 text-sm text-gray-700 focus:outline-none focus:ring-1 focus:ring-claude-accent";
+
+type ChainMode = 'fallbacks' | 'searchFallbacks';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, models, onChange, onClose }) => {
+  const disabled = new Set(settings.disabledLintRules);
+  const policy = settings.retryPolicy;
+  const [chainMode, setChainMode] = useState<ChainMode>('fallbacks');
+
+  const updatePolicy = (update: Partial<RetryPolicy>) => onChange({ ...settings, retryPolicy: { ...policy, ...update } });
+
+  const setChain = (modelId: string, chain: string[]) => {
+    const chains = { ...policy[chainMode] };
+    if (chain.length > 0) chains[modelId] = chain;
+    else delete chains[modelId];
+    updatePolicy({ [chainMode]: chains });
+  };
+
+  const getModelName = (id: string) => models.find(m => m.id === id)?.name || id;
+
+  const toggleRule = (id: string) => {
+    const updated = disabled.has(id)
+      ? settings.disabledLintRules.filter(r => r !== id)
+      : [...settings.disabledLintRules, id];
+    onChange({ ...settings, disabledLintRules: updated });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-30 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col animate-fadeIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="font-serif font-bold text-lg text-gray-700">Настройки</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <div>
+            <label className={labelClass}>Инструменты</label>
+            <label className="flex items-start gap-2 p-2 rounded-lg hover:bg-gray-50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.useTools}
+                onChange={(e) => onChange({ ...settings, useTools: e.target.checked })}
+                className="mt-0.5 accent-claude-accent"
+              />
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm text-gray-700">Разрешить модели вызывать инструменты</span>
+                <span className="block text-xs text-gray-400">
+                  Синтакс-помощник, проверка кода, поиск в метаданных и вычисление дат выполняются в браузере.
+                  Работает с моделями Gemini, когда поиск в интернете выключен.
+                </span>
+              </span>
+            </label>
+          </div>
+
+          <div>
+            <label className={labelClass}>Проверка кода 1С</label>
+            <p className="text-xs text-gray-400 mb-2">
+              Правила применяются к блокам кода BSL в ответах. Замечания показываются рядом со строками кода.
+            </p>
+            <div className="space-y-1">
+              {BSL_RULES.map(rule => (
+                <label key={rule.id} className="flex items-start gap-2 p-2 rounded-lg hover:bg-gray-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!disabled.has(rule.id)}
+                    onChange={() => toggleRule(rule.id)}
+                    className="mt-0.5 accent-claude-accent"
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="flex items-center gap-2 text-sm text-gray-700">
+                      <span className="font-mono text-xs text-gray-400">{rule.id}</span>
+                      {rule.title}
+                      <span className={`text-[10px] px-1.5 rounded ${rule.severity === 'error' ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-600'}`}>
+                        {rule.severity === 'error' ? 'ошибка' : 'предупреждение'}
+                      </span>
+                    </span>
+                    <span className="block text-xs text-gray-400">{rule.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Повторы и резервные модели</label>
+            <p className="text-xs text-gray-400 mb-2">
+              При превышении лимита или перегрузке сервера запрос повторяется с нарастающей паузой. Если у модели есть резервные, следующая попытка уходит к ним по порядку.
+            </p>
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              <label className="text-xs text-gray-500">
+                Попыток всего
+                <input
+                  type="number" min={1} max={10}
+                  value={policy.maxAttempts}
+                  onChange={(e) => updatePolicy({ maxAttempts: Math.max(1, Number(e.target.value) || 1) })}
+                  className={numberClass}
+                />
+              </label>
+              <label className="text-xs text-gray-500">
+                Пауза, с
+                <input
+                  type="number" min={0} step={0.5}
+                  value={policy.baseDelayMs / 1000}
+                  onChange={(e) => updatePolicy({ baseDelayMs: Math.max(0, Number(e.target.value) || 0) * 1000 })}
+                  className={numberClass}
+                />
+              </label>
+              <label className="text-xs text-gray-500">
+                Макс. пауза, с
+                <input
+                  type="number" min={1}
+                  value={policy.maxDelayMs / 1000}
+                  onChange={(e) => updatePolicy({ maxDelayMs: Math.max(1, Number(e.target.value) || 1) * 1000 })}
+                  className={numberClass}
+                />
+              </label>
+            </div>
+
+            <div className="flex gap-1 mb-2 text-xs">
+              {([['fallbacks', 'Обычный режим'], ['searchFallbacks', 'С поиском']] as [ChainMode, string][]).map(([mode, title]) => (
+                <button
+                  key={mode}
+                  onClick={() => setChainMode(mode)}
+                  className={`px-2 py-0.5 rounded-full border ${chainMode === mode ? 'border-claude-accent text-claude-accent bg-claude-accent/5' : 'border-gray-200 text-gray-500 hover:bg-gray-50'}`}
+                >
+                  {title}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-1">
+              {models.map(model => {
+                const chain = policy[chainMode][model.id] || [];
+                const candidates = models.filter(m => m.id !== model.id && !chain.includes(m.id));
+                return (
+                  <div key={model.id} className="p-2 rounded-lg hover:bg-gray-50">
+                    <div className="text-sm text-gray-700 mb-1">{model.name}</div>
+                    <div className="flex flex-wrap items-center gap-1 text-xs">
+                      {chain.length === 0 && chainMode === 'searchFallbacks' && policy.fallbacks[model.id] && (
+                        <span className="text-gray-400 italic">как в обычном режиме</span>
+                      )}
+                      {chain.map((id, i) => (
+                        <span key={id} className="inline-flex items-center gap-1 bg-gray-100 text-gray-600 rounded px-1.5 py-0.5">
+                          {i + 1}. {getModelName(id)}
+                          <button onClick={() => setChain(model.id, chain.filter(c => c !== id))} className="text-gray-400 hover:text-red-600" title="Убрать">×</button>
+                        </span>
+                      ))}
+                      {candidates.length > 0 && (
+                        <select
+                          value=""
+                          onChange={(e) => e.target.value && setChain(model.id, [...chain, e.target.value])}
+                          className="border border-gray-200 rounded px-1 py-0.5 text-gray-500 bg-white"
+                        >
+                          <option value="">+ резервная модель</option>
+                          {candidates.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                        </select>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-between items-center">
+          <div className="flex gap-3">
+            <button
+              onClick={() => onChange({ ...settings, disabledLintRules: [] })}
+              className="text-xs text-gray-500 hover:text-claude-accent underline"
+            >
+              Включить все правила
+            </button>
+            <button
+              onClick={() => onChange({ ...settings, retryPolicy: DEFAULT_RETRY_POLICY })}
+              className="text-xs text-gray-500 hover:text-claude-accent underline"
+            >
+              Повторы по умолчанию
+            </button>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-sm px-3 py-1.5 rounded-lg bg-claude-accent text-white hover:bg-[#c26646] transition-colors"
+          >
+            Готово
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
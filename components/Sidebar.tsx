@@ -1,37 +1,96 @@
-import React from 'react';
-import { ChatSession } from '../types';
-import { MODELS } from '../constants';
+import React, { useState } from 'react';
+import { ChatSession, MetadataIndex, ModelInfo, ProviderId, SearchFilters, SessionGeneration } from '../types';
+import { PROVIDER_NAMES } from '../constants';
+import { isSearchActive } from '../services/searchService';
+import SearchResults from './SearchResults';
+import MetadataPanel from './MetadataPanel';
+import KnowledgePanel from './KnowledgePanel';
+import { KnowledgeIndex } from '../services/knowledgeService';
 
 interface SidebarProps {
   isOpen: boolean;
   sessions: ChatSession[];
+  generations: Record<string, SessionGeneration>;
   currentSessionId: string | null;
   currentModelId: string;
+  models: ModelInfo[];
   onSelectSession: (id: string) => void;
+  onOpenSearchResult: (sessionId: string, messageId?: string) => void;
   onNewChat: () => void;
   onDeleteSession: (id: string) => void;
   onSelectModel: (id: string) => void;
+  onOpenStorage: () => void;
+  onOpenSettings: () => void;
+  metadataIndex: MetadataIndex | null;
+  onActivateMetadata: (index: MetadataIndex | null) => void;
+  knowledgeIndex: KnowledgeIndex | null;
+  onKnowledgeChange: () => void;
+  onToggleKnowledge: (enabled: boolean) => void;
+  isStorageFull: boolean;
   toggleSidebar: () => void;
 }
 
+// Pulsing dot while the chat is generating; a solid one for an answer nobody has looked at yet
+const GenerationIndicator = ({ generation }: { generation?: SessionGeneration }) => {
+  if (generation?.isLoading) {
+    return <span className="flex-shrink-0 w-2 h-2 rounded-full bg-claude-accent animate-pulse" title="Генерируется ответ" />;
+  }
+  if (generation?.unread) {
+    return generation.error
+      ? <span className="flex-shrink-0 w-2 h-2 rounded-full bg-red-500" title="Ответ завершился ошибкой" />
+      : <span className="flex-shrink-0 w-2 h-2 rounded-full bg-claude-accent" title="Новый ответ" />;
+  }
+  return null;
+};
+
 const Sidebar: React.FC<SidebarProps> = ({ 
   isOpen, 
   sessions, 
+  generations,
   currentSessionId,
   currentModelId,
+  models,
   onSelectSession, 
+  onOpenSearchResult,
   onNewChat,
   onDeleteSession,
   onSelectModel,
+  onOpenStorage,
+  onOpenSettings,
+  metadataIndex,
+  onActivateMetadata,
+  knowledgeIndex,
+  onKnowledgeChange,
+  onToggleKnowledge,
+  isStorageFull,
   toggleSidebar
 }) => {
   
+  const [panel, setPanel] = useState<'chats' | 'metadata' | 'knowledge'>('chats');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const searching = isSearchActive(searchQuery, searchFilters);
+  const hasFilters = Boolean(searchFilters.dateFrom || searchFilters.dateTo || searchFilters.modelId);
+
+  const updateFilter = (key: keyof SearchFilters, value: string) => {
+    setSearchFilters(prev => ({ ...prev, [key]: value || undefined }));
+  };
+
+  const handleOpenResult = (sessionId: string, messageId?: string) => {
+    onOpenSearchResult(sessionId, messageId);
+    if (window.innerWidth < 768) toggleSidebar();
+  };
+
   const handleDelete = (id: string) => {
     if (window.confirm('Вы уверены, что хотите удалить этот чат?')) {
       onDeleteSession(id);
     }
   };
 
+  const providerIds = Array.from(new Set(models.map(m => m.provider))) as ProviderId[];
+  const currentModel = models.find(m => m.id === currentModelId);
+
   return (
     <>
       {/* Mobile Overlay */}
@@ -79,10 +138,17 @@ const Sidebar: React.FC<SidebarProps> = ({
                   onChange={(e) => onSelectModel(e.target.value)}
                   className="w-full appearance-none bg-white border border-gray-300 text-gray-700 py-2 px-3 pr-8 rounded-lg text-sm focus:outline-none focus:ring-1 focus:ring-claude-accent focus:border-claude-accent"
                 >
-                  {MODELS.map(model => (
-                    <option key={model.id} value={model.id}>
-                      {model.name}
-                    </option>
+                  {!currentModel && (
+                    <option value={currentModelId}>{currentModelId}</option>
+                  )}
+                  {providerIds.map(providerId => (
+                    <optgroup key={providerId} label={PROVIDER_NAMES[providerId]}>
+                      {models.filter(m => m.provider === providerId).map(model => (
+                        <option key={model.id} value={model.id}>
+                          {model.name}
+                        </option>
+                      ))}
+                    </optgroup>
                   ))}
                 </select>
                 <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-500">
@@ -92,54 +158,175 @@ const Sidebar: React.FC<SidebarProps> = ({
                 </div>
              </div>
              <p className="text-[10px] text-gray-400 mt-1 px-1">
-               {currentModelId.includes('flash') ? 'Быстрая, меньше ошибок лимитов.' : 'Умная, но могут быть лимиты.'}
+               {currentModel?.description || 'Модель недоступна в текущей конфигурации.'}
              </p>
           </div>
         </div>
 
-        <div className="flex-1 overflow-y-auto px-3 py-2 space-y-1">
-          <div className="text-xs font-semibold text-gray-400 px-2 mb-2 uppercase tracking-wide">История</div>
-          {sessions.length === 0 ? (
-            <div className="text-sm text-gray-400 px-2 italic">Нет предыдущих чатов</div>
-          ) : (
-            sessions.map(session => (
-              <div
-                key={session.id}
-                className={`
-                  group w-full flex items-center justify-between rounded-lg text-sm transition-colors relative
-                  ${session.id === currentSessionId 
-                    ? 'bg-gray-200 text-gray-900 font-medium' 
-                    : 'text-gray-600 hover:bg-gray-200/50'}
-                `}
-              >
-                {/* Session Title Button */}
+        {/* Panel tabs */}
+        <div className="px-3 pb-2 flex gap-1 text-xs">
+          {([['chats', 'Чаты'], ['metadata', 'Метаданные'], ['knowledge', 'Знания']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setPanel(id)}
+              className={`flex-1 py-1 rounded-md transition-colors ${panel === id ? 'bg-gray-200 text-gray-800 font-medium' : 'text-gray-500 hover:bg-gray-200/50'}`}
+            >
+              {label}
+              {id === 'metadata' && metadataIndex && <span className="ml-1 inline-block w-1.5 h-1.5 rounded-full bg-claude-accent align-middle" />}
+              {id === 'knowledge' && knowledgeIndex && <span className="ml-1 inline-block w-1.5 h-1.5 rounded-full bg-claude-accent align-middle" />}
+            </button>
+          ))}
+        </div>
+
+        {panel === 'metadata' ? (
+          <div className="flex-1 overflow-y-auto px-3 py-2">
+            <MetadataPanel activeIndex={metadataIndex} onActivate={onActivateMetadata} />
+          </div>
+        ) : panel === 'knowledge' ? (
+          <div className="flex-1 overflow-y-auto px-3 py-2">
+            <KnowledgePanel index={knowledgeIndex} onDocumentsChange={onKnowledgeChange} onToggle={onToggleKnowledge} />
+          </div>
+        ) : (
+          <>
+            {/* Search */}
+            <div className="px-3 pb-2">
+              <div className="relative flex items-center">
+                <svg className="absolute left-2.5 w-4 h-4 text-gray-400 pointer-events-none" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+                </svg>
+                <input
+                  type="search"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Поиск по чатам"
+                  className="w-full bg-white border border-gray-300 text-gray-700 py-1.5 pl-8 pr-8 rounded-lg text-sm focus:outline-none focus:ring-1 focus:ring-claude-accent focus:border-claude-accent"
+                />
                 <button
-                  onClick={() => { onSelectSession(session.id); if(window.innerWidth < 768) toggleSidebar(); }}
-                  className="flex-1 text-left px-3 py-2.5 truncate focus:outline-none"
-                >
-                  {session.title || 'Новый чат'}
-                </button>
-                
-                {/* Delete Button - Separated from the main click area */}
-                <button 
-                  onClick={() => handleDelete(session.id)}
-                  className={`
-                    p-2 mr-1 rounded-md hover:bg-gray-300 text-gray-400 hover:text-red-600 transition-all
-                    ${session.id === currentSessionId ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}
-                  `}
-                  title="Удалить чат"
+                  onClick={() => setShowFilters(!showFilters)}
+                  className={`absolute right-1.5 p-1 rounded ${hasFilters || showFilters ? 'text-claude-accent' : 'text-gray-400 hover:text-gray-600'}`}
+                  title="Фильтры по дате и модели"
                 >
                   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4h18l-7 8v6l-4 2v-8L3 4z" />
                   </svg>
                 </button>
               </div>
-            ))
-          )}
-        </div>
 
-        <div className="p-4 border-t border-gray-200 text-xs text-gray-400">
-           История хранится локально.
+              {showFilters && (
+                <div className="mt-2 space-y-2 text-xs animate-fadeIn">
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="date"
+                      value={searchFilters.dateFrom || ''}
+                      onChange={(e) => updateFilter('dateFrom', e.target.value)}
+                      className="flex-1 min-w-0 bg-white border border-gray-300 text-gray-600 py-1 px-1.5 rounded-md"
+                      title="С даты"
+                    />
+                    <span className="text-gray-400">—</span>
+                    <input
+                      type="date"
+                      value={searchFilters.dateTo || ''}
+                      onChange={(e) => updateFilter('dateTo', e.target.value)}
+                      className="flex-1 min-w-0 bg-white border border-gray-300 text-gray-600 py-1 px-1.5 rounded-md"
+                      title="По дату"
+                    />
+                  </div>
+                  <select
+                    value={searchFilters.modelId || ''}
+                    onChange={(e) => updateFilter('modelId', e.target.value)}
+                    className="w-full bg-white border border-gray-300 text-gray-600 py-1 px-1.5 rounded-md"
+                  >
+                    <option value="">Любая модель</option>
+                    {models.map(model => (
+                      <option key={model.id} value={model.id}>{model.name}</option>
+                    ))}
+                  </select>
+                  {hasFilters && (
+                    <button onClick={() => setSearchFilters({})} className="text-gray-500 hover:text-claude-accent underline">
+                      Сбросить фильтры
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-3 py-2 space-y-1">
+              <div className="text-xs font-semibold text-gray-400 px-2 mb-2 uppercase tracking-wide">
+                {searching ? 'Результаты поиска' : 'История'}
+              </div>
+              {searching ? (
+                <SearchResults
+                  sessions={sessions}
+                  query={searchQuery}
+                  filters={searchFilters}
+                  currentSessionId={currentSessionId}
+                  onOpenResult={handleOpenResult}
+                />
+              ) : sessions.length === 0 ? (
+                <div className="text-sm text-gray-400 px-2 italic">Нет предыдущих чатов</div>
+              ) : (
+                sessions.map(session => (
+                  <div
+                    key={session.id}
+                    className={`
+                      group w-full flex items-center justify-between rounded-lg text-sm transition-colors relative
+                      ${session.id === currentSessionId 
+                        ? 'bg-gray-200 text-gray-900 font-medium' 
+                        : 'text-gray-600 hover:bg-gray-200/50'}
+                    `}
+                  >
+                    {/* Session Title Button */}
+                    <button
+                      onClick={() => { onSelectSession(session.id); if(window.innerWidth < 768) toggleSidebar(); }}
+                      className="flex-1 flex items-center gap-2 min-w-0 text-left px-3 py-2.5 focus:outline-none"
+                    >
+                      <span className="truncate">{session.title || 'Новый чат'}</span>
+                      <GenerationIndicator generation={generations[session.id]} />
+                    </button>
+                
+                    {/* Delete Button - Separated from the main click area */}
+                    <button 
+                      onClick={() => handleDelete(session.id)}
+                      className={`
+                        p-2 mr-1 rounded-md hover:bg-gray-300 text-gray-400 hover:text-red-600 transition-all
+                        ${session.id === currentSessionId ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}
+                      `}
+                      title="Удалить чат"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+
+          </>
+        )}
+
+        <div className="p-4 border-t border-gray-200 text-xs text-gray-400 flex items-center justify-between">
+           {isStorageFull ? (
+             <span className="text-red-600">Хранилище переполнено!</span>
+           ) : (
+             <span>История хранится локально.</span>
+           )}
+           <div className="flex gap-3">
+             <button
+               onClick={onOpenStorage}
+               className="underline hover:text-claude-accent transition-colors"
+               title="Использование хранилища и очистка старых чатов"
+             >
+               Хранилище
+             </button>
+             <button
+               onClick={onOpenSettings}
+               className="underline hover:text-claude-accent transition-colors"
+               title="Правила проверки кода и другие настройки"
+             >
+               Настройки
+             </button>
+           </div>
         </div>
       </div>
     </>
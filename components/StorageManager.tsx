@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { StorageUsage } from '../types';
+import { getStorageUsage } from '../services/storageService';
+import { formatFileSize } from '../utils/fileUtils';
+
+interface StorageManagerProps {
+  currentSessionId: string | null;
+  onDeleteSessions: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+const AGE_PRESETS = [
+  { label: 'Старше 7 дней', days: 7 },
+  { label: 'Старше 30 дней', days: 30 },
+  { label: 'Старше 90 дней', days: 90 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const StorageManager: React.FC<StorageManagerProps> = ({ currentSessionId, onDeleteSessions, onClose }) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const refresh = () => {
+    getStorageUsage()
+      .then(setUsage)
+      .catch(e => console.error("Failed to read storage usage", e));
+  };
+
+  useEffect(refresh, []);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const selectOlderThan = (days: number) => {
+    const threshold = Date.now() - days * DAY_MS;
+    setSelected(new Set(usage?.sessions.filter(s => s.updatedAt < threshold).map(s => s.id)));
+  };
+
+  const handleDelete = () => {
+    if (selected.size === 0) return;
+    if (!window.confirm(`Удалить выбранные чаты (${selected.size}) вместе с вложениями?`)) return;
+    onDeleteSessions(Array.from(selected));
+    setSelected(new Set());
+    // Deletion is asynchronous; give IndexedDB a moment before re-reading the estimate
+    setTimeout(refresh, 300);
+  };
+
+  const sessions = usage ? [...usage.sessions].sort((a, b) => a.updatedAt - b.updatedAt) : [];
+  const usedPercent = usage && usage.quotaBytes > 0 ? Math.min(100, (usage.usageBytes / usage.quotaBytes) * 100) : 0;
+  const selectedBytes = sessions.filter(s => selected.has(s.id)).reduce((sum, s) => sum + s.sizeBytes, 0);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-30 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[80vh] flex flex-col animate-fadeIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="font-serif font-bold text-lg text-gray-700">Хранилище</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-100">
+          {usage ? (
+            <>
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span>Использовано {formatFileSize(usage.usageBytes)}</span>
+                {usage.quotaBytes > 0 && <span>из {formatFileSize(usage.quotaBytes)}</span>}
+              </div>
+              <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${usedPercent > 80 ? 'bg-red-500' : 'bg-claude-accent'}`}
+                  style={{ width: `${usedPercent}%` }}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="text-xs text-gray-400">Подсчёт...</div>
+          )}
+
+          <div className="flex flex-wrap gap-2 mt-3">
+            {AGE_PRESETS.map(preset => (
+              <button
+                key={preset.days}
+                onClick={() => selectOlderThan(preset.days)}
+                className="bg-white border border-gray-200 hover:border-claude-accent/50 hover:bg-gray-50 text-gray-600 text-xs px-3 py-1 rounded-full transition-all"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-2 py-2">
+          {sessions.length === 0 ? (
+            <div className="text-sm text-gray-400 px-2 italic">Нет сохранённых чатов</div>
+          ) : (
+            sessions.map(session => (
+              <label
+                key={session.id}
+                className="flex items-center px-2 py-1.5 rounded-lg hover:bg-gray-50 text-sm cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(session.id)}
+                  onChange={() => toggle(session.id)}
+                  className="mr-3 accent-[#d97757]"
+                />
+                <span className={`flex-1 truncate ${session.id === currentSessionId ? 'font-medium text-gray-900' : 'text-gray-700'}`}>
+                  {session.title || 'Новый чат'}
+                </span>
+                <span className="ml-2 text-[10px] text-gray-400 font-mono whitespace-nowrap">
+                  {new Date(session.updatedAt).toLocaleDateString('ru-RU')} • {formatFileSize(session.sizeBytes)}
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-between items-center">
+          <span className="text-xs text-gray-400">
+            {selected.size > 0 ? `Выбрано ${selected.size} (${formatFileSize(selectedBytes)})` : 'Сообщения и вложения хранятся в IndexedDB'}
+          </span>
+          <button
+            onClick={handleDelete}
+            disabled={selected.size === 0}
+            className={`text-sm px-3 py-1.5 rounded-lg transition-colors ${selected.size > 0 ? 'bg-red-600 text-white hover:bg-red-700' : 'bg-gray-200 text-gray-400 cursor-not-allowed'}`}
+          >
+            Удалить
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorageManager;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { Element, ElementContent } from 'hast';
+import { createElement } from 'react-syntax-highlighter';
+import { Availability } from '../utils/globalContext';
+import { AVAILABILITY_LABELS, SyntaxEntry, isUnavailableIn, lookupSyntax } from '../utils/syntaxHelper';
+
+interface SyntaxHelperTooltipProps {
+  targetVersion: string;
+  children: React.ReactNode;
+}
+
+// Tokens whose text is not code: words inside them are never references
+const SKIPPED_TOKENS = ['comment', 'string', 'query-string', 'date', 'directive', 'preprocessor', 'label'];
+const WORD_REGEX = /[A-Za-zА-Яа-яЁё_][\wА-Яа-яЁё]*/g;
+const MAX_MEMBER_OWNERS = 4;
+
+// Props react-syntax-highlighter passes to a custom renderer
+interface RendererProps {
+  rows: Element[];
+  stylesheet: Record<string, React.CSSProperties>;
+  useInlineStyles: boolean;
+}
+
+// Wraps known identifiers of the highlighted tree in spans with data-syntax, so that the hover
+// handler below can find them; used as the `renderer` of SyntaxHighlighter for BSL blocks
+export const syntaxRefRenderer = ({ rows, stylesheet, useInlineStyles }: RendererProps) => {
+  let lastChar = '';
+
+  const markText = (value: string): ElementContent[] => {
+    const nodes: ElementContent[] = [];
+    let position = 0;
+    for (const match of value.matchAll(WORD_REGEX)) {
+      const before = (lastChar + value.slice(0, match.index)).trimEnd();
+      const isMember = before.endsWith('.');
+      if (!lookupSyntax(match[0], isMember)) continue;
+      if (match.index > position) nodes.push({ type: 'text', value: value.slice(position, match.index) });
+      nodes.push({
+        type: 'element',
+        tagName: 'span',
+        // Classes that are not in the stylesheet are kept when the highlighter inlines token styles
+        properties: {
+          className: ['syntax-ref', 'underline', 'decoration-dotted', 'underline-offset-[3px]', 'cursor-help'],
+          'data-syntax': match[0],
+          'data-member': String(isMember)
+        },
+        children: [{ type: 'text', value: match[0] }]
+      });
+      position = match.index + match[0].length;
+    }
+    if (position < value.length) nodes.push({ type: 'text', value: value.slice(position) });
+    if (value.trim()) lastChar = value.trimEnd().slice(-1);
+    return nodes;
+  };
+
+  const mark = (node: ElementContent): ElementContent[] => {
+    if (node.type === 'text') return markText(node.value);
+    if (node.type !== 'element') return [node];
+    const { className } = node.properties;
+    if (Array.isArray(className) && className.some(c => SKIPPED_TOKENS.includes(String(c)))) {
+      lastChar = '';
+      return [node];
+    }
+    return [{ ...node, children: node.children.flatMap(mark) }];
+  };
+
+  return rows.flatMap(mark).map((node, i) =>
+    createElement({ node, stylesheet, useInlineStyles, key: `code-segment${i}` })
+  );
+};
+
+const Badges = ({ since, availability, targetVersion }: { since?: string; availability?: Availability[]; targetVersion: string }) => (
+  <span className="inline-flex gap-1 ml-1 align-middle">
+    {since && (
+      <span className={`text-[10px] px-1.5 rounded ${isUnavailableIn(since, targetVersion) ? 'bg-red-50 text-red-600' : 'bg-gray-100 text-gray-500'}`}>
+        с {since}
+      </span>
+    )}
+    {availability?.map(a => (
+      <span key={a} className="text-[10px] px-1.5 rounded bg-blue-50 text-blue-600">{AVAILABILITY_LABELS[a]}</span>
+    ))}
+  </span>
+);
+
+const EntryCard = ({ entry, targetVersion }: { entry: SyntaxEntry; targetVersion: string }) => {
+  if (entry.kind === 'method') {
+    const { method } = entry;
+    return (
+      <>
+        <div className="font-semibold text-gray-800">
+          {method.name} <span className="font-normal text-gray-400">{method.nameEn}</span>
+          <Badges since={method.since} availability={method.availability} targetVersion={targetVersion} />
+        </div>
+        <div className="font-mono text-[11px] text-gray-600 mt-1 break-words">{method.syntax}</div>
+        {method.returns && <div className="text-gray-500 mt-1">Возвращает: {method.returns}</div>}
+        <div className="text-gray-600 mt-1">{method.description}</div>
+      </>
+    );
+  }
+
+  if (entry.kind === 'type') {
+    const { type } = entry;
+    return (
+      <>
+        <div className="font-semibold text-gray-800">
+          {type.name} <span className="font-normal text-gray-400">{type.nameEn}</span>
+          <Badges since={type.since} availability={type.availability} targetVersion={targetVersion} />
+        </div>
+        {type.constructorSyntax && <div className="font-mono text-[11px] text-gray-600 mt-1 break-words">{type.constructorSyntax}</div>}
+        <div className="text-gray-600 mt-1">{type.description}</div>
+        {type.members.length > 0 && (
+          <div className="text-gray-400 mt-1">{type.members.map(m => m.name).join(', ')}</div>
+        )}
+      </>
+    );
+  }
+
+  // A member name alone does not tell the type of the object, so every type that has it is listed
+  return (
+    <div className="space-y-2">
+      {entry.members.slice(0, MAX_MEMBER_OWNERS).map(({ type, member }) => (
+        <div key={`${type.name}.${member.name}`}>
+          <div className="font-semibold text-gray-800">
+            {type.name}.{member.name}
+            <span className="font-normal text-gray-400 ml-1">{member.kind === 'method' ? 'метод' : 'свойство'}</span>
+            <Badges since={member.since || type.since} availability={type.availability} targetVersion={targetVersion} />
+          </div>
+          {member.syntax && <div className="font-mono text-[11px] text-gray-600 break-words">{member.syntax}</div>}
+          <div className="text-gray-600">
+            {member.description}{member.returns && <span className="text-gray-400"> → {member.returns}</span>}
+          </div>
+        </div>
+      ))}
+      {entry.members.length > MAX_MEMBER_OWNERS && (
+        <div className="text-gray-400">и ещё {entry.members.length - MAX_MEMBER_OWNERS}</div>
+      )}
+    </div>
+  );
+};
+
+// Holds the hover state itself, so that moving the mouse does not re-highlight the code block
+const SyntaxHelperTooltip: React.FC<SyntaxHelperTooltipProps> = ({ targetVersion, children }) => {
+  const [hovered, setHovered] = useState<{ entry: SyntaxEntry; rect: DOMRect } | null>(null);
+
+  const handleMouseOver = (e: React.MouseEvent) => {
+    const target = (e.target as HTMLElement).closest<HTMLElement>('[data-syntax]');
+    const entry = target && lookupSyntax(target.dataset.syntax || '', target.dataset.member === 'true');
+    setHovered(target && entry ? { entry, rect: target.getBoundingClientRect() } : null);
+  };
+
+  // Shown below the word, or above it near the bottom of the window
+  const placeAbove = hovered && hovered.rect.bottom + 200 > window.innerHeight;
+
+  return (
+    <div onMouseOver={handleMouseOver} onMouseLeave={() => setHovered(null)}>
+      {children}
+      {hovered && createPortal(
+        <div
+          className="fixed z-50 max-w-md bg-white rounded-lg shadow-xl border border-gray-200 p-3 text-xs pointer-events-none animate-fadeIn"
+          style={{
+            left: Math.min(hovered.rect.left, window.innerWidth - 460),
+            ...(placeAbove ? { bottom: window.innerHeight - hovered.rect.top + 6 } : { top: hovered.rect.bottom + 6 })
+          }}
+        >
+          <EntryCard entry={hovered.entry} targetVersion={targetVersion} />
+          <div className="text-[10px] text-gray-400 mt-2">Синтакс-помощник (выдержка)</div>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default SyntaxHelperTooltip;
@@ -0,0 +1,187 @@
+import React, { useMemo } from 'react';
+import { AppSettings, DailyUsage, ModelInfo, ModelPrice } from '../types';
+import { DEFAULT_MODEL_PRICES } from '../constants';
+import { addUsage, estimateCost, formatCost, formatTokenCount, EMPTY_USAGE } from '../services/usageService';
+
+interface UsagePanelProps {
+  log: DailyUsage[];
+  models: ModelInfo[];
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
+  onClearLog: () => void;
+  onClose: () => void;
+}
+
+const labelClass = "block text-xs font-semibold text-gray-400 mb-1 uppercase";
+const priceInputClass = "w-16 border border-gray-300 rounded px-1.5 py-0.5 text-xs text-gray-700 text-right focus:outline-none focus:ring-1 focus:ring-claude-accent";
+
+const PRICE_FIELDS: { key: keyof ModelPrice; title: string }[] = [
+  { key: 'input', title: 'Вход' },
+  { key: 'cachedInput', title: 'Кэш' },
+  { key: 'output', title: 'Выход' }
+];
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ log, models, settings, onSettingsChange, onClearLog, onClose }) => {
+  const prices = settings.modelPrices;
+  const getModelName = (id: string) => models.find(m => m.id === id)?.name || id;
+
+  // Newest day first; rows of a day are ordered by cost
+  const days = useMemo(() => {
+    const byDate = new Map<string, DailyUsage[]>();
+    log.forEach(row => byDate.set(row.date, [...(byDate.get(row.date) || []), row]));
+    return Array.from(byDate.entries())
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([date, rows]) => ({
+        date,
+        rows: rows
+          .map(row => ({ ...row, cost: estimateCost(row, prices[row.modelId]) }))
+          .sort((a, b) => b.cost - a.cost)
+      }));
+  }, [log, prices]);
+
+  const total = log.reduce((sum, row) => addUsage(sum, row), EMPTY_USAGE);
+  const totalCost = days.reduce((sum, day) => sum + day.rows.reduce((s, row) => s + row.cost, 0), 0);
+
+  const updatePrice = (modelId: string, key: keyof ModelPrice, value: string) => {
+    const current = prices[modelId] || { input: 0, output: 0, cachedInput: 0 };
+    onSettingsChange({
+      ...settings,
+      modelPrices: { ...prices, [modelId]: { ...current, [key]: Math.max(0, Number(value) || 0) } }
+    });
+  };
+
+  const updateBudget = (value: string) => {
+    const budget = Number(value);
+    onSettingsChange({ ...settings, dailyBudget: value && budget > 0 ? budget : undefined });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-30 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col animate-fadeIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="font-serif font-bold text-lg text-gray-700">Расход токенов</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div>
+            <label className={labelClass}>По дням</label>
+            {days.length === 0 ? (
+              <p className="text-xs text-gray-400 italic">Запросов пока не было</p>
+            ) : (
+              <table className="w-full text-xs text-gray-600">
+                <thead>
+                  <tr className="text-gray-400 text-left">
+                    <th className="font-normal py-1">Дата / модель</th>
+                    <th className="font-normal text-right">Запросов</th>
+                    <th className="font-normal text-right">Вход</th>
+                    <th className="font-normal text-right">Кэш</th>
+                    <th className="font-normal text-right">Выход</th>
+                    <th className="font-normal text-right">Стоимость</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {days.map(day => (
+                    <React.Fragment key={day.date}>
+                      <tr className="border-t border-gray-100">
+                        <td colSpan={5} className="pt-2 font-semibold text-gray-700">{day.date}</td>
+                        <td className="pt-2 text-right font-semibold text-gray-700">
+                          {formatCost(day.rows.reduce((sum, row) => sum + row.cost, 0))}
+                        </td>
+                      </tr>
+                      {day.rows.map(row => (
+                        <tr key={row.modelId}>
+                          <td className="pl-3 truncate max-w-[200px]" title={row.modelId}>{getModelName(row.modelId)}</td>
+                          <td className="text-right font-mono">{row.requests}</td>
+                          <td className="text-right font-mono">{formatTokenCount(row.promptTokens)}</td>
+                          <td className="text-right font-mono">{formatTokenCount(row.cachedTokens)}</td>
+                          <td className="text-right font-mono">{formatTokenCount(row.responseTokens)}</td>
+                          <td className="text-right font-mono">{formatCost(row.cost)}</td>
+                        </tr>
+                      ))}
+                    </React.Fragment>
+                  ))}
+                  <tr className="border-t border-gray-200 font-semibold text-gray-700">
+                    <td className="pt-2">Итого</td>
+                    <td className="pt-2 text-right font-mono">{log.reduce((sum, row) => sum + row.requests, 0)}</td>
+                    <td className="pt-2 text-right font-mono">{formatTokenCount(total.promptTokens)}</td>
+                    <td className="pt-2 text-right font-mono">{formatTokenCount(total.cachedTokens)}</td>
+                    <td className="pt-2 text-right font-mono">{formatTokenCount(total.responseTokens)}</td>
+                    <td className="pt-2 text-right font-mono">{formatCost(totalCost)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div>
+            <label className={labelClass}>Дневной бюджет, $</label>
+            <input
+              type="number" min={0} step={0.1}
+              value={settings.dailyBudget ?? ''}
+              onChange={(e) => updateBudget(e.target.value)}
+              placeholder="Без ограничения"
+              className="w-40 border border-gray-300 rounded-lg px-2 py-1 text-sm text-gray-700 focus:outline-none focus:ring-1 focus:ring-claude-accent"
+            />
+            <p className="text-xs text-gray-400 mt-1">Перед отправкой появится предупреждение, когда расход за день приблизится к бюджету.</p>
+          </div>
+
+          <div>
+            <label className={labelClass}>Цены, $ за 1 млн токенов</label>
+            <p className="text-xs text-gray-400 mb-2">Стоимость оценочная: считается по этой таблице, а не по счёту провайдера.</p>
+            <div className="space-y-1">
+              {models.map(model => (
+                <div key={model.id} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 min-w-0 truncate text-gray-700" title={model.id}>{model.name}</span>
+                  {PRICE_FIELDS.map(field => (
+                    <label key={field.key} className="flex items-center gap-1 text-gray-400">
+                      {field.title}
+                      <input
+                        type="number" min={0} step={0.01}
+                        value={prices[model.id]?.[field.key] ?? 0}
+                        onChange={(e) => updatePrice(model.id, field.key, e.target.value)}
+                        className={priceInputClass}
+                      />
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-between items-center">
+          <div className="flex gap-3">
+            <button
+              onClick={() => onSettingsChange({ ...settings, modelPrices: DEFAULT_MODEL_PRICES })}
+              className="text-xs text-gray-500 hover:text-claude-accent underline"
+            >
+              Цены по умолчанию
+            </button>
+            <button
+              onClick={() => window.confirm('Очистить статистику расхода?') && onClearLog()}
+              className="text-xs text-gray-500 hover:text-red-600 underline"
+            >
+              Очистить статистику
+            </button>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-sm px-3 py-1.5 rounded-lg bg-claude-accent text-white hover:bg-[#c26646] transition-colors"
+          >
+            Готово
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,163 @@
+import React, { useRef, useState } from 'react';
+import { WorkspaceModule } from '../types';
+import { importWorkspaceFiles, mergeModules } from '../services/workspaceService';
+
+interface WorkspacePanelProps {
+  modules: WorkspaceModule[];
+  onChange: (modules: WorkspaceModule[] | undefined) => void;
+  onClose: () => void;
+}
+
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ modules, onChange, onClose }) => {
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedPath, setExpandedPath] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setError(null);
+    setIsImporting(true);
+    try {
+      const imported = await importWorkspaceFiles(files);
+      if (imported.length === 0) {
+        setError('Модули .bsl и .os не найдены');
+        return;
+      }
+      onChange(mergeModules(modules, imported));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const removeModule = (path: string) => {
+    const remaining = modules.filter(m => m.path !== path);
+    onChange(remaining.length > 0 ? remaining : undefined);
+  };
+
+  const clearAll = () => {
+    if (window.confirm('Удалить все модули из рабочего пространства чата?')) onChange(undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black bg-opacity-30 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col animate-fadeIn"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="font-serif font-bold text-lg text-gray-700">Модули чата</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+          <p className="text-xs text-gray-500">
+            Упомяните модуль или метод в сообщении через <code className="font-mono text-claude-accent">@</code>,
+            например <code className="font-mono">@ОбщийМодуль.РаботаСФайлами</code> или <code className="font-mono">@ИмяПроцедуры</code>,
+            и его исходный код будет отправлен вместе с вопросом.
+          </p>
+
+          <div className="flex gap-2 text-xs">
+            <button
+              onClick={() => folderInputRef.current?.click()}
+              disabled={isImporting}
+              className="flex-1 bg-white border border-gray-300 hover:bg-gray-50 text-gray-600 py-1.5 rounded-lg disabled:opacity-50"
+              title="Каталог выгрузки конфигурации или проекта EDT"
+            >
+              Каталог
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+              className="flex-1 bg-white border border-gray-300 hover:bg-gray-50 text-gray-600 py-1.5 rounded-lg disabled:opacity-50"
+              title="ZIP-архив или отдельные файлы .bsl/.os"
+            >
+              ZIP / BSL
+            </button>
+            <input
+              ref={folderInputRef}
+              type="file"
+              className="hidden"
+              onChange={handleImport}
+              {...{ webkitdirectory: '', directory: '' }}
+            />
+            <input ref={fileInputRef} type="file" className="hidden" multiple accept=".zip,.bsl,.os" onChange={handleImport} />
+          </div>
+
+          {isImporting && <div className="text-xs text-gray-500 animate-pulse">Чтение модулей…</div>}
+          {error && <div className="text-xs text-red-600">{error}</div>}
+
+          {modules.length === 0 ? (
+            !isImporting && <p className="text-xs text-gray-400 italic">Модули не загружены.</p>
+          ) : (
+            <div>
+              {modules.map(module => (
+                <div key={module.path}>
+                  <div className="group flex items-center gap-2 px-2 py-1 rounded-md hover:bg-gray-100">
+                    <button
+                      onClick={() => setExpandedPath(expandedPath === module.path ? null : module.path)}
+                      className="flex-1 min-w-0 text-left"
+                      title={module.path}
+                    >
+                      <div className="truncate text-xs text-gray-800 font-mono">{module.name}</div>
+                      <div className="text-[10px] text-gray-400">методов: {module.methods.length}</div>
+                    </button>
+                    <button
+                      onClick={() => removeModule(module.path)}
+                      className="opacity-0 group-hover:opacity-100 p-1 text-gray-400 hover:text-red-500"
+                      title="Убрать модуль"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                  {expandedPath === module.path && (
+                    <div className="ml-3 mb-2 pl-2 border-l border-gray-200 text-xs">
+                      {module.methods.map(method => (
+                        <div key={`${method.name}-${method.startLine}`} className="flex justify-between gap-2">
+                          <span className="truncate font-mono text-gray-700">
+                            {method.name}{method.isExport && <span className="text-gray-400"> Экспорт</span>}
+                          </span>
+                          <span className="text-gray-400 text-[10px] flex-shrink-0">{method.startLine}–{method.endLine}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-between items-center">
+          <button
+            onClick={clearAll}
+            disabled={modules.length === 0}
+            className="text-xs text-gray-500 hover:text-red-600 underline disabled:opacity-50 disabled:hover:text-gray-500"
+          >
+            Очистить
+          </button>
+          <button
+            onClick={onClose}
+            className="text-sm px-3 py-1.5 rounded-lg bg-claude-accent text-white hover:bg-[#c26646] transition-colors"
+          >
+            Готово
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspacePanel;
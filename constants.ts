@@ -1,3 +1,5 @@
+import { GenerationSettings, ModelInfo, ModelPrice, ProviderId, RetryPolicy } from './types';
+
 
 export const SYSTEM_INSTRUCTION = `
 Ты — опытный консультант и старший разработчик, специализирующийся на платформе "1С:Предприятие". Твоя задача — помогать пользователям, предоставляя исчерпывающие, точные и практичные решения.
@@ -19,10 +21,89 @@ export const SYSTEM_INSTRUCTION = `
 -   Всегда отвечай на русском языке.
 `;
 
-export const MODELS = [
-  { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash (Быстрая)', description: 'Быстрая, экономная, для простых задач' },
-  { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash (Стабильная)', description: 'Стабильная версия, лучше работает с поиском' },
-  { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro (Умная)', description: 'Для сложных рассуждений и анализа' }
+export const MODEL_ID_SEPARATOR = ':';
+
+export const OPENAI_COMPAT_CONFIG = {
+  baseUrl: (process.env.OPENAI_BASE_URL || '').replace(/\/+$/, ''),
+  apiKey: process.env.OPENAI_API_KEY || '',
+  // Comma-separated list of model names served by the endpoint (vLLM, Ollama, LM Studio)
+  models: (process.env.OPENAI_MODELS || '')
+    .split(',')
+    .map(m => m.trim())
+    .filter(Boolean)
+};
+
+export const GEMINI_MODELS: ModelInfo[] = [
+  { id: 'gemini:gemini-3-flash-preview', provider: 'gemini', name: 'Gemini 3 Flash (Быстрая)', description: 'Быстрая, экономная, для простых задач', contextBudget: 32000, reasoning: 'level' },
+  { id: 'gemini:gemini-2.0-flash', provider: 'gemini', name: 'Gemini 2.0 Flash (Стабильная)', description: 'Стабильная версия, лучше работает с поиском', contextBudget: 32000 },
+  { id: 'gemini:gemini-3-pro-preview', provider: 'gemini', name: 'Gemini 3 Pro (Умная)', description: 'Для сложных рассуждений и анализа', contextBudget: 64000, reasoning: 'level' }
 ];
 
-export const DEFAULT_MODEL = 'gemini-3-flash-preview';
+// Local models typically run with a small context window
+export const DEFAULT_LOCAL_CONTEXT_BUDGET = 6000;
+
+export const OPENAI_COMPAT_MODELS: ModelInfo[] = OPENAI_COMPAT_CONFIG.models.map(model => ({
+  id: `openai:${model}`,
+  provider: 'openai',
+  name: model,
+  description: 'Локальная модель (OpenAI-совместимый API)',
+  contextBudget: DEFAULT_LOCAL_CONTEXT_BUDGET
+}));
+
+export const MODELS: ModelInfo[] = [...GEMINI_MODELS, ...OPENAI_COMPAT_MODELS];
+
+// Paid tier list prices, USD per million tokens; local models cost nothing. Editable in the usage dashboard.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini:gemini-3-flash-preview': { input: 0.5, output: 3, cachedInput: 0.05 },
+  'gemini:gemini-2.0-flash': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gemini:gemini-3-pro-preview': { input: 2, output: 12, cachedInput: 0.2 }
+};
+
+export const PROVIDER_NAMES: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'Локальные (OpenAI API)'
+};
+
+export const DEFAULT_MODEL = 'gemini:gemini-3-flash-preview';
+
+// Retries on quota and overload errors; a fallback model is tried before repeating the same one
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1500,
+  maxDelayMs: 30000,
+  jitter: 0.3,
+  fallbacks: {
+    'gemini:gemini-2.0-flash': ['gemini:gemini-3-flash-preview']
+  },
+  // Search quota on 3.0 Flash runs out first; 2.0 Flash handles grounding better
+  searchFallbacks: {
+    'gemini:gemini-3-flash-preview': ['gemini:gemini-2.0-flash']
+  }
+};
+
+export const DEFAULT_CONTEXT_BUDGET = 32000;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  temperature: 0.7,
+  topP: 0.95,
+  maxOutputTokens: 8192
+};
+
+// Deterministic code mode: the same question gives the same code, without creative detours
+export const CODE_MODE_GENERATION_SETTINGS: GenerationSettings = {
+  temperature: 0,
+  topP: 1,
+  maxOutputTokens: 8192
+};
+
+// Sent when an answer stops at the output token limit; the parts are stitched into one message
+export const CONTINUATION_PROMPT = `
+Твой предыдущий ответ оборвался из-за ограничения длины. Продолжи его ровно с того места, где он остановился:
+без вступления, без повторения уже написанного. Если остановка пришлась на блок кода, продолжай код с прерванной строки.
+`.trim();
+
+export const SUMMARY_INSTRUCTION = `
+Ты составляешь краткое содержание технического диалога о разработке на платформе "1С:Предприятие".
+Сохрани: постановку задачи, принятые решения, имена объектов метаданных, процедур и переменных, тексты ошибок,
+ключевые фрагменты кода (кратко), открытые вопросы. Пиши на русском языке, сжато, списком, без вступлений.
+`;
@@ -0,0 +1,90 @@
+// Minimal OpenAI-compatible server for trying the local model provider without a real model:
+// GET /v1/models and a streamed POST /v1/chat/completions. Markers in the last user message pick the case:
+//   #length  the answer stops with finish_reason "length", so the app continues it (the continuation ends normally)
+//   #503     the server answers 503 with Retry-After, so the app retries
+// Usage: node scripts/mock-openai-server.mjs [port], then OPENAI_BASE_URL=http://localhost:11435/v1
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.argv[2] || process.env.PORT || 11435);
+const MODEL = 'mock-model';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+};
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const readJson = async (req) => {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return JSON.parse(body || '{}');
+};
+
+const lastUserText = (messages = []) => {
+  const content = [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+  return Array.isArray(content) ? content.map(p => p.text || '').join('\n') : content;
+};
+
+const chunk = (delta, finishReason = null) => ({
+  id: 'chatcmpl-mock',
+  object: 'chat.completion.chunk',
+  model: MODEL,
+  choices: [{ index: 0, delta, finish_reason: finishReason }]
+});
+
+const streamAnswer = async (res, request) => {
+  const prompt = lastUserText(request.messages);
+  const truncated = prompt.includes('#length');
+  const words = truncated
+    ? ['Процедура ', 'Тест()\n', '\tСообщить(', '"Часть ']
+    : ['Ответ ', 'mock-сервера ', 'на запрос ', `из ${prompt.length} символов.`];
+
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  const events = [
+    chunk({ role: 'assistant', content: '' }),
+    ...words.map(content => chunk({ content })),
+    chunk({}, truncated ? 'length' : 'stop')
+  ].map(event => `data: ${JSON.stringify(event)}\n\n`);
+
+  // Event boundaries fall in the middle of network reads, as they do with real servers
+  const stream = events.join('') + ': keep-alive comment\n\ndata: {not json}\n\n';
+  for (let i = 0; i < stream.length; i += 37) {
+    res.write(stream.slice(i, i + 37));
+    await sleep(20);
+  }
+
+  // With stream_options.include_usage the last event has no choices, only token counts
+  if (request.stream_options?.include_usage) {
+    const usage = { prompt_tokens: prompt.length, completion_tokens: words.length, prompt_tokens_details: { cached_tokens: 0 } };
+    res.write(`data: ${JSON.stringify({ id: 'chatcmpl-mock', object: 'chat.completion.chunk', model: MODEL, choices: [], usage })}\n\n`);
+  }
+  res.end('data: [DONE]\n\n');
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  console.log(req.method, url.pathname);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS).end();
+  } else if (req.method === 'GET' && url.pathname === '/v1/models') {
+    res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ object: 'list', data: [{ id: MODEL, object: 'model' }] }));
+  } else if (req.method === 'POST' && url.pathname === '/v1/chat/completions') {
+    const request = await readJson(req).catch(() => null);
+    if (!request) {
+      res.writeHead(400, CORS_HEADERS).end('Invalid JSON');
+    } else if (lastUserText(request.messages).includes('#503')) {
+      res.writeHead(503, { ...CORS_HEADERS, 'Retry-After': '1' }).end('Model is loading');
+    } else {
+      await streamAnswer(res, request);
+    }
+  } else {
+    res.writeHead(404, CORS_HEADERS).end();
+  }
+});
+
+server.listen(PORT, () => console.log(`Mock OpenAI-compatible server: http://localhost:${PORT}/v1`));
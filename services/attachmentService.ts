@@ -0,0 +1,40 @@
+import { Attachment } from '../types';
+import { fileToBase64 } from '../utils/fileUtils';
+import { extractOfficeText, getOfficeFormat, isLegacyOfficeFile } from '../utils/officeUtils';
+
+// Reads a picked file into an attachment, extracting text from Office documents on the way
+export const readAttachment = async (file: File): Promise<Attachment> => {
+  const attachment: Attachment = {
+    name: file.name,
+    mimeType: file.type,
+    data: await fileToBase64(file),
+    size: file.size
+  };
+
+  const format = getOfficeFormat(file.name);
+  if (format) {
+    attachment.extraction = await extractOfficeText(format, await file.arrayBuffer());
+  }
+
+  return attachment;
+};
+
+/**
+ * Text that replaces the inline binary for attachments the model cannot read directly.
+ * Returns null when the attachment should be sent as inline data.
+ */
+export const attachmentToText = (att: Attachment): string | null => {
+  if (att.extraction) {
+    const note = att.extraction.truncated
+      ? `\n\n[Текст обрезан: передано ${att.extraction.text.length} из ${att.extraction.originalLength} символов]`
+      : '';
+    if (att.extraction.format === 'bsl') {
+      return `Исходный код ${att.name} (${att.extraction.details}):\n\n\`\`\`bsl\n${att.extraction.text}\n\`\`\`${note}`;
+    }
+    return `Содержимое файла "${att.name}" (${att.extraction.details}):\n\n${att.extraction.text}${note}`;
+  }
+  if (isLegacyOfficeFile(att.name)) {
+    return `[Файл "${att.name}" в старом двоичном формате Office не может быть прочитан. Попросите пользователя сохранить его как .docx/.xlsx/.pptx]`;
+  }
+  return null;
+};
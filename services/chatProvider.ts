@@ -0,0 +1,167 @@
+import { v4 as uuidv4 } from "uuid";
+import { ChatError, ChatProvider, ModelInfo, ProviderId, RetryPolicy, Role, StreamRequest } from "../types";
+import { CONTINUATION_PROMPT, DEFAULT_GENERATION_SETTINGS, DEFAULT_RETRY_POLICY, MODELS, MODEL_ID_SEPARATOR } from "../constants";
+import { sleep } from "../utils/asyncUtils";
+import { ERROR_TITLES, isRetryableError } from "../utils/errorUtils";
+import { stitchContinuation } from "../utils/continuationUtils";
+import { adaptGenerationSettings } from "./generationService";
+import { geminiProvider } from "./geminiService";
+import { openaiProvider } from "./openaiService";
+
+const PROVIDERS: Record<ProviderId, ChatProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider
+};
+
+export const getProvider = (id: ProviderId): ChatProvider => PROVIDERS[id];
+
+// Splits "provider:model" into its parts. Unqualified ids (stored before providers existed) are Gemini models.
+export const parseModelId = (qualifiedId: string): { providerId: ProviderId; model: string } => {
+  const separatorIndex = qualifiedId.indexOf(MODEL_ID_SEPARATOR);
+  if (separatorIndex > 0) {
+    const prefix = qualifiedId.slice(0, separatorIndex) as ProviderId;
+    if (prefix in PROVIDERS) {
+      return { providerId: prefix, model: qualifiedId.slice(separatorIndex + 1) };
+    }
+  }
+  return { providerId: 'gemini', model: qualifiedId };
+};
+
+export const qualifyModelId = (qualifiedOrLegacyId: string): string => {
+  const { providerId, model } = parseModelId(qualifiedOrLegacyId);
+  return `${providerId}${MODEL_ID_SEPARATOR}${model}`;
+};
+
+export const providerSupportsSearch = (qualifiedId: string): boolean =>
+  getProvider(parseModelId(qualifiedId).providerId).supportsSearch;
+
+// Static models from constants plus whatever the configured providers report at runtime
+export const loadAvailableModels = async (): Promise<ModelInfo[]> => {
+  const models = [...MODELS];
+
+  for (const provider of Object.values(PROVIDERS)) {
+    if (!provider.listModels || !provider.isConfigured()) continue;
+    try {
+      const discovered = await provider.listModels();
+      discovered.forEach(model => {
+        if (!models.some(m => m.id === model.id)) models.push(model);
+      });
+    } catch (e) {
+      console.warn(`Failed to list models for provider ${provider.id}`, e);
+    }
+  }
+
+  return models;
+};
+
+const getModelName = (qualifiedId: string): string =>
+  MODELS.find(m => m.id === qualifiedId)?.name || parseModelId(qualifiedId).model;
+
+// The requested model followed by its fallbacks; chains of fallback models are not followed further
+export const getFallbackChain = (qualifiedId: string, policy: RetryPolicy, useSearch: boolean): string[] => {
+  const fallbacks = (useSearch && policy.searchFallbacks[qualifiedId]) || policy.fallbacks[qualifiedId] || [];
+  return [qualifiedId, ...fallbacks.filter(id => id !== qualifiedId)];
+};
+
+// Exponential backoff with jitter; a server hint wins but is still capped
+const getRetryDelay = (policy: RetryPolicy, attempt: number, error: ChatError): number => {
+  if (error.retryAfterMs !== undefined) return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  const delay = Math.min(policy.baseDelayMs * Math.pow(2, attempt - 1), policy.maxDelayMs);
+  return Math.round(delay * (1 - policy.jitter * Math.random()));
+};
+
+const streamOnce = async (qualifiedId: string, request: StreamRequest): Promise<ChatError | null> => {
+  const { providerId, model } = parseModelId(qualifiedId);
+  const provider = getProvider(providerId);
+  let failure: ChatError | null = null;
+
+  await provider.streamResponse({
+    ...request,
+    // Structured answers are plain JSON: providers do not combine a response schema with tools
+    useSearch: request.useSearch && provider.supportsSearch && !request.responseSchema,
+    tools: provider.supportsTools && !request.responseSchema ? request.tools : undefined,
+    modelId: model,
+    generation: adaptGenerationSettings(
+      request.generation || DEFAULT_GENERATION_SETTINGS,
+      MODELS.find(m => m.id === qualifiedId)
+    ),
+    onError: (error) => { failure = error; }
+  });
+
+  return failure;
+};
+
+// Resolves with the model that answered, or null once the error has been reported or the request was cancelled
+const streamWithRetries = async (request: StreamRequest): Promise<string | null> => {
+  const { modelId, retryPolicy = DEFAULT_RETRY_POLICY, onError, onNotice = () => {}, onModelChange = () => {}, signal } = request;
+  const chain = getFallbackChain(modelId, retryPolicy, request.useSearch);
+  let current = modelId;
+
+  for (let attempt = 1; ; attempt++) {
+    const error = await streamOnce(current, request);
+    if (signal?.aborted) return null;
+    if (!error) return current;
+
+    console.warn(`Attempt ${attempt}/${retryPolicy.maxAttempts} on ${current} failed:`, error);
+    if (!isRetryableError(error) || attempt >= retryPolicy.maxAttempts) {
+      onError(error);
+      return null;
+    }
+
+    const next = chain[chain.indexOf(current) + 1];
+    if (next) {
+      current = next;
+      onModelChange(next);
+      onNotice(`${ERROR_TITLES[error.kind]}. Переключение на ${getModelName(next)}...`);
+    } else if (attempt > 1 || error.retryAfterMs !== undefined) {
+      // The first silent retry usually succeeds; only longer waits are worth a notice
+      onNotice("Сервер занят, повторная попытка...");
+    }
+
+    try {
+      await sleep(getRetryDelay(retryPolicy, attempt, error), signal);
+    } catch {
+      return null;
+    }
+  }
+};
+
+// Answers cut off by the output token limit are continued this many times at most
+const MAX_CONTINUATIONS = 3;
+
+export const streamChatResponse = async (request: StreamRequest) => {
+  const { onChunk, onNotice = () => {}, signal } = request;
+  let text = '';
+  let partRequest = request;
+
+  for (let part = 0; ; part++) {
+    const prefix = text;
+    let truncated = false;
+
+    const answeredBy = await streamWithRetries({
+      ...partRequest,
+      onChunk: (partText) => {
+        text = part === 0 ? partText : stitchContinuation(prefix, partText);
+        onChunk(text);
+      },
+      onTruncated: () => { truncated = true; }
+    });
+    // A cut JSON answer cannot be stitched together; it is reported when the JSON is parsed
+    if (!answeredBy || !truncated || part >= MAX_CONTINUATIONS || signal?.aborted || request.responseSchema) return;
+
+    onNotice("Ответ достиг лимита длины, продолжение...");
+    // The cut answer goes into the history; sources from web search were already reported by the first part.
+    // History is sent as text only, so attachments and knowledge fragments go with the continuation prompt.
+    partRequest = {
+      ...request,
+      modelId: answeredBy,
+      useSearch: false,
+      history: [
+        ...request.history,
+        { id: uuidv4(), role: Role.USER, text: request.newMessage, timestamp: Date.now() },
+        { id: uuidv4(), role: Role.MODEL, text, timestamp: Date.now() }
+      ],
+      newMessage: CONTINUATION_PROMPT
+    };
+  }
+};
@@ -0,0 +1,137 @@
+import { ContextSummary, ContextWindow, Message, ProjectContext, Role } from "../types";
+import { SYSTEM_INSTRUCTION, SUMMARY_INSTRUCTION } from "../constants";
+import { streamChatResponse } from "./chatProvider";
+import { formatProjectContext } from "./projectContextService";
+import { recordUsage } from "./usageService";
+
+// Rough token estimate without a network round trip: Latin text averages ~4 characters
+// per token, Cyrillic and other non-ASCII text ~2.5 characters per token.
+export const estimateTokens = (text: string): number => {
+  let ascii = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++; else other++;
+  }
+  return Math.ceil(ascii / 4 + other / 2.5);
+};
+
+// Attachments are sent inline only with the message they belong to, so history costs text only
+export const estimateMessageTokens = (message: Message): number => estimateTokens(message.text) + 4;
+
+// Same filter as the providers apply, so the budget counts only what is sent
+const isSendable = (message: Message) => !message.isThinking && !message.error && Boolean(message.text);
+
+/**
+ * Picks the history to send: pinned messages always, then the newest turns that fit into the
+ * budget. Older turns are replaced by the session summary when it is still valid for this path.
+ */
+export const buildContextWindow = (
+  history: Message[],
+  summary: ContextSummary | undefined,
+  budget: number,
+  reservedTokens = 0
+): ContextWindow => {
+  const sendable = history.filter(isSendable);
+  const pathIds = new Set(sendable.map(m => m.id));
+
+  // A summary made on another branch describes messages that are not on this path
+  const validSummary = summary && summary.coveredMessageIds.every(id => pathIds.has(id)) ? summary : undefined;
+  const covered = new Set(validSummary?.coveredMessageIds || []);
+
+  let usedTokens = reservedTokens + (validSummary ? estimateTokens(validSummary.text) : 0);
+  const pinned = sendable.filter(m => m.isPinned);
+  usedTokens += pinned.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+
+  const included = new Set(pinned.map(m => m.id));
+  const candidates = sendable.filter(m => !m.isPinned && !covered.has(m.id));
+
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const cost = estimateMessageTokens(candidates[i]);
+    if (usedTokens + cost > budget) break;
+    usedTokens += cost;
+    included.add(candidates[i].id);
+  }
+
+  // Keep the verbatim part starting with a user turn so roles keep alternating after the summary
+  const firstIncluded = candidates.find(m => included.has(m.id));
+  if (firstIncluded && firstIncluded.role === Role.MODEL && candidates.indexOf(firstIncluded) > 0) {
+    included.delete(firstIncluded.id);
+    usedTokens -= estimateMessageTokens(firstIncluded);
+  }
+
+  return {
+    messages: sendable.filter(m => included.has(m.id)),
+    summary: validSummary,
+    unsummarized: candidates.filter(m => !included.has(m.id)),
+    totalMessages: sendable.length,
+    usedTokens,
+    budget
+  };
+};
+
+// Folds newly dropped messages into the running summary using the current model
+export const summarizeMessages = async (
+  previous: ContextSummary | undefined,
+  dropped: Message[],
+  modelId: string,
+  signal?: AbortSignal
+): Promise<ContextSummary | undefined> => {
+  const transcript = dropped
+    .map(m => `${m.role === Role.USER ? 'Пользователь' : 'Ассистент'}: ${m.text}`)
+    .join('\n\n');
+
+  const prompt = [
+    previous ? `Текущее краткое содержание:\n${previous.text}` : '',
+    `Новые сообщения диалога:\n${transcript}`,
+    'Обнови краткое содержание с учётом новых сообщений.'
+  ].filter(Boolean).join('\n\n');
+
+  let text = '';
+  let failed = false;
+  let answeredBy = modelId;
+  await streamChatResponse({
+    history: [],
+    newMessage: prompt,
+    useSearch: false,
+    modelId,
+    systemInstruction: SUMMARY_INSTRUCTION,
+    signal,
+    onChunk: (chunkText) => { text = chunkText; },
+    onGrounding: () => {},
+    onError: () => { failed = true; },
+    onModelChange: (id) => { answeredBy = id; },
+    // Summaries are paid for like answers, so they count towards the daily totals
+    onUsage: (usage) => { recordUsage(answeredBy, usage); }
+  });
+
+  if (!text || failed) return undefined;
+
+  return {
+    text: text.trim(),
+    coveredMessageIds: [...(previous?.coveredMessageIds || []), ...dropped.map(m => m.id)],
+    updatedAt: Date.now()
+  };
+};
+
+interface SystemInstructionParts {
+  summary?: ContextSummary;
+  projectContext?: ProjectContext;
+  metadata?: string; // Formatted objects of the imported configuration relevant to the request
+}
+
+// Base prompt plus the per-session project context, configuration metadata and the summary of trimmed history
+export const composeSystemInstruction = ({ summary, projectContext, metadata }: SystemInstructionParts = {}): string => {
+  const sections = [SYSTEM_INSTRUCTION];
+
+  const project = formatProjectContext(projectContext);
+  if (project) sections.push(project);
+
+  if (metadata) sections.push(metadata);
+
+  if (summary) {
+    sections.push(`**Краткое содержание более ранней части диалога** (исходные сообщения не приводятся):
+${summary.text}`);
+  }
+
+  return sections.join('\n');
+};
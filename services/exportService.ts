@@ -0,0 +1,154 @@
+import { v4 as uuidv4 } from 'uuid';
+import { detectCodeLanguage } from '../utils/bslGrammar';
+import { compareVersions, parseVersion } from '../utils/syntaxHelper';
+import { DESIGNER_NAMESPACES, synonymXml, withBom } from '../utils/xmlUtils';
+import { writeZip } from '../utils/zipUtils';
+
+// Packs code blocks of an answer into the Designer file layout of an external data processor,
+// as "Выгрузить внешнюю обработку в файлы" writes it, so that the Configurator can load it back.
+
+export type ProcessorPart = 'objectModule' | 'formModule' | 'formDescription';
+
+export const PROCESSOR_PART_LABELS: Record<ProcessorPart, string> = {
+  objectModule: 'Модуль объекта',
+  formModule: 'Модуль формы',
+  formDescription: 'Описание формы (Form.xml)'
+};
+
+export interface CodeFragment {
+  language: string; // 'bsl', 'xml' or the fence tag as written
+  code: string;
+}
+
+export interface ProcessorExport {
+  name: string;
+  synonym: string;
+  platformVersion: string; // Picks the dump format version; empty for the default
+  parts: Partial<Record<ProcessorPart, string>>;
+}
+
+const FORM_NAME = 'Форма';
+// ClassId of the ExternalDataProcessor object in dumps of every platform version
+const PROCESSOR_CLASS_ID = 'c3831ec8-d8d5-4f93-8a22-f9bfae07327f';
+
+// Newer formats do not load into older platforms; without a project version the dump targets 8.3.16
+const DUMP_FORMAT_VERSIONS: [string, string][] = [
+  ['8.3.25', '2.19'], ['8.3.24', '2.18'], ['8.3.23', '2.17'], ['8.3.22', '2.16'], ['8.3.21', '2.15'],
+  ['8.3.20', '2.14'], ['8.3.19', '2.13'], ['8.3.18', '2.12'], ['8.3.17', '2.11'], ['8.3.16', '2.10'],
+  ['8.3.15', '2.9'], ['8.3.14', '2.8'], ['8.3.13', '2.7'], ['8.3.12', '2.6'], ['8.3.11', '2.5'], ['8.3.10', '2.4']
+];
+const DEFAULT_FORMAT_VERSION = '2.10';
+
+const NAME_REGEX = /^[A-Za-zА-Яа-яЁё_][\wА-Яа-яЁё]*$/;
+
+const BSL_TAGS = ['bsl', '1c', '1с', 'os'];
+const FENCE_REGEX = /^```([^\s`]*)[^\n]*\n([\s\S]*?)^```/gm;
+
+export const getDumpFormatVersion = (platformVersion: string): string => {
+  const version = parseVersion(platformVersion);
+  if (!version) return DEFAULT_FORMAT_VERSION;
+  const match = DUMP_FORMAT_VERSIONS.find(([platform]) => compareVersions(version, parseVersion(platform)!) >= 0);
+  return match ? match[1] : DUMP_FORMAT_VERSIONS[DUMP_FORMAT_VERSIONS.length - 1][1];
+};
+
+export const isValidObjectName = (name: string): boolean => NAME_REGEX.test(name);
+
+// Fenced blocks of a markdown answer; untagged ones are kept when they look like 1C code
+export const extractCodeBlocks = (markdown: string): CodeFragment[] =>
+  Array.from(markdown.matchAll(FENCE_REGEX)).flatMap(([, tag, code]) => {
+    const language = tag.toLowerCase() || detectCodeLanguage(code) || '';
+    return language ? [{ language, code: code.replace(/\n$/, '') }] : [];
+  });
+
+// Client and server directives only appear in form modules; the object module runs on the server
+export const guessProcessorPart = (fragment: CodeFragment): ProcessorPart | null => {
+  if (fragment.language === 'xml') return /<Form[\s>]/.test(fragment.code) ? 'formDescription' : null;
+  if (!BSL_TAGS.includes(fragment.language)) return null;
+  return /^\s*&(НаКлиенте|НаСервере|AtClient|AtServer)/im.test(fragment.code) ? 'formModule' : 'objectModule';
+};
+
+const processorXml = (name: string, synonym: string, version: string, hasForm: boolean) => `<?xml version="1.0" encoding="UTF-8"?>
+<MetaDataObject xmlns="http://v8.1c.ru/8.3/MDClasses" ${DESIGNER_NAMESPACES} version="${version}">
+	<ExternalDataProcessor uuid="${uuidv4()}">
+		<InternalInfo>
+			<xr:ContainedObject>
+				<xr:ClassId>${PROCESSOR_CLASS_ID}</xr:ClassId>
+				<xr:ObjectId>${uuidv4()}</xr:ObjectId>
+			</xr:ContainedObject>
+			<xr:GeneratedType name="ExternalDataProcessorObject.${name}" category="Object">
+				<xr:TypeId>${uuidv4()}</xr:TypeId>
+				<xr:ValueId>${uuidv4()}</xr:ValueId>
+			</xr:GeneratedType>
+		</InternalInfo>
+		<Properties>
+			<Name>${name}</Name>
+			${synonymXml(synonym, '\t\t\t')}
+			<Comment/>
+			${hasForm ? `<DefaultForm>ExternalDataProcessor.${name}.Form.${FORM_NAME}</DefaultForm>` : '<DefaultForm/>'}
+			<AuxiliaryForm/>
+		</Properties>
+		${hasForm ? `<ChildObjects>\n\t\t\t<Form>${FORM_NAME}</Form>\n\t\t</ChildObjects>` : '<ChildObjects/>'}
+	</ExternalDataProcessor>
+</MetaDataObject>
+`;
+
+const formMetadataXml = (synonym: string, version: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<MetaDataObject xmlns="http://v8.1c.ru/8.3/MDClasses" ${DESIGNER_NAMESPACES} version="${version}">
+	<Form uuid="${uuidv4()}">
+		<Properties>
+			<Name>${FORM_NAME}</Name>
+			${synonymXml(synonym, '\t\t\t')}
+			<Comment/>
+			<FormType>Managed</FormType>
+			<IncludeHelpInContents>false</IncludeHelpInContents>
+			<UsePurposes>
+				<v8:Value xsi:type="app:ApplicationUsePurpose">PlatformApplication</v8:Value>
+			</UsePurposes>
+		</Properties>
+	</Form>
+</MetaDataObject>
+`;
+
+// An empty form whose main attribute is the processor object
+const defaultFormXml = (name: string, version: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<Form xmlns="http://v8.1c.ru/8.3/xcf/logform" ${DESIGNER_NAMESPACES} version="${version}">
+	<AutoCommandBar name="ФормаКоманднаяПанель" id="-1"/>
+	<Attributes>
+		<Attribute name="Объект" id="1">
+			<Type>
+				<v8:Type>cfg:ExternalDataProcessorObject.${name}</v8:Type>
+			</Type>
+			<MainAttribute>true</MainAttribute>
+		</Attribute>
+	</Attributes>
+</Form>
+`;
+
+// Models name the processor in the form description as they like; the main attribute must match the export
+const adaptFormXml = (xml: string, name: string) =>
+  xml.replace(/ExternalDataProcessorObject\.[\wА-Яа-яЁё]+/g, `ExternalDataProcessorObject.${name}`);
+
+// Returns the zip with <Имя>.xml and the <Имя>/ folder; throws on an invalid name
+export const buildExternalDataProcessor = ({ name, synonym, platformVersion, parts }: ProcessorExport): Uint8Array => {
+  if (!isValidObjectName(name)) {
+    throw new Error(`Недопустимое имя обработки: «${name}». Имя должно начинаться с буквы и содержать только буквы, цифры и _`);
+  }
+
+  const version = getDumpFormatVersion(platformVersion);
+  const hasForm = Boolean(parts.formModule || parts.formDescription);
+  const formPath = `${name}/Forms/${FORM_NAME}`;
+  const files: { name: string; data: string }[] = [
+    { name: `${name}.xml`, data: processorXml(name, synonym.trim(), version, hasForm) },
+    { name: `${name}/Ext/ObjectModule.bsl`, data: parts.objectModule || '' }
+  ];
+
+  if (hasForm) {
+    files.push(
+      { name: `${formPath}.xml`, data: formMetadataXml(synonym.trim(), version) },
+      { name: `${formPath}/Ext/Form.xml`, data: parts.formDescription ? adaptFormXml(parts.formDescription, name) : defaultFormXml(name, version) },
+      { name: `${formPath}/Ext/Form/Module.bsl`, data: parts.formModule || '' }
+    );
+  }
+
+  return writeZip(files.map(file => ({ ...file, data: withBom(file.data) })));
+};
@@ -1,111 +1,161 @@
-import { GoogleGenAI } from "@google/genai";
-import { Message, Role, Attachment, GroundingSource } from "../types";
-import { SYSTEM_INSTRUCTION } from "../constants";
+import { Content, FinishReason, FunctionCall, FunctionCallingConfigMode, FunctionDeclaration, GoogleGenAI, Part, ThinkingLevel, Tool } from "@google/genai";
+import { v4 as uuidv4 } from "uuid";
+import { Role, GroundingSource, ChatProvider, ChatTool, StreamRequest, TokenUsage, ToolCallStep } from "../types";
+import { DEFAULT_GENERATION_SETTINGS, SYSTEM_INSTRUCTION } from "../constants";
+import { isAbortError } from "../utils/asyncUtils";
+import { classifyError, createChatError } from "../utils/errorUtils";
+import { attachmentToText } from "./attachmentService";
+import { formatKnowledgeContext } from "./knowledgeService";
+import { executeToolCall, MAX_TOOL_ROUNDS } from "./toolService";
 
 // Initialize the API client
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-interface SendMessageOptions {
-  history: Message[];
-  newMessage: string;
-  attachments?: Attachment[];
-  useSearch: boolean;
-  modelId: string;
-  onChunk: (text: string) => void;
-  onGrounding: (sources: GroundingSource[]) => void;
-}
+// Finish reasons that mean the answer was cut by Google's content filters
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+const toFunctionDeclaration = (tool: ChatTool): FunctionDeclaration => ({
+  name: tool.name,
+  description: tool.description,
+  parametersJsonSchema: {
+    type: 'object',
+    properties: tool.parameters,
+    required: tool.required || []
+  }
+});
 
+// One attempt against one model; retries and fallbacks are driven by streamChatResponse
 export const streamGeminiResponse = async ({
   history,
   newMessage,
   attachments = [],
+  knowledge = [],
   useSearch,
   modelId,
   onChunk,
-  onGrounding
-}: SendMessageOptions) => {
-  let attempt = 0;
-  const maxRetries = 3;
-  let currentModelId = modelId;
-
-  // Track if we switched models to avoid infinite loops or confusing messages
-  let hasSwitchedModel = false;
-
-  while (attempt <= maxRetries) {
-    try {
-      // 1. Prepare Tools
-      const tools = [];
-      if (useSearch) {
-        tools.push({ googleSearch: {} });
-      }
+  onGrounding,
+  onError,
+  onUsage = () => {},
+  onTruncated = () => {},
+  tools: chatTools = [],
+  toolContext = { metadata: null, disabledLintRules: [] },
+  onToolCall = () => {},
+  signal,
+  systemInstruction = SYSTEM_INSTRUCTION,
+  generation = DEFAULT_GENERATION_SETTINGS,
+  responseSchema
+}: StreamRequest) => {
+  try {
+    // 1. Prepare Tools; Gemini does not combine Google Search with function calling
+    const tools: Tool[] = [];
+    if (useSearch) {
+      tools.push({ googleSearch: {} });
+    } else if (chatTools.length > 0) {
+      tools.push({ functionDeclarations: chatTools.map(toFunctionDeclaration) });
+    }
 
-      // 2. Prepare Contents (History + New Message)
-      const contents = history
-        .filter(msg => !msg.isThinking && msg.text) 
-        .map(msg => {
-          const parts = [{ text: msg.text }];
-          return {
-            role: msg.role === Role.USER ? 'user' : 'model',
-            parts: parts
-          };
-        });
+    // 2. Prepare Contents (History + New Message)
+    const contents: Content[] = history
+      .filter(msg => !msg.isThinking && !msg.error && msg.text)
+      .map(msg => {
+        const parts = [{ text: msg.text }];
+        return {
+          role: msg.role === Role.USER ? 'user' : 'model',
+          parts: parts
+        };
+      });
 
-      // 3. Prepare the Current Message Parts
-      const currentParts = [];
-      
-      // Add attachments
-      if (attachments.length > 0) {
-        attachments.forEach(att => {
-          currentParts.push({
-            inlineData: {
-              mimeType: att.mimeType,
-              data: att.data
-            }
-          });
+    // 3. Prepare the Current Message Parts
+    const currentParts = [];
+    
+    // Add attachments
+    if (attachments.length > 0) {
+      attachments.forEach(att => {
+        const extractedText = attachmentToText(att);
+        if (extractedText !== null) {
+          currentParts.push({ text: extractedText });
+          return;
+        }
+        currentParts.push({
+          inlineData: {
+            mimeType: att.mimeType,
+            data: att.data
+          }
         });
-      }
-      
-      // Add text prompt
-      let finalMessage = newMessage;
-      if (useSearch && newMessage) {
-        finalMessage += "\n(Важно: Используй инструмент Google Search для поиска актуальной информации и подтверждения фактов. Обязательно укажи источники.)";
-      }
+      });
+    }
+    
+    if (knowledge.length > 0) {
+      currentParts.push({ text: formatKnowledgeContext(knowledge) });
+    }
 
-      if (finalMessage) {
-        currentParts.push({ text: finalMessage });
-      }
+    // Add text prompt
+    let finalMessage = newMessage;
+    if (useSearch && newMessage) {
+      finalMessage += "\n(Важно: Используй инструмент Google Search для поиска актуальной информации и подтверждения фактов. Обязательно укажи источники.)";
+    }
 
-      contents.push({
-        role: 'user',
-        parts: currentParts
-      });
+    if (finalMessage) {
+      currentParts.push({ text: finalMessage });
+    }
 
-      // 4. Send Request
+    contents.push({
+      role: 'user',
+      parts: currentParts
+    });
+
+    // 4. Send Requests; every round that ends with function calls is answered with their results
+    const config = {
+      systemInstruction: systemInstruction,
+      tools: tools,
+      maxOutputTokens: generation.maxOutputTokens,
+      temperature: generation.temperature,
+      topP: generation.topP,
+      ...(generation.thinkingBudget !== undefined && { thinkingConfig: { thinkingBudget: generation.thinkingBudget } }),
+      ...(generation.reasoningLevel && { thinkingConfig: { thinkingLevel: generation.reasoningLevel.toUpperCase() as ThinkingLevel } }),
+      ...(responseSchema && { responseMimeType: 'application/json', responseJsonSchema: responseSchema }),
+      abortSignal: signal,
+    };
+
+    let fullText = "";
+    let blockedBy: string | null = null;
+    let truncated = false;
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      // In the last round calls are disabled, so the model has to answer with what it has
       const result = await ai.models.generateContentStream({
-        model: currentModelId,
+        model: modelId,
         contents: contents,
-        config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
-          tools: tools,
-          maxOutputTokens: 8192, 
-          temperature: 0.7,
-        }
+        config: round < MAX_TOOL_ROUNDS || useSearch
+          ? config
+          : { ...config, toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } }
       });
 
-      let fullText = "";
+      let usage: TokenUsage | null = null;
+      const modelParts: Part[] = [];
+      const functionCalls: FunctionCall[] = [];
+      // Text of a new round continues the answer as a separate paragraph
+      const roundStart = fullText && !fullText.endsWith('\n') ? `${fullText}\n\n` : fullText;
+      let roundText = "";
 
       for await (const chunk of result) {
+        if (signal?.aborted) break;
+
+        // Parts are kept as is: thought signatures must go back to the model with the function calls
+        const parts = chunk.candidates?.[0]?.content?.parts || [];
+        modelParts.push(...parts);
+        functionCalls.push(...parts.filter(p => p.functionCall).map(p => p.functionCall!));
+
         // Handle Text
-        const chunkText = chunk.text;
+        const chunkText = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
         if (chunkText) {
-          fullText += chunkText;
+          roundText += chunkText;
+          fullText = roundStart + roundText;
           onChunk(fullText);
         }
 
         // Handle Grounding (Search Results)
-        const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata || chunk.groundingMetadata;
+        const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata;
         
         if (groundingMetadata?.groundingChunks) {
           const sources: GroundingSource[] = groundingMetadata.groundingChunks
@@ -116,75 +166,67 @@ export const streamGeminiResponse = async ({
             onGrounding(sources);
           }
         }
-      }
-
-      // If we finished the stream successfully, break the retry loop
-      break;
 
-    } catch (error: any) {
-      console.error(`Gemini API Error (Attempt ${attempt + 1}/${maxRetries + 1}):`, error);
-      
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const isOverloaded = errorMessage.includes("503") || errorMessage.includes("Overloaded");
-      const isQuota = errorMessage.includes("429") || errorMessage.includes("quota") || errorMessage.includes("RESOURCE_EXHAUSTED");
-
-      // Only retry on 503 (Server Error) or 429 (Rate Limit)
-      if ((isOverloaded || isQuota) && attempt < maxRetries) {
-        const delay = 1500 * Math.pow(2, attempt); // Exponential backoff
-        
-        // INTELLIGENT FALLBACK STRATEGY
-        
-        // 1. If we are on 3.0 Flash AND hit a quota limit with Search -> Try 2.0 Flash
-        if (isQuota && useSearch && currentModelId.includes('gemini-3-flash') && !hasSwitchedModel) {
-            currentModelId = 'gemini-2.0-flash';
-            hasSwitchedModel = true;
-            onChunk("⚠️ Лимит модели 3.0 при поиске. Переключение на Gemini 2.0 Flash...");
-        } 
-        // 2. If we are on 2.0 Flash AND hit a 503/429 -> Fallback to 3.0 Flash (it's often more available for non-search or just luckier)
-        else if (currentModelId.includes('gemini-2.0') && !hasSwitchedModel) {
-            currentModelId = 'gemini-3-flash-preview';
-            hasSwitchedModel = true;
-            onChunk("⚠️ Gemini 2.0 занят. Переключение на Gemini 3.0 Flash...");
-        }
-        // 3. Just a standard retry on the same model
-        else {
-            // Don't show "Server busy" on first silent retry to reduce noise unless it's a long wait
-             if (attempt > 0) {
-                onChunk("Сервер занят, повторная попытка...");
-             }
+        // Counts are cumulative; the last chunk carries the totals for the request
+        if (chunk.usageMetadata) {
+          const { promptTokenCount = 0, candidatesTokenCount = 0, thoughtsTokenCount = 0, cachedContentTokenCount = 0 } = chunk.usageMetadata;
+          usage = {
+            promptTokens: promptTokenCount,
+            responseTokens: candidatesTokenCount + thoughtsTokenCount,
+            cachedTokens: cachedContentTokenCount
+          };
         }
 
-        await sleep(delay);
-        attempt++;
-        continue;
+        // Blocked prompts and filtered answers end the stream without an exception
+        const blockReason = chunk.promptFeedback?.blockReason;
+        const finishReason = chunk.candidates?.[0]?.finishReason;
+        if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(String(finishReason)))) {
+          blockedBy = String(blockReason || finishReason);
+          break;
+        }
+        if (finishReason === FinishReason.MAX_TOKENS) truncated = true;
       }
 
-      // Final Error Handling
-      let finalErrorMsg = "Произошла неизвестная ошибка.";
-      
-      if (isQuota) {
-        finalErrorMsg = `Превышен лимит запросов (429). \n\nВсе попытки переключения моделей исчерпаны. Попробуйте отключить "Web" или подождите немного.`;
-      } else if (isOverloaded) {
-        finalErrorMsg = "Серверы Google перегружены (503). Пожалуйста, подождите минуту и попробуйте снова.";
-      } else if (errorMessage) {
-        // Try to extract JSON error message if present
-        try {
-           const jsonMatch = errorMessage.match(/\{.*\}/);
-           if (jsonMatch) {
-              const parsed = JSON.parse(jsonMatch[0]);
-              if (parsed.error && parsed.error.message) {
-                 finalErrorMsg = parsed.error.message;
-              }
-           } else {
-             finalErrorMsg = errorMessage;
-           }
-        } catch (e) {
-           finalErrorMsg = errorMessage;
-        }
+      if (usage) onUsage(usage);
+      if (blockedBy || truncated || signal?.aborted || functionCalls.length === 0) break;
+
+      contents.push({ role: 'model', parts: modelParts });
+      const responseParts: Part[] = [];
+      for (const call of functionCalls) {
+        const name = call.name || '';
+        const args = call.args || {};
+        const step: ToolCallStep = {
+          id: call.id || uuidv4(),
+          name,
+          title: chatTools.find(t => t.name === name)?.title || name,
+          args
+        };
+        onToolCall(step);
+        const { result: output, isError } = await executeToolCall(chatTools, name, args, toolContext);
+        onToolCall({ ...step, result: output, isError });
+        responseParts.push({
+          functionResponse: { id: call.id, name, response: isError ? { error: output } : { output } }
+        });
       }
-      
-      onChunk("Ошибка: " + finalErrorMsg);
-      break; // Exit loop
+      contents.push({ role: 'user', parts: responseParts });
     }
+
+    if (blockedBy) onError(createChatError('safety', blockedBy));
+    else if (truncated && !signal?.aborted) onTruncated();
+  } catch (error: any) {
+    // Cancelled by the user: keep the partial text and never retry or fall back
+    if (signal?.aborted || isAbortError(error)) return;
+
+    console.error("Gemini API Error:", error);
+    onError(classifyError(error));
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: ChatProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  supportsSearch: true,
+  supportsTools: true,
+  isConfigured: () => Boolean(process.env.API_KEY),
+  streamResponse: streamGeminiResponse
+};
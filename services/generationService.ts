@@ -0,0 +1,45 @@
+import { GenerationSettings, ModelInfo, ReasoningLevel } from '../types';
+import { CODE_MODE_GENERATION_SETTINGS, DEFAULT_GENERATION_SETTINGS } from '../constants';
+
+export const REASONING_LEVEL_LABELS: Record<ReasoningLevel, string> = {
+  minimal: 'Минимальный',
+  low: 'Низкий',
+  medium: 'Средний',
+  high: 'Высокий'
+};
+
+const sameSettings = (a: GenerationSettings, b: GenerationSettings): boolean =>
+  a.temperature === b.temperature
+  && a.topP === b.topP
+  && a.maxOutputTokens === b.maxOutputTokens
+  && a.thinkingBudget === b.thinkingBudget
+  && a.reasoningLevel === b.reasoningLevel;
+
+export const isCodeMode = (settings?: GenerationSettings): boolean =>
+  Boolean(settings) && sameSettings(settings!, CODE_MODE_GENERATION_SETTINGS);
+
+// Short label for the chat header; empty while the session uses the defaults
+export const describeGenerationSettings = (settings?: GenerationSettings): string => {
+  if (!settings || sameSettings(settings, DEFAULT_GENERATION_SETTINGS)) return '';
+  if (isCodeMode(settings)) return 'Код';
+
+  const parts = [`t ${settings.temperature}`];
+  if (settings.topP !== DEFAULT_GENERATION_SETTINGS.topP) parts.push(`p ${settings.topP}`);
+  if (settings.maxOutputTokens !== DEFAULT_GENERATION_SETTINGS.maxOutputTokens) {
+    parts.push(`${Math.round(settings.maxOutputTokens / 1024)}k`);
+  }
+  if (settings.reasoningLevel) parts.push(REASONING_LEVEL_LABELS[settings.reasoningLevel].toLowerCase());
+  if (settings.thinkingBudget !== undefined) {
+    parts.push(settings.thinkingBudget === 0 ? 'без размышлений' : `размышления ${settings.thinkingBudget}`);
+  }
+  return parts.join(' · ');
+};
+
+// A session keeps its settings when the model changes, so thinking options the model
+// does not understand are dropped instead of being rejected by the API
+export const adaptGenerationSettings = (settings: GenerationSettings, model?: ModelInfo): GenerationSettings => {
+  const { thinkingBudget, reasoningLevel, ...rest } = settings;
+  if (model?.reasoning === 'budget') return thinkingBudget === undefined ? rest : { ...rest, thinkingBudget };
+  if (model?.reasoning === 'level') return reasoningLevel ? { ...rest, reasoningLevel } : rest;
+  return rest;
+};
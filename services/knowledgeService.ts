@@ -0,0 +1,205 @@
+import { v4 as uuidv4 } from 'uuid';
+import { KnowledgeChunk, KnowledgeCitation, KnowledgeDocument } from '../types';
+import { decodeText } from '../utils/zipUtils';
+import { getOfficeFormat, readOfficeText } from '../utils/officeUtils';
+import { extractPdfText } from '../utils/pdfUtils';
+
+// Local knowledge base: team documents are split into chunks and ranked with BM25 against the question.
+// The best chunks go into the request and are cited in the answer as [1], [2]…
+
+const CHUNK_SIZE = 1500;
+const MAX_RESULTS = 5;
+const MAX_CONTEXT_CHARS = 12_000;
+// Chunks scoring far below the best match are noise rather than context
+const RELATIVE_SCORE_CUTOFF = 0.35;
+const SNIPPET_LENGTH = 240;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const KNOWLEDGE_FILE_ACCEPT = '.md,.markdown,.txt,.pdf,.docx,.xlsx,.pptx';
+
+const STOP_WORDS = new Set([
+  'и', 'в', 'во', 'не', 'на', 'что', 'как', 'по', 'из', 'за', 'от', 'до', 'для', 'при', 'это', 'или',
+  'но', 'же', 'ли', 'бы', 'то', 'так', 'его', 'ее', 'их', 'мы', 'вы', 'он', 'она', 'они', 'все', 'уже',
+  'the', 'and', 'of', 'to', 'in', 'is', 'for', 'on', 'with', 'as', 'be', 'by', 'an', 'or'
+]);
+
+// Longest endings first; enough to match "документов" with "документы" without a full stemmer
+const RUSSIAN_ENDINGS = [
+  'иями', 'ями', 'ами', 'ого', 'его', 'ому', 'ему', 'ыми', 'ими', 'ать', 'ять', 'ить', 'еть', 'ться',
+  'ых', 'их', 'ая', 'яя', 'ое', 'ее', 'ой', 'ей', 'ий', 'ый', 'ом', 'ем', 'ам', 'ям', 'ах', 'ях', 'ов', 'ев',
+  'ия', 'ие', 'ию', 'ии', 'ы', 'и', 'а', 'я', 'о', 'е', 'у', 'ю', 'ь', 'й'
+];
+
+const stem = (word: string): string => {
+  if (!/[а-я]/.test(word) || word.length <= 4) return word;
+  const ending = RUSSIAN_ENDINGS.find(e => word.endsWith(e) && word.length - e.length >= 4);
+  return ending ? word.slice(0, -ending.length) : word;
+};
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+
+// Splits long text on paragraph, then sentence boundaries so that chunks stay readable on their own
+const splitText = (text: string): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+  };
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const pieces = paragraph.length > CHUNK_SIZE ? paragraph.match(/[^.!?\n]+[.!?]*\s*|\n/g) || [paragraph] : [paragraph];
+    for (const piece of pieces) {
+      if (current.length + piece.length > CHUNK_SIZE) flush();
+      // A single sentence longer than a chunk is cut as is
+      for (let i = 0; i < piece.length; i += CHUNK_SIZE) {
+        current += piece.slice(i, i + CHUNK_SIZE);
+        if (current.length >= CHUNK_SIZE) flush();
+      }
+    }
+    current += '\n\n';
+  }
+  flush();
+
+  return chunks;
+};
+
+// Markdown headings start new sections; the heading path is kept with every chunk of the section
+export const chunkDocument = (documentId: string, documentName: string, text: string): KnowledgeChunk[] => {
+  const sections: { heading?: string; lines: string[] }[] = [{ lines: [] }];
+  const headingPath: string[] = [];
+
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+    if (heading) {
+      headingPath.length = heading[1].length - 1;
+      headingPath[heading[1].length - 1] = heading[2];
+      sections.push({ heading: headingPath.filter(Boolean).join(' > '), lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  return sections.flatMap(section =>
+    splitText(section.lines.join('\n')).map(chunkText => ({
+      id: uuidv4(),
+      documentId,
+      documentName,
+      heading: section.heading,
+      text: chunkText
+    }))
+  );
+};
+
+const readFileText = async (file: File): Promise<{ text: string; details: string }> => {
+  if (/\.pdf$/i.test(file.name)) return extractPdfText(await file.arrayBuffer());
+
+  const officeFormat = getOfficeFormat(file.name);
+  if (officeFormat) return readOfficeText(officeFormat, await file.arrayBuffer());
+
+  if (/\.(md|markdown|txt)$/i.test(file.name)) {
+    const text = decodeText(new Uint8Array(await file.arrayBuffer()));
+    return { text, details: `строк: ${text.split('\n').length}` };
+  }
+
+  throw new Error(`Неподдерживаемый формат: ${file.name}`);
+};
+
+export const importKnowledgeFile = async (file: File): Promise<{ document: KnowledgeDocument; chunks: KnowledgeChunk[] }> => {
+  const { text, details } = await readFileText(file);
+  if (!text.trim()) throw new Error(`В файле ${file.name} нет текста`);
+
+  const id = uuidv4();
+  const chunks = chunkDocument(id, file.name, text);
+  return {
+    document: { id, name: file.name, addedAt: Date.now(), details, charCount: text.length, chunkCount: chunks.length },
+    chunks
+  };
+};
+
+export interface KnowledgeIndex {
+  chunks: KnowledgeChunk[];
+  termCounts: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export const buildKnowledgeIndex = (chunks: KnowledgeChunk[]): KnowledgeIndex => {
+  const documentFrequency = new Map<string, number>();
+  const termCounts = chunks.map(chunk => {
+    const counts = new Map<string, number>();
+    tokenize(`${chunk.heading || ''} ${chunk.text}`).forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+    counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    return counts;
+  });
+  const lengths = termCounts.map(counts => Array.from(counts.values()).reduce((sum, n) => sum + n, 0));
+  const averageLength = lengths.reduce((sum, n) => sum + n, 0) / Math.max(1, lengths.length);
+
+  return { chunks, termCounts, lengths, documentFrequency, averageLength };
+};
+
+export const searchKnowledge = (index: KnowledgeIndex, query: string): KnowledgeChunk[] => {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+
+  const total = index.chunks.length;
+  const idf = new Map(terms.map(term => {
+    const df = index.documentFrequency.get(term) || 0;
+    return [term, Math.log(1 + (total - df + 0.5) / (df + 0.5))];
+  }));
+
+  const scored = index.termCounts
+    .map((counts, i) => {
+      const norm = BM25_K1 * (1 - BM25_B + BM25_B * index.lengths[i] / (index.averageLength || 1));
+      const score = terms.reduce((sum, term) => {
+        const tf = counts.get(term) || 0;
+        return tf === 0 ? sum : sum + idf.get(term)! * (tf * (BM25_K1 + 1)) / (tf + norm);
+      }, 0);
+      return { chunk: index.chunks[i], score };
+    })
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  if (scored.length === 0) return [];
+  const cutoff = scored[0].score * RELATIVE_SCORE_CUTOFF;
+
+  const results: KnowledgeChunk[] = [];
+  let size = 0;
+  for (const { chunk, score } of scored) {
+    if (score < cutoff || results.length >= MAX_RESULTS || size + chunk.text.length > MAX_CONTEXT_CHARS) break;
+    results.push(chunk);
+    size += chunk.text.length;
+  }
+  return results;
+};
+
+export const toCitation = (chunk: KnowledgeChunk): KnowledgeCitation => ({
+  documentId: chunk.documentId,
+  documentName: chunk.documentName,
+  heading: chunk.heading,
+  snippet: chunk.text.length > SNIPPET_LENGTH ? `${chunk.text.slice(0, SNIPPET_LENGTH).trimEnd()}…` : chunk.text
+});
+
+// Text part placed before the question; numbering matches Message.knowledgeSources
+export const formatKnowledgeContext = (chunks: KnowledgeChunk[]): string => {
+  const fragments = chunks.map((chunk, i) => {
+    const source = chunk.heading ? `${chunk.documentName} — ${chunk.heading}` : chunk.documentName;
+    return `[${i + 1}] ${source}\n${chunk.text}`;
+  });
+  return [
+    'Фрагменты внутренней документации команды (методики, стандарты, выдержки из ИТС).',
+    'Если они относятся к вопросу, следуй им и ссылайся на них в ответе в виде [1], [2].',
+    '',
+    fragments.join('\n\n')
+  ].join('\n');
+};
@@ -0,0 +1,451 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BslSeverity, DesignKind, DesignObject, MetadataDesign, MetadataField, MetadataTabularSection } from '../types';
+import { DESIGNER_NAMESPACES, escapeXml, synonymXml, withBom } from '../utils/xmlUtils';
+import { writeZip } from '../utils/zipUtils';
+import { getDumpFormatVersion, isValidObjectName } from './exportService';
+import { METADATA_KINDS } from './metadataService';
+
+// Metadata design mode: the model answers with JSON that follows DESIGN_SCHEMA, the chat shows it as
+// an editable tree, and the result is exported as Designer XML files or a Markdown specification.
+
+export const DESIGN_KINDS: DesignKind[] = ['Catalog', 'Document', 'Enum', 'InformationRegister', 'AccumulationRegister'];
+
+// Kinds a document can make records in
+const REGISTER_KINDS: DesignKind[] = ['InformationRegister', 'AccumulationRegister'];
+
+export interface DesignIssue {
+  severity: BslSeverity;
+  objectIndex: number;
+  path: string; // e.g. "Документ.РеализацияТоваров.Контрагент"
+  message: string;
+}
+
+const FIELD_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Имя на русском в стиле 1С, без пробелов: ДатаОтгрузки' },
+    synonym: { type: 'string', description: 'Представление для пользователя: Дата отгрузки' },
+    type: {
+      type: 'string',
+      description: 'Строка(100), Число(15,2), Дата, Дата (дата и время), Булево, СправочникСсылка.Имя, ДокументСсылка.Имя, ПеречислениеСсылка.Имя; составной тип — через запятую'
+    }
+  },
+  required: ['name', 'type']
+};
+
+const VALUE_SCHEMA = {
+  type: 'object',
+  properties: { name: { type: 'string' }, synonym: { type: 'string' } },
+  required: ['name']
+};
+
+export const DESIGN_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Имя конфигурации или подсистемы латиницей или кириллицей без пробелов' },
+    summary: { type: 'string', description: 'Краткое пояснение: как объекты связаны и как работает учет' },
+    objects: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: DESIGN_KINDS },
+          name: { type: 'string' },
+          synonym: { type: 'string' },
+          attributes: { type: 'array', items: FIELD_SCHEMA },
+          tabularSections: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { name: { type: 'string' }, synonym: { type: 'string' }, attributes: { type: 'array', items: FIELD_SCHEMA } },
+              required: ['name', 'attributes']
+            }
+          },
+          dimensions: { type: 'array', items: FIELD_SCHEMA },
+          resources: { type: 'array', items: FIELD_SCHEMA },
+          values: { type: 'array', items: VALUE_SCHEMA },
+          registerRecords: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Только для документов: регистры, по которым документ делает движения, например РегистрНакопления.ОстаткиТоваров'
+          },
+          registerType: { type: 'string', enum: ['Balance', 'Turnovers'], description: 'Только для регистров накопления' },
+          periodic: { type: 'boolean', description: 'Только для регистров сведений' }
+        },
+        required: ['kind', 'name']
+      }
+    }
+  },
+  required: ['name', 'objects']
+};
+
+export const DESIGN_INSTRUCTION = `**Режим проектирования структуры метаданных.** Ответь только JSON-объектом по заданной схеме, без пояснений вне JSON.
+- Предлагай справочники, документы, перечисления, регистры сведений и регистры накопления; имена — в стиле 1С (РеализацияТоваров), синонимы — на русском.
+- Стандартные реквизиты (Код, Наименование, Номер, Дата, Период, Регистратор) не перечисляй.
+- Ссылочные типы указывай только на объекты из этого же ответа или из метаданных конфигурации, если они переданы.
+- Документ, который делает движения по регистру, перечисли в registerRecords; у регистров накопления обязательно есть ресурсы.
+- Если пользователь просит изменить предыдущую структуру, верни ее целиком с изменениями.`;
+
+export const DESIGN_KIND_LABELS: Record<DesignKind, string> = {
+  Catalog: 'Справочники',
+  Document: 'Документы',
+  Enum: 'Перечисления',
+  InformationRegister: 'Регистры сведений',
+  AccumulationRegister: 'Регистры накопления'
+};
+
+// Reference types a design can point to, by the object kind they refer to
+const REF_PREFIXES: Partial<Record<DesignKind, string>> = {
+  Catalog: 'СправочникСсылка',
+  Document: 'ДокументСсылка',
+  Enum: 'ПеречислениеСсылка'
+};
+const REF_KINDS = new Map(Object.entries(REF_PREFIXES).map(([kind, prefix]) => [prefix!.toLowerCase(), kind as DesignKind]));
+const REF_XML_PREFIXES: Partial<Record<DesignKind, string>> = { Catalog: 'CatalogRef', Document: 'DocumentRef', Enum: 'EnumRef' };
+
+const DATE_FRACTIONS: Record<string, string> = {
+  'дата': 'Date',
+  'дата (дата и время)': 'DateTime',
+  'дата (время)': 'Time'
+};
+
+const SIMPLE_XML_TYPES: Record<string, string> = {
+  'булево': 'xs:boolean',
+  'хранилищезначения': 'v8:ValueStorage',
+  'уникальныйидентификатор': 'v8:UUID'
+};
+
+type ParsedType =
+  | { kind: 'string'; length: number }
+  | { kind: 'number'; digits: number; fraction: number }
+  | { kind: 'date'; fractions: string }
+  | { kind: 'simple'; xml: string }
+  | { kind: 'ref'; target: DesignKind; name: string }
+  | { kind: 'unknown'; text: string };
+
+// Commas inside Число(15,2) do not separate the parts of a composite type
+const splitCompositeType = (type: string): string[] =>
+  type.split(/,(?![^(]*\))/).map(t => t.trim()).filter(Boolean);
+
+const parseTypePart = (text: string): ParsedType => {
+  const lower = text.toLowerCase();
+  const string = lower.match(/^строка(?:\s*\((\d+)\))?$/);
+  if (string) return { kind: 'string', length: Number(string[1] || 0) };
+  const number = lower.match(/^число(?:\s*\((\d+)(?:\s*,\s*(\d+))?\))?$/);
+  if (number) return { kind: 'number', digits: Number(number[1] || 10), fraction: Number(number[2] || 0) };
+  if (DATE_FRACTIONS[lower]) return { kind: 'date', fractions: DATE_FRACTIONS[lower] };
+  if (SIMPLE_XML_TYPES[lower]) return { kind: 'simple', xml: SIMPLE_XML_TYPES[lower] };
+  const [prefix, name] = text.split('.');
+  const target = REF_KINDS.get(prefix.toLowerCase());
+  if (target && name) return { kind: 'ref', target, name };
+  return { kind: 'unknown', text };
+};
+
+export const getDesignObjectPath = (object: DesignObject): string => `${METADATA_KINDS[object.kind].single}.${object.name}`;
+
+// Register of a document's "РегистрНакопления.Имя" record; null when the prefix is not a register kind
+const parseRegisterRecord = (record: string): { kind: DesignKind; name: string } | null => {
+  const [prefix, name] = record.split('.');
+  const kind = REGISTER_KINDS.find(k => METADATA_KINDS[k].single === prefix);
+  return kind && name ? { kind, name } : null;
+};
+
+// --- Parsing ---
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const asFields = (value: unknown): MetadataField[] =>
+  Array.isArray(value)
+    ? value
+        .filter(isRecord)
+        .filter(f => asString(f.name))
+        .map(f => ({ name: asString(f.name), synonym: asString(f.synonym) || undefined, type: asString(f.type) || undefined }))
+    : [];
+
+const asTabularSections = (value: unknown): MetadataTabularSection[] =>
+  Array.isArray(value)
+    ? value
+        .filter(isRecord)
+        .filter(t => asString(t.name))
+        .map(t => ({ name: asString(t.name), synonym: asString(t.synonym) || undefined, attributes: asFields(t.attributes) }))
+    : [];
+
+const normalizeObject = (raw: unknown): DesignObject | null => {
+  if (!isRecord(raw)) return null;
+  const kind = DESIGN_KINDS.find(k => k === raw.kind);
+  const name = asString(raw.name);
+  if (!kind || !name) return null;
+  return {
+    kind,
+    name,
+    synonym: asString(raw.synonym) || undefined,
+    attributes: asFields(raw.attributes),
+    tabularSections: asTabularSections(raw.tabularSections),
+    dimensions: asFields(raw.dimensions),
+    resources: asFields(raw.resources),
+    values: asFields(raw.values).map(({ name, synonym }) => ({ name, synonym })),
+    registerRecords: Array.isArray(raw.registerRecords) ? raw.registerRecords.map(asString).filter(Boolean) : [],
+    ...(kind === 'AccumulationRegister' && { registerType: raw.registerType === 'Turnovers' ? 'Turnovers' : 'Balance' }),
+    ...(kind === 'InformationRegister' && { periodic: Boolean(raw.periodic) })
+  };
+};
+
+// Null when the answer is not a design: cut by the token limit or written as prose despite the schema
+export const parseMetadataDesign = (text: string): MetadataDesign | null => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    const raw = JSON.parse(json);
+    if (!raw || !Array.isArray(raw.objects)) return null;
+    return {
+      name: asString(raw.name) || 'НоваяКонфигурация',
+      summary: asString(raw.summary) || undefined,
+      objects: raw.objects.map(normalizeObject).filter(Boolean) as DesignObject[]
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const serializeMetadataDesign = (design: MetadataDesign): string => JSON.stringify(design, null, 2);
+
+export const createDesignObject = (kind: DesignKind, name: string): DesignObject => ({
+  kind,
+  name,
+  attributes: [],
+  tabularSections: [],
+  dimensions: [],
+  resources: [],
+  values: [],
+  registerRecords: [],
+  ...(kind === 'AccumulationRegister' && { registerType: 'Balance' as const }),
+  ...(kind === 'InformationRegister' && { periodic: false })
+});
+
+// --- Validation ---
+
+export const validateMetadataDesign = (design: MetadataDesign): DesignIssue[] => {
+  const issues: DesignIssue[] = [];
+  const paths = new Set(design.objects.map(o => getDesignObjectPath(o).toLowerCase()));
+  const exists = (kind: DesignKind, name: string) => paths.has(`${METADATA_KINDS[kind].single}.${name}`.toLowerCase());
+  const recorded = new Set(design.objects.flatMap(o => (o.kind === 'Document' ? o.registerRecords : [])).map(r => r.toLowerCase()));
+  const seen = new Set<string>();
+
+  design.objects.forEach((object, objectIndex) => {
+    const objectPath = getDesignObjectPath(object);
+    const report = (severity: BslSeverity, path: string, message: string) => issues.push({ severity, objectIndex, path, message });
+
+    if (!isValidObjectName(object.name)) report('error', objectPath, 'Недопустимое имя объекта');
+    if (seen.has(objectPath.toLowerCase())) report('error', objectPath, 'Объект с таким именем уже есть');
+    seen.add(objectPath.toLowerCase());
+
+    const checkFields = (fields: MetadataField[], owner: string, names: Set<string>, typed = true) => fields.forEach(field => {
+      const path = `${owner}.${field.name}`;
+      if (!isValidObjectName(field.name)) report('error', path, 'Недопустимое имя');
+      if (names.has(field.name.toLowerCase())) report('error', path, 'Имя повторяется');
+      names.add(field.name.toLowerCase());
+      if (!typed) return;
+      if (!field.type) {
+        report('error', path, 'Не указан тип');
+        return;
+      }
+      splitCompositeType(field.type).map(parseTypePart).forEach(part => {
+        if (part.kind === 'unknown') report('warning', path, `Тип «${part.text}» не распознан и не попадет в выгрузку XML`);
+        if (part.kind === 'ref' && !exists(part.target, part.name)) {
+          report('error', path, `Ссылка на отсутствующий объект ${METADATA_KINDS[part.target].single}.${part.name}`);
+        }
+      });
+    });
+
+    // Attributes, tabular sections, dimensions and resources share one namespace within an object
+    const names = new Set<string>();
+    checkFields(object.dimensions, objectPath, names);
+    checkFields(object.resources, objectPath, names);
+    checkFields(object.attributes, objectPath, names);
+    object.tabularSections.forEach(section => {
+      const sectionPath = `${objectPath}.${section.name}`;
+      if (names.has(section.name.toLowerCase())) report('error', sectionPath, 'Имя повторяется');
+      names.add(section.name.toLowerCase());
+      checkFields(section.attributes, sectionPath, new Set());
+      if (section.attributes.length === 0) report('warning', sectionPath, 'В табличной части нет реквизитов');
+    });
+    checkFields(object.values, objectPath, new Set(), false);
+
+    if (object.kind === 'Enum' && object.values.length === 0) report('warning', objectPath, 'Нет значений перечисления');
+    if (object.kind === 'AccumulationRegister') {
+      if (object.resources.length === 0) report('error', objectPath, 'У регистра накопления должен быть хотя бы один ресурс');
+      if (object.dimensions.length === 0) report('warning', objectPath, 'Нет измерений');
+      if (!recorded.has(objectPath.toLowerCase())) report('warning', objectPath, 'Ни один документ не делает движений по регистру');
+    }
+    if (object.kind === 'InformationRegister' && object.dimensions.length + object.resources.length === 0) {
+      report('warning', objectPath, 'Нет измерений и ресурсов');
+    }
+    object.registerRecords.forEach(record => {
+      const register = parseRegisterRecord(record);
+      if (!register || !exists(register.kind, register.name)) report('error', objectPath, `Движения по отсутствующему регистру ${record}`);
+    });
+  });
+
+  return issues;
+};
+
+// --- Markdown ---
+
+const escapeCell = (value: string) => value.replace(/\|/g, '\\|');
+
+const fieldTable = (fields: MetadataField[], title: string, typed = true): string => {
+  if (fields.length === 0) return '';
+  const header = typed ? `| ${title} | Синоним | Тип |\n|---|---|---|` : `| ${title} | Синоним |\n|---|---|`;
+  const rows = fields.map(f =>
+    typed
+      ? `| ${f.name} | ${escapeCell(f.synonym || '')} | ${escapeCell(f.type || '')} |`
+      : `| ${f.name} | ${escapeCell(f.synonym || '')} |`
+  );
+  return `${header}\n${rows.join('\n')}`;
+};
+
+export const designToMarkdown = (design: MetadataDesign): string => {
+  const sections = [`# Структура метаданных: ${design.name}`];
+  if (design.summary) sections.push(design.summary);
+
+  DESIGN_KINDS.forEach(kind => {
+    const objects = design.objects.filter(o => o.kind === kind);
+    if (objects.length === 0) return;
+    sections.push(`## ${DESIGN_KIND_LABELS[kind]}`);
+    objects.forEach(object => {
+      const parts = [`### ${object.name}${object.synonym ? ` (${object.synonym})` : ''}`];
+      if (object.kind === 'AccumulationRegister') parts.push(`Вид регистра: ${object.registerType === 'Turnovers' ? 'обороты' : 'остатки'}`);
+      if (object.kind === 'InformationRegister') parts.push(object.periodic ? 'Периодический' : 'Непериодический');
+      parts.push(fieldTable(object.dimensions, 'Измерение'), fieldTable(object.resources, 'Ресурс'), fieldTable(object.attributes, 'Реквизит'));
+      parts.push(fieldTable(object.values, 'Значение', false));
+      object.tabularSections.forEach(section => {
+        parts.push(`**Табличная часть ${section.name}**${section.synonym ? ` (${section.synonym})` : ''}\n\n${fieldTable(section.attributes, 'Реквизит')}`);
+      });
+      if (object.registerRecords.length > 0) parts.push(`Движения: ${object.registerRecords.join(', ')}`);
+      sections.push(parts.filter(Boolean).join('\n\n'));
+    });
+  });
+
+  return `${sections.join('\n\n')}\n`;
+};
+
+// --- Designer XML ---
+
+// Type names first, then the qualifiers of the primitive ones, as the Designer writes them
+const typeXml = (type?: string): string => {
+  const parts = splitCompositeType(type || '').map(parseTypePart);
+  const types: string[] = [];
+  const qualifiers: string[] = [];
+  parts.forEach(part => {
+    if (part.kind === 'string') {
+      types.push('<v8:Type>xs:string</v8:Type>');
+      qualifiers.push(`<v8:StringQualifiers><v8:Length>${part.length}</v8:Length><v8:AllowedLength>Variable</v8:AllowedLength></v8:StringQualifiers>`);
+    } else if (part.kind === 'number') {
+      types.push('<v8:Type>xs:decimal</v8:Type>');
+      qualifiers.push(`<v8:NumberQualifiers><v8:Digits>${part.digits}</v8:Digits><v8:FractionDigits>${part.fraction}</v8:FractionDigits><v8:AllowedSign>Any</v8:AllowedSign></v8:NumberQualifiers>`);
+    } else if (part.kind === 'date') {
+      types.push('<v8:Type>xs:dateTime</v8:Type>');
+      qualifiers.push(`<v8:DateQualifiers><v8:DateFractions>${part.fractions}</v8:DateFractions></v8:DateQualifiers>`);
+    } else if (part.kind === 'simple') {
+      types.push(`<v8:Type>${part.xml}</v8:Type>`);
+    } else if (part.kind === 'ref') {
+      types.push(`<v8:Type>cfg:${REF_XML_PREFIXES[part.target]}.${escapeXml(part.name)}</v8:Type>`);
+    }
+  });
+  return `<Type>${[...types, ...qualifiers].join('')}</Type>`;
+};
+
+const fieldXml = (tag: string, field: MetadataField, typed = true) =>
+  `\t\t\t<${tag} uuid="${uuidv4()}"><Properties><Name>${escapeXml(field.name)}</Name>${synonymXml(field.synonym)}<Comment/>${typed ? typeXml(field.type) : ''}</Properties></${tag}>`;
+
+const objectPropertiesXml = (object: DesignObject): string => {
+  const properties = [`<Name>${escapeXml(object.name)}</Name>`, synonymXml(object.synonym), '<Comment/>'];
+  if (object.kind === 'Document') {
+    properties.push('<Posting>Allow</Posting>');
+    const records = object.registerRecords.map(record => {
+      const register = parseRegisterRecord(record);
+      return register ? `<xr:Item xsi:type="xr:MDObjectRef">${register.kind}.${escapeXml(register.name)}</xr:Item>` : '';
+    });
+    properties.push(records.some(Boolean) ? `<RegisterRecords>${records.join('')}</RegisterRecords>` : '<RegisterRecords/>');
+  }
+  if (object.kind === 'AccumulationRegister') properties.push(`<RegisterType>${object.registerType || 'Balance'}</RegisterType>`);
+  if (object.kind === 'InformationRegister') {
+    const periodicity = object.periodic ? 'Day' : 'Nonperiodical';
+    properties.push(`<InformationRegisterPeriodicity>${periodicity}</InformationRegisterPeriodicity>`, '<WriteMode>Independent</WriteMode>');
+  }
+  return properties.map(p => `\t\t\t${p}`).join('\n');
+};
+
+const objectXml = (object: DesignObject, version: string): string => {
+  const children = [
+    ...object.dimensions.map(f => fieldXml('Dimension', f)),
+    ...object.resources.map(f => fieldXml('Resource', f)),
+    ...object.attributes.map(f => fieldXml('Attribute', f)),
+    ...object.values.map(f => fieldXml('EnumValue', f, false)),
+    ...object.tabularSections.map(section =>
+      `\t\t\t<TabularSection uuid="${uuidv4()}"><Properties><Name>${escapeXml(section.name)}</Name>${synonymXml(section.synonym)}<Comment/></Properties>` +
+      `<ChildObjects>${section.attributes.map(f => fieldXml('Attribute', f).trim()).join('')}</ChildObjects></TabularSection>`
+    )
+  ];
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<MetaDataObject xmlns="http://v8.1c.ru/8.3/MDClasses" ${DESIGNER_NAMESPACES} version="${version}">
+	<${object.kind} uuid="${uuidv4()}">
+		<Properties>
+${objectPropertiesXml(object)}
+		</Properties>
+		${children.length > 0 ? `<ChildObjects>\n${children.join('\n')}\n\t\t</ChildObjects>` : '<ChildObjects/>'}
+	</${object.kind}>
+</MetaDataObject>
+`;
+};
+
+const configurationXml = (design: MetadataDesign, version: string): string => {
+  const objects = DESIGN_KINDS.flatMap(kind => design.objects.filter(o => o.kind === kind))
+    .map(o => `\t\t\t<${o.kind}>${escapeXml(o.name)}</${o.kind}>`);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<MetaDataObject xmlns="http://v8.1c.ru/8.3/MDClasses" ${DESIGNER_NAMESPACES} version="${version}">
+	<Configuration uuid="${uuidv4()}">
+		<Properties>
+			<Name>${escapeXml(design.name)}</Name>
+			<Synonym/>
+			<Comment/>
+			<DefaultLanguage>Language.Русский</DefaultLanguage>
+			<ScriptVariant>Russian</ScriptVariant>
+			<DefaultRunMode>ManagedApplication</DefaultRunMode>
+		</Properties>
+		<ChildObjects>
+			<Language>Русский</Language>
+${objects.join('\n')}
+		</ChildObjects>
+	</Configuration>
+</MetaDataObject>
+`;
+};
+
+const languageXml = (version: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<MetaDataObject xmlns="http://v8.1c.ru/8.3/MDClasses" ${DESIGNER_NAMESPACES} version="${version}">
+	<Language uuid="${uuidv4()}">
+		<Properties>
+			<Name>Русский</Name>
+			${synonymXml('Русский')}
+			<Comment/>
+			<LanguageCode>ru</LanguageCode>
+		</Properties>
+	</Language>
+</MetaDataObject>
+`;
+
+// Zip in the layout of "Выгрузить конфигурацию в файлы": Configuration.xml plus one file per object
+export const designToXmlZip = (design: MetadataDesign, platformVersion: string): Uint8Array => {
+  const version = getDumpFormatVersion(platformVersion);
+  const files = [
+    { name: 'Configuration.xml', data: configurationXml(design, version) },
+    { name: 'Languages/Русский.xml', data: languageXml(version) },
+    ...design.objects.map(object => ({
+      name: `${METADATA_KINDS[object.kind].directory}/${object.name}.xml`,
+      data: objectXml(object, version)
+    }))
+  ];
+  return writeZip(files.map(file => ({ ...file, data: withBom(file.data) })));
+};
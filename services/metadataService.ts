@@ -0,0 +1,337 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MetadataField, MetadataIndex, MetadataKind, MetadataObject, MetadataTabularSection } from '../types';
+import { readZip, decodeText } from '../utils/zipUtils';
+import { byTag, childByTag, childrenByTag, parseXml } from '../utils/xmlUtils';
+
+// Metadata index built from a Configurator "Выгрузить конфигурацию в файлы" dump.
+// Objects mentioned in a prompt are added to the system instruction so that the model uses real names.
+
+interface KindInfo {
+  directory: string; // Folder of the dump
+  single: string; // Name in code: Справочник.Номенклатура
+  plural: string; // Manager in code: Справочники.Номенклатура
+  label: string;
+}
+
+export const METADATA_KINDS: Record<MetadataKind, KindInfo> = {
+  Constant: { directory: 'Constants', single: 'Константа', plural: 'Константы', label: 'Константы' },
+  Catalog: { directory: 'Catalogs', single: 'Справочник', plural: 'Справочники', label: 'Справочники' },
+  Document: { directory: 'Documents', single: 'Документ', plural: 'Документы', label: 'Документы' },
+  DocumentJournal: { directory: 'DocumentJournals', single: 'ЖурналДокументов', plural: 'ЖурналыДокументов', label: 'Журналы документов' },
+  Enum: { directory: 'Enums', single: 'Перечисление', plural: 'Перечисления', label: 'Перечисления' },
+  ChartOfCharacteristicTypes: { directory: 'ChartsOfCharacteristicTypes', single: 'ПланВидовХарактеристик', plural: 'ПланыВидовХарактеристик', label: 'Планы видов характеристик' },
+  ChartOfAccounts: { directory: 'ChartsOfAccounts', single: 'ПланСчетов', plural: 'ПланыСчетов', label: 'Планы счетов' },
+  ChartOfCalculationTypes: { directory: 'ChartsOfCalculationTypes', single: 'ПланВидовРасчета', plural: 'ПланыВидовРасчета', label: 'Планы видов расчета' },
+  InformationRegister: { directory: 'InformationRegisters', single: 'РегистрСведений', plural: 'РегистрыСведений', label: 'Регистры сведений' },
+  AccumulationRegister: { directory: 'AccumulationRegisters', single: 'РегистрНакопления', plural: 'РегистрыНакопления', label: 'Регистры накопления' },
+  AccountingRegister: { directory: 'AccountingRegisters', single: 'РегистрБухгалтерии', plural: 'РегистрыБухгалтерии', label: 'Регистры бухгалтерии' },
+  CalculationRegister: { directory: 'CalculationRegisters', single: 'РегистрРасчета', plural: 'РегистрыРасчета', label: 'Регистры расчета' },
+  BusinessProcess: { directory: 'BusinessProcesses', single: 'БизнесПроцесс', plural: 'БизнесПроцессы', label: 'Бизнес-процессы' },
+  Task: { directory: 'Tasks', single: 'Задача', plural: 'Задачи', label: 'Задачи' },
+  ExchangePlan: { directory: 'ExchangePlans', single: 'ПланОбмена', plural: 'ПланыОбмена', label: 'Планы обмена' }
+};
+
+const KIND_ORDER = Object.keys(METADATA_KINDS) as MetadataKind[];
+
+const KIND_BY_DIRECTORY = new Map(KIND_ORDER.map(kind => [METADATA_KINDS[kind].directory, kind]));
+
+const OBJECT_PATH_REGEX = new RegExp(`(?:^|/)(${KIND_ORDER.map(k => METADATA_KINDS[k].directory).join('|')})/[^/]+\\.xml$`);
+
+// Reference types in the dump are English (cfg:CatalogRef.Номенклатура)
+const TYPE_PREFIXES: Record<string, string> = {
+  CatalogRef: 'СправочникСсылка',
+  DocumentRef: 'ДокументСсылка',
+  EnumRef: 'ПеречислениеСсылка',
+  ChartOfCharacteristicTypesRef: 'ПланВидовХарактеристикСсылка',
+  ChartOfAccountsRef: 'ПланСчетовСсылка',
+  ChartOfCalculationTypesRef: 'ПланВидовРасчетаСсылка',
+  BusinessProcessRef: 'БизнесПроцессСсылка',
+  TaskRef: 'ЗадачаСсылка',
+  ExchangePlanRef: 'ПланОбменаСсылка',
+  DefinedType: 'ОпределяемыйТип',
+  Characteristic: 'Характеристика'
+};
+
+const SIMPLE_TYPES: Record<string, string> = {
+  'xs:boolean': 'Булево',
+  'xs:base64Binary': 'ДвоичныеДанные',
+  'v8:ValueStorage': 'ХранилищеЗначения',
+  'v8:UUID': 'УникальныйИдентификатор',
+  'v8:Null': 'Null',
+  'v8:StandardPeriod': 'СтандартныйПериод',
+  'v8:StandardBeginningDate': 'СтандартнаяДатаНачала'
+};
+
+const MAX_CONTEXT_OBJECTS = 8;
+const MAX_CONTEXT_CHARS = 12000;
+const MAX_FIELDS_PER_LIST = 60;
+const MIN_BARE_NAME_LENGTH = 6;
+
+// --- Parsing ---
+
+const textOf = (el: Element | undefined): string => el?.textContent?.trim() || '';
+
+const parseSynonym = (properties: Element | undefined): string | undefined => {
+  const synonym = childByTag(properties, 'Synonym');
+  const items = synonym ? childrenByTag(synonym, 'item') : [];
+  const ru = items.find(item => textOf(childByTag(item, 'lang')) === 'ru') || items[0];
+  return textOf(childByTag(ru, 'content')) || undefined;
+};
+
+const formatSingleType = (raw: string, typeEl: Element): string => {
+  if (raw === 'xs:string') {
+    const length = textOf(byTag(typeEl, 'Length')[0]);
+    return length && length !== '0' ? `Строка(${length})` : 'Строка';
+  }
+  if (raw === 'xs:decimal') {
+    const digits = textOf(byTag(typeEl, 'Digits')[0]);
+    const fraction = textOf(byTag(typeEl, 'FractionDigits')[0]);
+    return digits ? `Число(${digits},${fraction || 0})` : 'Число';
+  }
+  if (raw === 'xs:dateTime') {
+    const fractions = textOf(byTag(typeEl, 'DateFractions')[0]);
+    return fractions === 'Date' ? 'Дата' : fractions === 'Time' ? 'Дата (время)' : 'Дата (дата и время)';
+  }
+  if (SIMPLE_TYPES[raw]) return SIMPLE_TYPES[raw];
+
+  const [prefix, ...rest] = raw.replace(/^\w+:/, '').split('.');
+  const russian = TYPE_PREFIXES[prefix];
+  if (!russian) return raw.replace(/^\w+:/, '');
+  return rest.length > 0 ? `${russian}.${rest.join('.')}` : russian;
+};
+
+const parseType = (properties: Element | undefined): string | undefined => {
+  const typeEl = childByTag(properties, 'Type');
+  if (!typeEl) return undefined;
+  const types = Array.from(typeEl.children)
+    .filter(c => c.localName === 'Type' || c.localName === 'TypeSet')
+    .map(c => formatSingleType(textOf(c), typeEl));
+  return types.length > 0 ? types.join(', ') : undefined;
+};
+
+const parseField = (el: Element): MetadataField => {
+  const properties = childByTag(el, 'Properties');
+  return {
+    name: textOf(childByTag(properties, 'Name')),
+    synonym: parseSynonym(properties),
+    type: parseType(properties)
+  };
+};
+
+const parseFields = (childObjects: Element | undefined, localName: string): MetadataField[] =>
+  childObjects ? childrenByTag(childObjects, localName).map(parseField) : [];
+
+const parseTabularSection = (el: Element): MetadataTabularSection => {
+  const properties = childByTag(el, 'Properties');
+  return {
+    name: textOf(childByTag(properties, 'Name')),
+    synonym: parseSynonym(properties),
+    attributes: parseFields(childByTag(el, 'ChildObjects'), 'Attribute')
+  };
+};
+
+const parseObjectXml = (xml: string, expectedKind: MetadataKind): MetadataObject | null => {
+  const root = parseXml(xml).documentElement;
+  const objectEl = childByTag(root, expectedKind);
+  if (!objectEl) return null;
+
+  const properties = childByTag(objectEl, 'Properties');
+  const childObjects = childByTag(objectEl, 'ChildObjects');
+  const object: MetadataObject = {
+    kind: expectedKind,
+    name: textOf(childByTag(properties, 'Name')),
+    synonym: parseSynonym(properties),
+    attributes: parseFields(childObjects, 'Attribute')
+  };
+
+  if (expectedKind === 'Constant') object.type = parseType(properties);
+  if (expectedKind === 'Enum') object.values = parseFields(childObjects, 'EnumValue');
+  if (expectedKind.endsWith('Register')) {
+    object.dimensions = parseFields(childObjects, 'Dimension');
+    object.resources = parseFields(childObjects, 'Resource');
+  }
+  const tabularSections = childObjects ? childrenByTag(childObjects, 'TabularSection').map(parseTabularSection) : [];
+  if (tabularSections.length > 0) object.tabularSections = tabularSections;
+
+  return object.name ? object : null;
+};
+
+interface DumpFile {
+  path: string;
+  read: () => Promise<string>;
+}
+
+const collectDumpFiles = async (files: File[]): Promise<DumpFile[]> => {
+  const result: DumpFile[] = [];
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      const entries = await readZip(await file.arrayBuffer());
+      entries
+        .filter(e => !e.isDirectory && /\.xml$/i.test(e.name))
+        .forEach(e => result.push({ path: e.name, read: async () => decodeText(await e.read()) }));
+    } else if (/\.xml$/i.test(file.name)) {
+      result.push({
+        path: file.webkitRelativePath || file.name,
+        read: async () => decodeText(new Uint8Array(await file.arrayBuffer()))
+      });
+    }
+  }
+  return result;
+};
+
+// Accepts the dump folder, selected XML files or a ZIP of the dump
+export const importConfigurationDump = async (
+  files: File[],
+  onProgress?: (done: number, total: number) => void
+): Promise<MetadataIndex> => {
+  const dumpFiles = await collectDumpFiles(files);
+  const objectFiles = dumpFiles.filter(f => OBJECT_PATH_REGEX.test(f.path));
+  const configurationFile = dumpFiles
+    .filter(f => /(?:^|\/)Configuration\.xml$/.test(f.path))
+    .sort((a, b) => a.path.length - b.path.length)[0];
+
+  const objects: MetadataObject[] = [];
+  for (let i = 0; i < objectFiles.length; i++) {
+    const file = objectFiles[i];
+    const directory = OBJECT_PATH_REGEX.exec(file.path)![1];
+    const object = parseObjectXml(await file.read(), KIND_BY_DIRECTORY.get(directory)!);
+    if (object) objects.push(object);
+    onProgress?.(i + 1, objectFiles.length);
+  }
+
+  if (objects.length === 0) {
+    throw new Error('В выгрузке не найдено объектов метаданных. Выберите каталог выгрузки конфигурации или ZIP-архив с ним.');
+  }
+
+  let name = 'Конфигурация';
+  let synonym: string | undefined;
+  let version: string | undefined;
+  if (configurationFile) {
+    const root = parseXml(await configurationFile.read()).documentElement;
+    const properties = childByTag(childByTag(root, 'Configuration'), 'Properties');
+    name = textOf(childByTag(properties, 'Name')) || name;
+    synonym = parseSynonym(properties);
+    version = textOf(childByTag(properties, 'Version')) || undefined;
+  }
+
+  objects.sort((a, b) =>
+    KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.name.localeCompare(b.name, 'ru')
+  );
+
+  return { id: uuidv4(), name, synonym, version, importedAt: Date.now(), objects };
+};
+
+// --- Lookup and context ---
+
+export const getObjectPath = (object: MetadataObject): string => `${METADATA_KINDS[object.kind].single}.${object.name}`;
+
+// Words in front of an object name: Справочник, Справочники, СправочникСсылка, Catalog, Catalogs...
+const QUALIFIER_SUFFIXES = ['ссылка', 'объект', 'менеджер', 'выборка', 'список', 'наборзаписей', 'менеджерзаписи', 'запись', 'ключзаписи'];
+
+const KIND_BY_QUALIFIER = new Map<string, MetadataKind>();
+KIND_ORDER.forEach(kind => {
+  const { single, plural } = METADATA_KINDS[kind];
+  [single, plural, kind, `${kind}s`].forEach(word => KIND_BY_QUALIFIER.set(word.toLowerCase(), kind));
+  QUALIFIER_SUFFIXES.forEach(suffix => KIND_BY_QUALIFIER.set(`${single.toLowerCase()}${suffix}`, kind));
+});
+KIND_BY_QUALIFIER.set('catalogref', 'Catalog');
+KIND_BY_QUALIFIER.set('documentref', 'Document');
+KIND_BY_QUALIFIER.set('enumref', 'Enum');
+
+const QUALIFIED_REGEX = /([\p{L}_]+)\s*\.\s*([\p{L}_][\p{L}\p{N}_]*)/gu;
+// "в справочнике Номенклатура", "документа РеализацияТоваровУслуг"
+const PROSE_REGEX = /([\p{L}]+)\s+(\p{Lu}[\p{L}\p{N}_]*)/gu;
+const WORD_REGEX = /[\p{L}_][\p{L}\p{N}_]*/gu;
+
+export const findMentionedObjects = (index: MetadataIndex, text: string): MetadataObject[] => {
+  const byKindAndName = new Map(index.objects.map(o => [`${o.kind}:${o.name.toLowerCase()}`, o]));
+  const found = new Set<MetadataObject>();
+  const add = (kind: MetadataKind, name: string) => {
+    const object = byKindAndName.get(`${kind}:${name.toLowerCase()}`);
+    if (object) found.add(object);
+  };
+
+  for (const match of text.matchAll(QUALIFIED_REGEX)) {
+    const kind = KIND_BY_QUALIFIER.get(match[1].toLowerCase());
+    if (kind) add(kind, match[2]);
+  }
+
+  for (const match of text.matchAll(PROSE_REGEX)) {
+    const word = match[1].toLowerCase();
+    const kind = KIND_ORDER.find(k => {
+      const single = METADATA_KINDS[k].single.toLowerCase();
+      return word.startsWith(single) && word.length <= single.length + 3;
+    });
+    if (kind) add(kind, match[2]);
+  }
+
+  // Bare names like "РеализацияТоваровУслуг" are matched case-sensitively and only when long enough
+  if (found.size < MAX_CONTEXT_OBJECTS) {
+    const byName = new Map<string, MetadataObject[]>();
+    index.objects.forEach(o => byName.set(o.name, [...(byName.get(o.name) || []), o]));
+    for (const [word] of text.matchAll(WORD_REGEX)) {
+      if (word.length < MIN_BARE_NAME_LENGTH) continue;
+      byName.get(word)?.forEach(o => found.add(o));
+    }
+  }
+
+  return Array.from(found).slice(0, MAX_CONTEXT_OBJECTS);
+};
+
+// Objects whose name, synonym or one of the attributes contains the query; used by the search_metadata tool
+export const searchMetadataObjects = (index: MetadataIndex, query: string, limit = MAX_CONTEXT_OBJECTS): MetadataObject[] => {
+  const mentioned = findMentionedObjects(index, query);
+  const needle = query.trim().toLowerCase();
+  if (!needle) return mentioned;
+
+  const matches = index.objects.filter(o =>
+    !mentioned.includes(o) && (
+      getObjectPath(o).toLowerCase().includes(needle)
+      || o.synonym?.toLowerCase().includes(needle)
+      || o.attributes.some(a => a.name.toLowerCase() === needle)
+    )
+  );
+  return [...mentioned, ...matches].slice(0, limit);
+};
+
+const formatField = (field: MetadataField): string => {
+  const synonym = field.synonym && field.synonym !== field.name ? ` «${field.synonym}»` : '';
+  return `${field.name}${synonym}${field.type ? `: ${field.type}` : ''}`;
+};
+
+const formatFieldList = (title: string, fields: MetadataField[] | undefined): string | null => {
+  if (!fields || fields.length === 0) return null;
+  const shown = fields.slice(0, MAX_FIELDS_PER_LIST).map(formatField);
+  const more = fields.length > MAX_FIELDS_PER_LIST ? `; …ещё ${fields.length - MAX_FIELDS_PER_LIST}` : '';
+  return `${title}: ${shown.join('; ')}${more}`;
+};
+
+export const formatMetadataObject = (object: MetadataObject): string => {
+  const synonym = object.synonym && object.synonym !== object.name ? ` («${object.synonym}»)` : '';
+  return [
+    `### ${getObjectPath(object)}${synonym}`,
+    object.type ? `Тип: ${object.type}` : null,
+    formatFieldList('Измерения', object.dimensions),
+    formatFieldList('Ресурсы', object.resources),
+    formatFieldList('Реквизиты', object.attributes),
+    ...(object.tabularSections || []).map(ts => formatFieldList(`Табличная часть ${ts.name}`, ts.attributes) || `Табличная часть ${ts.name}`),
+    formatFieldList('Значения', object.values)
+  ].filter(Boolean).join('\n');
+};
+
+export const formatMetadataContext = (index: MetadataIndex, objects: MetadataObject[]): string => {
+  if (objects.length === 0) return '';
+
+  const blocks: string[] = [];
+  let length = 0;
+  for (const object of objects) {
+    const block = formatMetadataObject(object);
+    if (length + block.length > MAX_CONTEXT_CHARS && blocks.length > 0) break;
+    blocks.push(block);
+    length += block.length;
+  }
+
+  const title = [index.synonym || index.name, index.version].filter(Boolean).join(' ');
+  return `**Метаданные конфигурации пользователя «${title}»** (используй только эти имена объектов, реквизитов и типов; если нужного реквизита нет в списке, скажи об этом, а не придумывай его):
+${blocks.join('\n\n')}`;
+};
@@ -0,0 +1,219 @@
+import { Role, Attachment, ChatProvider, ModelInfo, StreamRequest } from "../types";
+import { SYSTEM_INSTRUCTION, OPENAI_COMPAT_CONFIG, DEFAULT_LOCAL_CONTEXT_BUDGET, DEFAULT_GENERATION_SETTINGS } from "../constants";
+import { isAbortError } from "../utils/asyncUtils";
+import { HttpError, classifyError, createChatError, parseRetryAfter } from "../utils/errorUtils";
+import { attachmentToText } from "./attachmentService";
+import { formatKnowledgeContext } from "./knowledgeService";
+
+// OpenAI-compatible /v1/chat/completions backend (vLLM, Ollama, LM Studio, local mock servers)
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | OpenAIContentPart[];
+}
+
+const buildHeaders = (): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (OPENAI_COMPAT_CONFIG.apiKey) {
+    headers['Authorization'] = `Bearer ${OPENAI_COMPAT_CONFIG.apiKey}`;
+  }
+  return headers;
+};
+
+const TEXT_MIME_PREFIXES = ['text/', 'application/json', 'application/xml'];
+const TEXT_EXTENSIONS = ['.txt', '.csv', '.md', '.json', '.xml', '.bsl', '.os'];
+
+const isTextAttachment = (att: Attachment): boolean => {
+  const name = att.name.toLowerCase();
+  return TEXT_MIME_PREFIXES.some(p => att.mimeType.startsWith(p)) || TEXT_EXTENSIONS.some(ext => name.endsWith(ext));
+};
+
+const decodeBase64Text = (data: string): string => {
+  const binary = atob(data);
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return new TextDecoder('utf-8').decode(bytes);
+};
+
+// Local models usually accept only text and images, so other binary formats are described instead of sent
+const attachmentToParts = (att: Attachment): OpenAIContentPart[] => {
+  const extractedText = attachmentToText(att);
+  if (extractedText !== null) {
+    return [{ type: 'text', text: extractedText }];
+  }
+  if (att.mimeType.startsWith('image/')) {
+    return [{ type: 'image_url', image_url: { url: `data:${att.mimeType};base64,${att.data}` } }];
+  }
+  if (isTextAttachment(att)) {
+    return [{ type: 'text', text: `Файл "${att.name}":\n\`\`\`\n${decodeBase64Text(att.data)}\n\`\`\`` }];
+  }
+  return [{ type: 'text', text: `[Вложение "${att.name}" (${att.mimeType || 'неизвестный тип'}) не поддерживается этой моделью]` }];
+};
+
+const buildMessages = ({ history, newMessage, attachments = [], knowledge = [], systemInstruction }: StreamRequest): OpenAIMessage[] => {
+  const messages: OpenAIMessage[] = [{ role: 'system', content: systemInstruction || SYSTEM_INSTRUCTION }];
+
+  history
+    .filter(msg => !msg.isThinking && !msg.error && msg.text)
+    .forEach(msg => {
+      messages.push({
+        role: msg.role === Role.USER ? 'user' : 'assistant',
+        content: msg.text
+      });
+    });
+
+  const currentParts: OpenAIContentPart[] = attachments.flatMap(attachmentToParts);
+  if (knowledge.length > 0) {
+    currentParts.push({ type: 'text', text: formatKnowledgeContext(knowledge) });
+  }
+  if (newMessage) {
+    currentParts.push({ type: 'text', text: newMessage });
+  }
+
+  // Plain string content is the most widely supported form among local servers
+  const hasImages = currentParts.some(p => p.type === 'image_url');
+  messages.push({
+    role: 'user',
+    content: hasImages
+      ? currentParts
+      : currentParts.map(p => (p.type === 'text' ? p.text : '')).join('\n\n')
+  });
+
+  return messages;
+};
+
+// Parses a server-sent events stream and yields the JSON payload of every "data:" line
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+
+      if (!line.startsWith('data:')) continue;
+      const payload = line.slice(5).trim();
+      if (payload === '[DONE]') return;
+
+      try {
+        yield JSON.parse(payload);
+      } catch (e) {
+        console.warn("Skipping malformed SSE payload", payload);
+      }
+    }
+  }
+}
+
+// One attempt against one model; retries and fallbacks are driven by streamChatResponse
+export const streamOpenAIResponse = async (request: StreamRequest) => {
+  const { modelId, onChunk, onError, onUsage = () => {}, onTruncated = () => {}, signal, generation = DEFAULT_GENERATION_SETTINGS, responseSchema } = request;
+
+  if (!OPENAI_COMPAT_CONFIG.baseUrl) {
+    onError(createChatError('invalid_request', undefined, 'Не задан адрес OpenAI-совместимого сервера (OPENAI_BASE_URL).'));
+    return;
+  }
+
+  try {
+    const response = await fetch(`${OPENAI_COMPAT_CONFIG.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: buildHeaders(),
+      body: JSON.stringify({
+        model: modelId,
+        messages: buildMessages(request),
+        stream: true,
+        // The final event then carries token counts for the whole request
+        stream_options: { include_usage: true },
+        max_tokens: generation.maxOutputTokens,
+        temperature: generation.temperature,
+        top_p: generation.topP,
+        ...(generation.reasoningLevel && { reasoning_effort: generation.reasoningLevel }),
+        // Structured outputs; vLLM, llama.cpp and LM Studio enforce the schema with guided decoding
+        ...(responseSchema && { response_format: { type: 'json_schema', json_schema: { name: 'answer', schema: responseSchema } } })
+      }),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.text().catch(() => '');
+      throw new HttpError(
+        response.status,
+        `${response.status} ${response.statusText} ${body}`.trim(),
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    let fullText = "";
+    let truncated = false;
+
+    for await (const event of readServerSentEvents(response.body)) {
+      const delta = event.choices?.[0]?.delta?.content;
+      if (delta) {
+        fullText += delta;
+        onChunk(fullText);
+      }
+      if (event.choices?.[0]?.finish_reason === 'length') truncated = true;
+      if (event.usage) {
+        onUsage({
+          promptTokens: event.usage.prompt_tokens || 0,
+          responseTokens: event.usage.completion_tokens || 0,
+          cachedTokens: event.usage.prompt_tokens_details?.cached_tokens || 0
+        });
+      }
+    }
+
+    if (truncated) onTruncated();
+  } catch (error: any) {
+    if (signal?.aborted || isAbortError(error)) return;
+
+    console.error("OpenAI-compatible API Error:", error);
+
+    const chatError = classifyError(error);
+    if (chatError.kind === 'network') {
+      chatError.message = `Не удалось подключиться к ${OPENAI_COMPAT_CONFIG.baseUrl}. Проверьте, что локальный сервер запущен и разрешает CORS.`;
+    }
+
+    onError(chatError);
+  }
+};
+
+// Asks the server which models it serves (GET /v1/models); used to extend the model picker
+export const listOpenAIModels = async (): Promise<ModelInfo[]> => {
+  if (!OPENAI_COMPAT_CONFIG.baseUrl) return [];
+
+  const response = await fetch(`${OPENAI_COMPAT_CONFIG.baseUrl}/models`, { headers: buildHeaders() });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+
+  const payload = await response.json();
+  return (payload.data || [])
+    .filter((m: any) => typeof m?.id === 'string')
+    .map((m: any) => ({
+      id: `openai:${m.id}`,
+      provider: 'openai' as const,
+      name: m.id,
+      description: 'Локальная модель (OpenAI-совместимый API)',
+      contextBudget: DEFAULT_LOCAL_CONTEXT_BUDGET
+    }));
+};
+
+export const openaiProvider: ChatProvider = {
+  id: 'openai',
+  name: 'OpenAI-совместимый API',
+  supportsSearch: false,
+  // Servers such as vLLM reject `tools` unless started with tool parsing enabled
+  supportsTools: false,
+  isConfigured: () => Boolean(OPENAI_COMPAT_CONFIG.baseUrl),
+  streamResponse: streamOpenAIResponse,
+  listModels: listOpenAIModels
+};
@@ -0,0 +1,84 @@
+import { ProjectContext, ProjectContextPreset } from '../types';
+import { compareVersions, parseVersion } from '../utils/syntaxHelper';
+
+const PRESETS_KEY = '1c_project_presets';
+
+export const EMPTY_PROJECT_CONTEXT: ProjectContext = {
+  configurationName: '',
+  configurationVersion: '',
+  platformVersion: '',
+  compatibilityMode: '',
+  formsMode: '',
+  clientType: '',
+  notes: ''
+};
+
+export const FORMS_MODE_LABELS: Record<Exclude<ProjectContext['formsMode'], ''>, string> = {
+  managed: 'Управляемые формы',
+  ordinary: 'Обычные формы'
+};
+
+export const CLIENT_TYPE_LABELS: Record<Exclude<ProjectContext['clientType'], ''>, string> = {
+  thin: 'Тонкий клиент',
+  web: 'Веб-клиент',
+  thick: 'Толстый клиент',
+  mobile: 'Мобильный клиент'
+};
+
+export const isProjectContextEmpty = (context?: ProjectContext): boolean =>
+  !context || Object.values(context).every(value => !String(value).trim());
+
+// Short label for the chat header, e.g. "Управление торговлей 11.5 • 8.3.24"
+export const describeProjectContext = (context?: ProjectContext): string => {
+  if (!context || isProjectContextEmpty(context)) return '';
+  const configuration = [context.configurationName, context.configurationVersion].filter(Boolean).join(' ');
+  return [configuration, context.platformVersion, context.formsMode ? FORMS_MODE_LABELS[context.formsMode] : '']
+    .filter(Boolean)
+    .join(' • ');
+};
+
+// Version whose features the code may use: the compatibility mode, when set, hides newer ones
+export const getTargetPlatformVersion = (context?: ProjectContext): string => {
+  if (!context) return '';
+  const platform = parseVersion(context.platformVersion);
+  const compatibility = parseVersion(context.compatibilityMode);
+  if (platform && compatibility) {
+    return compareVersions(compatibility, platform) < 0 ? compatibility.join('.') : platform.join('.');
+  }
+  return (platform || compatibility)?.join('.') || '';
+};
+
+// Rendered into the system instruction so the model stops guessing the environment
+export const formatProjectContext = (context?: ProjectContext): string => {
+  if (!context || isProjectContextEmpty(context)) return '';
+
+  const lines = [
+    context.configurationName && `- Конфигурация: ${context.configurationName}${context.configurationVersion ? `, версия ${context.configurationVersion}` : ''}`,
+    context.platformVersion && `- Версия платформы: ${context.platformVersion}`,
+    context.compatibilityMode && `- Режим совместимости: ${context.compatibilityMode}`,
+    context.formsMode && `- Интерфейс: ${FORMS_MODE_LABELS[context.formsMode]}`,
+    context.clientType && `- Тип клиента: ${CLIENT_TYPE_LABELS[context.clientType]}`,
+    context.notes.trim() && `- Дополнительные сведения о проекте:\n${context.notes.trim()}`
+  ].filter(Boolean);
+
+  return `**Контекст проекта пользователя** (учитывай при ответах; не используй возможности, недоступные в этой версии платформы и конфигурации):
+${lines.join('\n')}`;
+};
+
+export const loadPresets = (): ProjectContextPreset[] => {
+  try {
+    const stored = localStorage.getItem(PRESETS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to load project presets", e);
+    return [];
+  }
+};
+
+export const savePresets = (presets: ProjectContextPreset[]) => {
+  try {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  } catch (e) {
+    console.warn("LocalStorage save failed", e);
+  }
+};
@@ -0,0 +1,174 @@
+import { ChatSession, Message, Role, SearchFilters, SearchHit, SearchHitKind, SearchResult } from '../types';
+
+// Full-text search over all chats. Each session gets an inverted index (token -> entries) that is
+// cached per session object: sessions are immutable, so an unchanged session is never re-indexed.
+
+interface SearchEntry {
+  messageId: string;
+  kind: SearchHitKind;
+  text: string;
+  timestamp: number;
+}
+
+interface SearchDocument {
+  titleTokens: string[];
+  entries: SearchEntry[];
+  postings: Map<string, number[]>;
+  modelIds: Set<string>;
+}
+
+const MAX_HITS_PER_SESSION = 3;
+const SNIPPET_BEFORE = 40;
+const SNIPPET_AFTER = 100;
+
+const CODE_BLOCK_REGEX = /```[^\n]*\n([\s\S]*?)(?:```|$)/g;
+const TOKEN_REGEX = /[\p{L}\p{N}_]+/gu;
+
+// Case and ё/е differences are ignored; both keep string length, so offsets stay valid for snippets
+const normalizeText = (text: string): string => text.toLowerCase().replace(/ё/g, 'е');
+
+const tokenize = (text: string): string[] => normalizeText(text).match(TOKEN_REGEX) || [];
+
+export const parseQuery = (query: string): string[] => Array.from(new Set(tokenize(query)));
+
+export const isSearchActive = (query: string, filters: SearchFilters): boolean =>
+  parseQuery(query).length > 0 || Boolean(filters.dateFrom || filters.dateTo || filters.modelId);
+
+const messageEntries = (msg: Message): SearchEntry[] => {
+  const entries: SearchEntry[] = [];
+  const base = { messageId: msg.id, timestamp: msg.timestamp };
+
+  const prose = msg.text.replace(CODE_BLOCK_REGEX, (_, code: string) => {
+    if (code.trim()) entries.push({ ...base, kind: 'code', text: code });
+    return ' ';
+  });
+  if (prose.trim()) entries.unshift({ ...base, kind: 'text', text: prose });
+
+  msg.attachments?.forEach(att => entries.push({ ...base, kind: 'attachment', text: att.name }));
+  return entries;
+};
+
+const buildDocument = (session: ChatSession): SearchDocument => {
+  const entries = session.messages.filter(m => !m.isThinking).flatMap(messageEntries);
+  const postings = new Map<string, number[]>();
+
+  entries.forEach((entry, index) => {
+    new Set(tokenize(entry.text)).forEach(token => {
+      const list = postings.get(token);
+      if (list) list.push(index); else postings.set(token, [index]);
+    });
+  });
+
+  const modelIds = new Set(
+    session.messages.filter(m => m.role === Role.MODEL && m.modelId).map(m => m.modelId!)
+  );
+
+  return { titleTokens: tokenize(session.title), entries, postings, modelIds };
+};
+
+const documentCache = new WeakMap<ChatSession, SearchDocument>();
+
+const getDocument = (session: ChatSession): SearchDocument => {
+  let doc = documentCache.get(session);
+  if (!doc) {
+    doc = buildDocument(session);
+    documentCache.set(session, doc);
+  }
+  return doc;
+};
+
+// The last query word is usually still being typed, so every term matches as a prefix
+const matchTerm = (doc: SearchDocument, term: string): Set<number> => {
+  const matches = new Set<number>();
+  doc.postings.forEach((indexes, token) => {
+    if (token.startsWith(term)) indexes.forEach(i => matches.add(i));
+  });
+  return matches;
+};
+
+const dayStart = (date: string): number => new Date(`${date}T00:00:00`).getTime();
+
+const inDateRange = (timestamp: number, filters: SearchFilters): boolean => {
+  if (filters.dateFrom && timestamp < dayStart(filters.dateFrom)) return false;
+  if (filters.dateTo && timestamp >= dayStart(filters.dateTo) + 24 * 60 * 60 * 1000) return false;
+  return true;
+};
+
+const makeSnippet = (text: string, terms: string[]): string => {
+  const normalized = normalizeText(text);
+  const positions = terms.map(t => normalized.indexOf(t)).filter(p => p >= 0);
+  const position = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, position - SNIPPET_BEFORE);
+  const end = Math.min(text.length, position + SNIPPET_AFTER);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+};
+
+export const searchSessions = (sessions: ChatSession[], query: string, filters: SearchFilters): SearchResult[] => {
+  const terms = parseQuery(query);
+  const hasDateFilter = Boolean(filters.dateFrom || filters.dateTo);
+  const results: (SearchResult & { score: number })[] = [];
+
+  sessions.forEach(session => {
+    const doc = getDocument(session);
+    if (filters.modelId && !doc.modelIds.has(filters.modelId)) return;
+
+    let candidates: number[] = doc.entries.map((_, i) => i);
+    for (const term of terms) {
+      const matches = matchTerm(doc, term);
+      candidates = candidates.filter(i => matches.has(i));
+      if (candidates.length === 0) break;
+    }
+    if (hasDateFilter) candidates = candidates.filter(i => inDateRange(doc.entries[i].timestamp, filters));
+
+    const titleMatches = terms.length > 0 && terms.every(t => doc.titleTokens.some(token => token.startsWith(t)));
+    // A title match alone is enough, as long as the chat has messages in the date range
+    const titleCounts = titleMatches && (!hasDateFilter || doc.entries.some(e => inDateRange(e.timestamp, filters)));
+    if (candidates.length === 0 && !titleCounts) return;
+
+    const hits: SearchHit[] = terms.length === 0 ? [] : candidates.slice(0, MAX_HITS_PER_SESSION).map(i => {
+      const entry = doc.entries[i];
+      return { messageId: entry.messageId, kind: entry.kind, timestamp: entry.timestamp, snippet: makeSnippet(entry.text, terms) };
+    });
+
+    results.push({
+      sessionId: session.id,
+      title: session.title,
+      updatedAt: session.updatedAt,
+      hits,
+      totalHits: terms.length === 0 ? 0 : candidates.length,
+      // Filter-only listings keep the usual newest-first order
+      score: terms.length === 0 ? 0 : candidates.length + (titleMatches ? 5 : 0)
+    });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || b.updatedAt - a.updatedAt)
+    .map(({ score, ...result }) => result);
+};
+
+// Splits text into plain and matched parts for rendering highlights
+export const splitHighlights = (text: string, terms: string[]): { text: string; match: boolean }[] => {
+  if (terms.length === 0) return [{ text, match: false }];
+  const normalized = normalizeText(text);
+  const parts: { text: string; match: boolean }[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    let next = -1;
+    let length = 0;
+    terms.forEach(term => {
+      const index = normalized.indexOf(term, position);
+      if (index >= 0 && (next < 0 || index < next)) {
+        next = index;
+        length = term.length;
+      }
+    });
+    if (next < 0) break;
+    if (next > position) parts.push({ text: text.slice(position, next), match: false });
+    parts.push({ text: text.slice(next, next + length), match: true });
+    position = next + length;
+  }
+  if (position < text.length) parts.push({ text: text.slice(position), match: false });
+  return parts;
+};
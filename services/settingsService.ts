@@ -0,0 +1,37 @@
+import { AppSettings } from '../types';
+import { DEFAULT_MODEL_PRICES, DEFAULT_RETRY_POLICY } from '../constants';
+
+const SETTINGS_KEY = '1c_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  disabledLintRules: [],
+  useKnowledgeBase: true,
+  retryPolicy: DEFAULT_RETRY_POLICY,
+  useTools: true,
+  modelPrices: DEFAULT_MODEL_PRICES
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      retryPolicy: { ...DEFAULT_RETRY_POLICY, ...parsed.retryPolicy },
+      modelPrices: { ...DEFAULT_MODEL_PRICES, ...parsed.modelPrices }
+    };
+  } catch (e) {
+    console.error("Failed to load settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("LocalStorage save failed", e);
+  }
+};
@@ -0,0 +1,369 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Attachment, ChatSession, KnowledgeChunk, KnowledgeDocument, Message, MetadataIndex, MetadataIndexSummary, SessionSummary, StorageUsage, WorkspaceModule } from '../types';
+
+const DB_NAME = '1c_expert_ai';
+const LEGACY_SESSIONS_KEY = '1c_chat_sessions';
+
+const STORE_SESSIONS = 'sessions';
+const STORE_SUMMARIES = 'summaries';
+const STORE_ATTACHMENTS = 'attachments';
+const STORE_METADATA = 'metadata';
+const STORE_METADATA_SUMMARIES = 'metadataSummaries';
+const STORE_WORKSPACES = 'workspaces';
+const STORE_KNOWLEDGE_DOCUMENTS = 'knowledgeDocuments';
+const STORE_KNOWLEDGE_CHUNKS = 'knowledgeChunks';
+
+interface StoredAttachment {
+  id: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+interface StoredWorkspace {
+  sessionId: string;
+  modules: WorkspaceModule[];
+}
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Each entry upgrades the database from version (index) to version (index + 1).
+// Never edit a released migration: append a new one and bump SCHEMA_VERSION.
+const MIGRATIONS: Migration[] = [
+  // v0 -> v1: initial stores, import of the legacy localStorage history
+  (db, tx) => {
+    db.createObjectStore(STORE_SESSIONS, { keyPath: 'id' });
+    const summaries = db.createObjectStore(STORE_SUMMARIES, { keyPath: 'id' });
+    summaries.createIndex('updatedAt', 'updatedAt');
+    const attachments = db.createObjectStore(STORE_ATTACHMENTS, { keyPath: 'id' });
+    attachments.createIndex('sessionId', 'sessionId');
+
+    importLegacySessions(tx);
+  },
+  // v1 -> v2: flat message lists become a single-branch message tree
+  (db, tx) => {
+    tx.objectStore(STORE_SESSIONS).openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const session: ChatSession = cursor.value;
+      cursor.update({ ...session, messages: linkFlatMessages(session.messages) });
+      cursor.continue();
+    };
+  },
+  // v2 -> v3: imported configuration metadata
+  (db) => {
+    db.createObjectStore(STORE_METADATA, { keyPath: 'id' });
+    db.createObjectStore(STORE_METADATA_SUMMARIES, { keyPath: 'id' });
+  },
+  // v3 -> v4: module workspaces, kept apart so that saving a message does not rewrite them
+  (db) => {
+    db.createObjectStore(STORE_WORKSPACES, { keyPath: 'sessionId' });
+  },
+  // v4 -> v5: knowledge base documents and their indexed chunks
+  (db) => {
+    db.createObjectStore(STORE_KNOWLEDGE_DOCUMENTS, { keyPath: 'id' });
+    const chunks = db.createObjectStore(STORE_KNOWLEDGE_CHUNKS, { keyPath: 'id' });
+    chunks.createIndex('documentId', 'documentId');
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+const estimateSessionSize = (session: ChatSession): number =>
+  session.messages.reduce((total, msg) => {
+    const attachmentsSize = (msg.attachments || []).reduce((sum, att) => sum + att.size, 0);
+    return total + msg.text.length * 2 + attachmentsSize;
+  }, (session.workspace || []).reduce((sum, module) => sum + module.text.length * 2, 0));
+
+const toSummary = (session: ChatSession): SessionSummary => ({
+  id: session.id,
+  title: session.title,
+  updatedAt: session.updatedAt,
+  messageCount: session.messages.length,
+  sizeBytes: estimateSessionSize(session)
+});
+
+// Older versions reused placeholder ids such as "temp-ai" for every answer, so ids are made unique first
+const linkFlatMessages = (messages: Message[]): Message[] => {
+  const seen = new Set<string>();
+  let parentId: string | null = null;
+  return messages.map(msg => {
+    const id = seen.has(msg.id) ? uuidv4() : msg.id;
+    seen.add(id);
+    const linked: Message = { ...msg, id, parentId };
+    parentId = id;
+    return linked;
+  });
+};
+
+// The legacy format already had attachment data blanked out, so only the metadata survives
+const importLegacySessions = (tx: IDBTransaction) => {
+  const raw = localStorage.getItem(LEGACY_SESSIONS_KEY);
+  if (!raw) return;
+
+  try {
+    const legacy: ChatSession[] = JSON.parse(raw);
+    legacy.forEach(session => {
+      const migrated: ChatSession = {
+        ...session,
+        messages: session.messages.map(msg => ({
+          ...msg,
+          attachments: msg.attachments?.map(att => ({ ...att, data: '' }))
+        }))
+      };
+      tx.objectStore(STORE_SESSIONS).put(migrated);
+      tx.objectStore(STORE_SUMMARIES).put(toSummary(migrated));
+    });
+    tx.addEventListener('complete', () => localStorage.removeItem(LEGACY_SESSIONS_KEY));
+  } catch (e) {
+    console.error("Failed to migrate sessions from localStorage", e);
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < SCHEMA_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onblocked = () => console.warn("IndexedDB upgrade blocked by another open tab");
+  });
+
+  return dbPromise;
+};
+
+const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Attachment blobs are immutable, so each one is written once per page lifetime
+const persistedAttachmentIds = new Set<string>();
+// Workspaces are replaced as a whole, so an unchanged array reference means nothing to write
+const persistedWorkspaces = new Map<string, WorkspaceModule[]>();
+
+export const listSessionSummaries = async (): Promise<SessionSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_SUMMARIES, 'readonly');
+  const summaries = await requestToPromise<SessionSummary[]>(tx.objectStore(STORE_SUMMARIES).getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<ChatSession | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORE_SESSIONS, STORE_ATTACHMENTS, STORE_WORKSPACES], 'readonly');
+  const stored = await requestToPromise<ChatSession | undefined>(tx.objectStore(STORE_SESSIONS).get(id));
+  if (!stored) return null;
+
+  const workspace = await requestToPromise<StoredWorkspace | undefined>(tx.objectStore(STORE_WORKSPACES).get(id));
+  if (workspace) persistedWorkspaces.set(id, workspace.modules);
+
+  const attachmentsStore = tx.objectStore(STORE_ATTACHMENTS);
+  const blobs = await requestToPromise<StoredAttachment[]>(attachmentsStore.index('sessionId').getAll(id));
+  const blobById = new Map(blobs.map(b => [b.id, b.blob]));
+
+  const messages: Message[] = await Promise.all(stored.messages.map(async msg => {
+    if (!msg.attachments) return msg;
+    const attachments: Attachment[] = await Promise.all(msg.attachments.map(async att => {
+      const blob = att.id ? blobById.get(att.id) : undefined;
+      if (!blob) return att;
+      persistedAttachmentIds.add(att.id!);
+      return { ...att, data: await blobToBase64(blob) };
+    }));
+    return { ...msg, attachments };
+  }));
+
+  return { ...stored, messages, workspace: workspace?.modules, messagesLoaded: true };
+};
+
+// Full records of every session without attachment data, e.g. for indexing chats that were never opened
+export const listStoredSessions = async (): Promise<ChatSession[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_SESSIONS, 'readonly');
+  return requestToPromise<ChatSession[]>(tx.objectStore(STORE_SESSIONS).getAll());
+};
+
+export const saveSession = async (session: ChatSession): Promise<void> => {
+  const db = await openDatabase();
+  const newBlobs: StoredAttachment[] = [];
+
+  const messages = session.messages.map(msg => {
+    if (!msg.attachments) return msg;
+    return {
+      ...msg,
+      attachments: msg.attachments.map((att, index) => {
+        // Derived ids keep repeated saves of the same in-memory message idempotent
+        const id = att.id || `${msg.id}:${index}`;
+        if (att.data && !persistedAttachmentIds.has(id)) {
+          newBlobs.push({ id, sessionId: session.id, blob: base64ToBlob(att.data, att.mimeType) });
+        }
+        return { ...att, id, data: '' };
+      })
+    };
+  });
+
+  const { messagesLoaded, workspace, ...record } = session;
+  const workspaceChanged = persistedWorkspaces.get(session.id) !== workspace;
+  const tx = db.transaction([STORE_SESSIONS, STORE_SUMMARIES, STORE_ATTACHMENTS, STORE_WORKSPACES], 'readwrite');
+  tx.objectStore(STORE_SESSIONS).put({ ...record, messages });
+  tx.objectStore(STORE_SUMMARIES).put(toSummary(session));
+  newBlobs.forEach(blob => tx.objectStore(STORE_ATTACHMENTS).put(blob));
+  if (workspaceChanged) {
+    if (workspace) tx.objectStore(STORE_WORKSPACES).put({ sessionId: session.id, modules: workspace });
+    else tx.objectStore(STORE_WORKSPACES).delete(session.id);
+  }
+
+  await transactionDone(tx);
+  newBlobs.forEach(blob => persistedAttachmentIds.add(blob.id));
+  if (workspace) persistedWorkspaces.set(session.id, workspace); else persistedWorkspaces.delete(session.id);
+};
+
+export const deleteSessions = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction([STORE_SESSIONS, STORE_SUMMARIES, STORE_ATTACHMENTS, STORE_WORKSPACES], 'readwrite');
+  const attachmentIndex = tx.objectStore(STORE_ATTACHMENTS).index('sessionId');
+
+  ids.forEach(id => {
+    tx.objectStore(STORE_SESSIONS).delete(id);
+    tx.objectStore(STORE_SUMMARIES).delete(id);
+    tx.objectStore(STORE_WORKSPACES).delete(id);
+    persistedWorkspaces.delete(id);
+    attachmentIndex.openKeyCursor(IDBKeyRange.only(id)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+      if (cursor) {
+        tx.objectStore(STORE_ATTACHMENTS).delete(cursor.primaryKey);
+        persistedAttachmentIds.delete(String(cursor.primaryKey));
+        cursor.continue();
+      }
+    };
+  });
+
+  await transactionDone(tx);
+};
+
+export const listMetadataIndexes = async (): Promise<MetadataIndexSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_METADATA_SUMMARIES, 'readonly');
+  const summaries = await requestToPromise<MetadataIndexSummary[]>(tx.objectStore(STORE_METADATA_SUMMARIES).getAll());
+  return summaries.sort((a, b) => b.importedAt - a.importedAt);
+};
+
+export const loadMetadataIndex = async (id: string): Promise<MetadataIndex | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_METADATA, 'readonly');
+  return (await requestToPromise<MetadataIndex | undefined>(tx.objectStore(STORE_METADATA).get(id))) || null;
+};
+
+export const saveMetadataIndex = async (index: MetadataIndex): Promise<void> => {
+  const db = await openDatabase();
+  const { objects, ...rest } = index;
+  const tx = db.transaction([STORE_METADATA, STORE_METADATA_SUMMARIES], 'readwrite');
+  tx.objectStore(STORE_METADATA).put(index);
+  tx.objectStore(STORE_METADATA_SUMMARIES).put({ ...rest, objectCount: objects.length });
+  await transactionDone(tx);
+};
+
+export const deleteMetadataIndex = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORE_METADATA, STORE_METADATA_SUMMARIES], 'readwrite');
+  tx.objectStore(STORE_METADATA).delete(id);
+  tx.objectStore(STORE_METADATA_SUMMARIES).delete(id);
+  await transactionDone(tx);
+};
+
+export const listKnowledgeDocuments = async (): Promise<KnowledgeDocument[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_KNOWLEDGE_DOCUMENTS, 'readonly');
+  const documents = await requestToPromise<KnowledgeDocument[]>(tx.objectStore(STORE_KNOWLEDGE_DOCUMENTS).getAll());
+  return documents.sort((a, b) => b.addedAt - a.addedAt);
+};
+
+export const listKnowledgeChunks = async (): Promise<KnowledgeChunk[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_KNOWLEDGE_CHUNKS, 'readonly');
+  return requestToPromise<KnowledgeChunk[]>(tx.objectStore(STORE_KNOWLEDGE_CHUNKS).getAll());
+};
+
+export const saveKnowledgeDocument = async (document: KnowledgeDocument, chunks: KnowledgeChunk[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORE_KNOWLEDGE_DOCUMENTS, STORE_KNOWLEDGE_CHUNKS], 'readwrite');
+  tx.objectStore(STORE_KNOWLEDGE_DOCUMENTS).put(document);
+  chunks.forEach(chunk => tx.objectStore(STORE_KNOWLEDGE_CHUNKS).put(chunk));
+  await transactionDone(tx);
+};
+
+export const deleteKnowledgeDocument = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORE_KNOWLEDGE_DOCUMENTS, STORE_KNOWLEDGE_CHUNKS], 'readwrite');
+  tx.objectStore(STORE_KNOWLEDGE_DOCUMENTS).delete(id);
+  tx.objectStore(STORE_KNOWLEDGE_CHUNKS).index('documentId').openKeyCursor(IDBKeyRange.only(id)).onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+    if (cursor) {
+      tx.objectStore(STORE_KNOWLEDGE_CHUNKS).delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+  await transactionDone(tx);
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const sessions = await listSessionSummaries();
+  let usageBytes = sessions.reduce((sum, s) => sum + s.sizeBytes, 0);
+  let quotaBytes = 0;
+
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usageBytes = estimate.usage ?? usageBytes;
+    quotaBytes = estimate.quota ?? 0;
+  }
+
+  return { usageBytes, quotaBytes, sessions };
+};
+
+// Asks the browser not to evict our data under storage pressure; silently ignored where unsupported
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  try {
+    return (await navigator.storage?.persist?.()) ?? false;
+  } catch {
+    return false;
+  }
+};
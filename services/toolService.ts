@@ -0,0 +1,162 @@
+import { ChatTool, ToolContext } from '../types';
+import { findGlobalMethod } from '../utils/globalContext';
+import { lintBsl } from '../utils/bslLinter';
+import { AVAILABILITY_LABELS } from '../utils/syntaxHelper';
+import { formatMetadataObject, getObjectPath, searchMetadataObjects } from './metadataService';
+
+// Local tools the model may call while answering. Built-in tools are registered below;
+// further ones are added with registerTool() before the first request.
+
+// Rounds of "model calls tools -> results go back" per answer; protects against loops
+export const MAX_TOOL_ROUNDS = 5;
+const MAX_RESULT_CHARS = 8000;
+
+const registry = new Map<string, ChatTool>();
+
+export const registerTool = (tool: ChatTool) => {
+  if (!/^[A-Za-z_][A-Za-z0-9_]{0,63}$/.test(tool.name)) {
+    throw new Error(`Недопустимое имя инструмента: ${tool.name}`);
+  }
+  registry.set(tool.name, tool);
+};
+
+export const getRegisteredTools = (): ChatTool[] => Array.from(registry.values());
+
+// Errors are returned to the model as text so that it can correct the arguments and try again
+export const executeToolCall = async (
+  tools: ChatTool[],
+  name: string,
+  args: Record<string, unknown>,
+  context: ToolContext
+): Promise<{ result: string; isError: boolean }> => {
+  const tool = tools.find(t => t.name === name);
+  if (!tool) return { result: `Инструмент ${name} не найден`, isError: true };
+
+  const missing = (tool.required || []).filter(key => args[key] === undefined || args[key] === '');
+  if (missing.length > 0) return { result: `Не заданы параметры: ${missing.join(', ')}`, isError: true };
+
+  try {
+    const result = await tool.execute(args, context);
+    return {
+      result: result.length > MAX_RESULT_CHARS ? `${result.slice(0, MAX_RESULT_CHARS)}\n…(обрезано)` : result,
+      isError: false
+    };
+  } catch (e) {
+    console.warn(`Tool ${name} failed`, e);
+    return { result: e instanceof Error ? e.message : String(e), isError: true };
+  }
+};
+
+registerTool({
+  name: 'get_global_method',
+  title: 'Синтакс-помощник',
+  description: 'Синтаксис, параметры и возвращаемое значение метода глобального контекста 1С (СтрНайти, ДобавитьМесяц, ЗаполнитьЗначенияСвойств и т. п.). Вызывай, если не уверен в порядке или составе параметров.',
+  parameters: {
+    name: { type: 'string', description: 'Имя метода на русском или английском, например СтрШаблон или StrTemplate' }
+  },
+  required: ['name'],
+  execute: ({ name }) => {
+    const method = findGlobalMethod(String(name));
+    if (!method) throw new Error(`Метод ${name} не найден в справочнике. Не придумывай параметры, скажи пользователю, что их нужно проверить в синтакс-помощнике.`);
+    return [
+      `${method.name} (${method.nameEn})`,
+      `Синтаксис: ${method.syntax}`,
+      method.returns ? `Возвращает: ${method.returns}` : null,
+      method.since ? `Доступен с версии платформы ${method.since}` : null,
+      method.availability ? `Доступность: ${method.availability.map(a => AVAILABILITY_LABELS[a]).join(', ')}` : null,
+      method.description
+    ].filter(Boolean).join('\n');
+  }
+});
+
+registerTool({
+  name: 'validate_bsl',
+  title: 'Проверка кода',
+  description: 'Статическая проверка фрагмента кода на встроенном языке 1С: незакрытые блоки, Возврат в процедуре, необъявленные переменные, запросы в цикле и т. п. Вызывай перед тем, как показать пользователю большой фрагмент кода.',
+  parameters: {
+    code: { type: 'string', description: 'Код модуля или процедуры целиком' }
+  },
+  required: ['code'],
+  execute: ({ code }, context) => {
+    const diagnostics = lintBsl(String(code), context.disabledLintRules);
+    if (diagnostics.length === 0) return 'Замечаний нет';
+    return diagnostics
+      .map(d => `Строка ${d.line}: [${d.ruleId}, ${d.severity === 'error' ? 'ошибка' : 'предупреждение'}] ${d.message}`)
+      .join('\n');
+  }
+});
+
+registerTool({
+  name: 'search_metadata',
+  title: 'Поиск в метаданных',
+  description: 'Поиск объектов в загруженной конфигурации пользователя по имени, синониму или имени реквизита. Возвращает реквизиты, табличные части и типы. Вызывай, чтобы использовать в коде реальные имена.',
+  parameters: {
+    query: { type: 'string', description: 'Имя объекта (Справочник.Номенклатура), часть имени или синонима, или имя реквизита' }
+  },
+  required: ['query'],
+  execute: ({ query }, context) => {
+    if (!context.metadata) throw new Error('Пользователь не загрузил метаданные конфигурации');
+    const objects = searchMetadataObjects(context.metadata, String(query));
+    if (objects.length === 0) return `По запросу «${query}» ничего не найдено`;
+    // The first objects in full, the rest by name only, to keep the result short
+    return [
+      ...objects.slice(0, 3).map(formatMetadataObject),
+      objects.length > 3 ? `Также найдены: ${objects.slice(3).map(getObjectPath).join(', ')}` : ''
+    ].filter(Boolean).join('\n\n');
+  }
+});
+
+const DATE_FUNCTIONS = [
+  'НачалоДня', 'КонецДня', 'НачалоНедели', 'КонецНедели', 'НачалоМесяца', 'КонецМесяца',
+  'НачалоКвартала', 'КонецКвартала', 'НачалоГода', 'КонецГода', 'ДобавитьМесяц'
+];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Same rules as the platform functions; weeks start on Monday
+const applyDateFunction = (fn: string, date: Date, months: number): Date => {
+  const y = date.getFullYear();
+  const m = date.getMonth();
+  const d = date.getDate();
+  const mondayOffset = (date.getDay() + 6) % 7;
+  switch (fn) {
+    case 'НачалоДня': return new Date(y, m, d);
+    case 'КонецДня': return new Date(y, m, d, 23, 59, 59);
+    case 'НачалоНедели': return new Date(y, m, d - mondayOffset);
+    case 'КонецНедели': return new Date(y, m, d - mondayOffset + 6, 23, 59, 59);
+    case 'НачалоМесяца': return new Date(y, m, 1);
+    case 'КонецМесяца': return new Date(y, m + 1, 0, 23, 59, 59);
+    case 'НачалоКвартала': return new Date(y, m - m % 3, 1);
+    case 'КонецКвартала': return new Date(y, m - m % 3 + 3, 0, 23, 59, 59);
+    case 'НачалоГода': return new Date(y, 0, 1);
+    case 'КонецГода': return new Date(y, 11, 31, 23, 59, 59);
+    case 'ДобавитьМесяц': {
+      // The last day of a month stays the last day: 30.04 + 1 month is 31.05
+      const lastDay = new Date(y, m + months + 1, 0).getDate();
+      const isLastDay = d === new Date(y, m + 1, 0).getDate();
+      return new Date(y, m + months, isLastDay ? lastDay : Math.min(d, lastDay), date.getHours(), date.getMinutes(), date.getSeconds());
+    }
+    default: throw new Error(`Неизвестная функция ${fn}. Допустимые: ${DATE_FUNCTIONS.join(', ')}`);
+  }
+};
+
+registerTool({
+  name: 'compute_date',
+  title: 'Вычисление даты',
+  description: 'Вычисляет результат функции работы с датами 1С (НачалоМесяца, КонецКвартала, ДобавитьМесяц и т. п.) для конкретной даты. Вызывай, когда в ответе нужны точные границы периода.',
+  parameters: {
+    function: { type: 'string', description: 'Функция 1С', enum: DATE_FUNCTIONS },
+    date: { type: 'string', description: 'Исходная дата YYYY-MM-DD или YYYY-MM-DDTHH:MM:SS; по умолчанию текущая' },
+    months: { type: 'integer', description: 'Для ДобавитьМесяц: число месяцев, может быть отрицательным' }
+  },
+  required: ['function'],
+  execute: ({ function: fn, date, months }) => {
+    const source = date ? new Date(String(date).length === 10 ? `${date}T00:00:00` : String(date)) : new Date();
+    if (Number.isNaN(source.getTime())) throw new Error(`Не удалось разобрать дату ${date}`);
+
+    const result = applyDateFunction(String(fn), source, Number(months) || 0);
+    const literal = `${result.getFullYear()}${pad(result.getMonth() + 1)}${pad(result.getDate())}${pad(result.getHours())}${pad(result.getMinutes())}${pad(result.getSeconds())}`;
+    const readable = `${pad(result.getDate())}.${pad(result.getMonth() + 1)}.${result.getFullYear()} ${pad(result.getHours())}:${pad(result.getMinutes())}:${pad(result.getSeconds())}`;
+    return `${readable} (литерал '${literal}')`;
+  }
+});
@@ -0,0 +1,93 @@
+import { DailyUsage, Message, ModelPrice, TokenUsage } from '../types';
+
+// Spend is aggregated per day and model in localStorage, independently of chats,
+// so that deleting a chat does not hide what it cost
+
+const USAGE_KEY = '1c_usage';
+// Daily rows older than this are dropped when a new request is recorded
+const RETENTION_DAYS = 90;
+// Share of the daily budget after which the input area starts warning
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, responseTokens: 0, cachedTokens: 0 };
+
+export const toDateKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  responseTokens: a.responseTokens + b.responseTokens,
+  cachedTokens: a.cachedTokens + b.cachedTokens
+});
+
+export const estimateCost = (usage: TokenUsage, price?: ModelPrice): number => {
+  if (!price) return 0;
+  const uncached = Math.max(0, usage.promptTokens - usage.cachedTokens);
+  return (uncached * price.input + usage.cachedTokens * price.cachedInput + usage.responseTokens * price.output) / 1_000_000;
+};
+
+export const formatCost = (usd: number): string =>
+  usd === 0 ? '$0' : usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+export const formatTokenCount = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k`
+    : String(tokens);
+
+// Totals over every answer in the session, all branches included: each of them was paid for
+export const summarizeSessionUsage = (
+  messages: Message[],
+  prices: Record<string, ModelPrice>
+): { usage: TokenUsage; cost: number } =>
+  messages.reduce(
+    (total, msg) => msg.usage
+      ? {
+          usage: addUsage(total.usage, msg.usage),
+          cost: total.cost + estimateCost(msg.usage, msg.modelId ? prices[msg.modelId] : undefined)
+        }
+      : total,
+    { usage: EMPTY_USAGE, cost: 0 }
+  );
+
+export const loadUsageLog = (): DailyUsage[] => {
+  try {
+    const stored = localStorage.getItem(USAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    console.error("Failed to load usage log", e);
+    return [];
+  }
+};
+
+// Adds one request to today's row for the model; returns the updated log
+export const recordUsage = (modelId: string, usage: TokenUsage, timestamp = Date.now()): DailyUsage[] => {
+  const date = toDateKey(timestamp);
+  const oldest = toDateKey(timestamp - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const log = loadUsageLog().filter(row => row.date >= oldest);
+
+  const index = log.findIndex(row => row.date === date && row.modelId === modelId);
+  if (index >= 0) {
+    log[index] = { ...log[index], ...addUsage(log[index], usage), requests: log[index].requests + 1 };
+  } else {
+    log.push({ date, modelId, requests: 1, ...usage });
+  }
+
+  try {
+    localStorage.setItem(USAGE_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.warn("LocalStorage save failed", e);
+  }
+  return log;
+};
+
+export const clearUsageLog = () => {
+  localStorage.removeItem(USAGE_KEY);
+};
+
+export const getDailyCost = (log: DailyUsage[], date: string, prices: Record<string, ModelPrice>): number =>
+  log
+    .filter(row => row.date === date)
+    .reduce((sum, row) => sum + estimateCost(row, prices[row.modelId]), 0);
@@ -0,0 +1,242 @@
+import { Attachment, Message, SourceFile, WorkspaceMethod, WorkspaceModule } from '../types';
+import { parseBsl } from '../utils/bslParser';
+import { readZip, decodeText } from '../utils/zipUtils';
+import { MAX_EXTRACTED_CHARS } from '../utils/officeUtils';
+import { textSimilarity } from '../utils/diffUtils';
+import { METADATA_KINDS } from './metadataService';
+
+// Per-session workspace of BSL modules. Modules and methods are referenced in the prompt as
+// @ОбщийМодуль.РаботаСФайлами or @ИмяПроцедуры and sent as text parts of the message.
+
+const MODULE_FILE_REGEX = /\.(bsl|os)$/i;
+
+// Folders of a Configurator or EDT dump that contain modules
+const OBJECT_DIRECTORIES: Record<string, string> = {
+  ...Object.fromEntries(Object.values(METADATA_KINDS).map(k => [k.directory, k.single])),
+  CommonModules: 'ОбщийМодуль',
+  CommonForms: 'ОбщаяФорма',
+  CommonCommands: 'ОбщаяКоманда',
+  DataProcessors: 'Обработка',
+  Reports: 'Отчет',
+  WebServices: 'WebСервис',
+  HTTPServices: 'HTTPСервис'
+};
+
+const MODULE_FILES: Record<string, string> = {
+  ObjectModule: 'МодульОбъекта',
+  ManagerModule: 'МодульМенеджера',
+  RecordSetModule: 'МодульНабораЗаписей',
+  ValueManagerModule: 'МодульМенеджераЗначения'
+};
+
+const CONFIGURATION_MODULES: Record<string, string> = {
+  ManagedApplicationModule: 'МодульУправляемогоПриложения',
+  OrdinaryApplicationModule: 'МодульОбычногоПриложения',
+  SessionModule: 'МодульСеанса',
+  ExternalConnectionModule: 'МодульВнешнегоСоединения'
+};
+
+const MAX_SUGGESTIONS = 8;
+const MAX_METHOD_MATCHES = 3;
+
+export const MENTION_REGEX = /@([\p{L}_][\p{L}\p{N}_.]*)/gu;
+
+// CommonModules/РаботаСФайлами/Ext/Module.bsl -> ОбщийМодуль.РаботаСФайлами
+// Catalogs/Номенклатура/Forms/ФормаЭлемента/Ext/Form/Module.bsl -> Справочник.Номенклатура.Форма.ФормаЭлемента
+export const moduleNameFromPath = (path: string): string => {
+  const segments = path.split('/').filter(Boolean);
+  const file = segments[segments.length - 1].replace(MODULE_FILE_REGEX, '');
+  const start = segments.findIndex(s => OBJECT_DIRECTORIES[s]);
+
+  if (start < 0 || start + 1 >= segments.length - 1) return CONFIGURATION_MODULES[file] || file;
+
+  const parts = [OBJECT_DIRECTORIES[segments[start]], segments[start + 1]];
+  const formIndex = segments.indexOf('Forms', start + 2);
+  const commandIndex = segments.indexOf('Commands', start + 2);
+  if (formIndex > 0 && segments[formIndex + 1]) parts.push('Форма', segments[formIndex + 1]);
+  else if (commandIndex > 0 && segments[commandIndex + 1]) parts.push('Команда', segments[commandIndex + 1]);
+  else if (MODULE_FILES[file]) parts.push(MODULE_FILES[file]);
+
+  return parts.join('.');
+};
+
+// Directives and comments right above a method header belong to it
+const extendToHeader = (lines: string[], startLine: number): number => {
+  let line = startLine;
+  while (line > 1 && /^\s*(&|\/\/)/.test(lines[line - 2])) line--;
+  return line;
+};
+
+const readMethods = (text: string): WorkspaceMethod[] => {
+  const lines = text.split('\n');
+  return parseBsl(text).methods
+    .filter(m => m.name)
+    .map(m => ({
+      name: m.name,
+      kind: m.kind,
+      isExport: m.isExport,
+      startLine: extendToHeader(lines, m.startLine),
+      endLine: m.endLine
+    }));
+};
+
+export const createModule = (path: string, text: string): WorkspaceModule => {
+  const normalized = text.replace(/\r\n/g, '\n');
+  return { path, name: moduleNameFromPath(path), text: normalized, methods: readMethods(normalized) };
+};
+
+// Accepts a folder, a ZIP archive or separate .bsl/.os files
+export const importWorkspaceFiles = async (files: File[]): Promise<WorkspaceModule[]> => {
+  const modules: WorkspaceModule[] = [];
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      const entries = await readZip(await file.arrayBuffer());
+      for (const entry of entries) {
+        if (entry.isDirectory || !MODULE_FILE_REGEX.test(entry.name)) continue;
+        modules.push(createModule(entry.name, decodeText(await entry.read())));
+      }
+    } else if (MODULE_FILE_REGEX.test(file.name)) {
+      const text = decodeText(new Uint8Array(await file.arrayBuffer()));
+      modules.push(createModule(file.webkitRelativePath || file.name, text));
+    }
+  }
+  return modules;
+};
+
+// New modules replace loaded ones with the same path
+export const mergeModules = (current: WorkspaceModule[], added: WorkspaceModule[]): WorkspaceModule[] => {
+  const addedPaths = new Set(added.map(m => m.path));
+  return [...current.filter(m => !addedPaths.has(m.path)), ...added]
+    .sort((a, b) => a.name.localeCompare(b.name, 'ru'));
+};
+
+export interface MentionSuggestion {
+  value: string; // Inserted after "@"
+  hint: string;
+}
+
+export const getMentionSuggestions = (modules: WorkspaceModule[], prefix: string): MentionSuggestion[] => {
+  const query = prefix.toLowerCase();
+  const suggestions: MentionSuggestion[] = [];
+
+  for (const module of modules) {
+    if (module.name.toLowerCase().includes(query)) {
+      suggestions.push({ value: module.name, hint: `модуль, методов: ${module.methods.length}` });
+    }
+  }
+  for (const module of modules) {
+    for (const method of module.methods) {
+      const qualified = `${module.name}.${method.name}`;
+      if (method.name.toLowerCase().startsWith(query)) {
+        suggestions.push({ value: method.name, hint: module.name });
+      } else if (query.includes('.') && qualified.toLowerCase().startsWith(query)) {
+        suggestions.push({ value: qualified, hint: method.kind === 'function' ? 'функция' : 'процедура' });
+      }
+    }
+  }
+
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+};
+
+const toAttachment = (reference: string, text: string, details: string): Attachment => {
+  const truncated = text.length > MAX_EXTRACTED_CHARS;
+  return {
+    name: `@${reference}`,
+    mimeType: 'text/x-bsl',
+    data: '',
+    size: new Blob([text]).size,
+    extraction: {
+      format: 'bsl',
+      text: truncated ? text.slice(0, MAX_EXTRACTED_CHARS) : text,
+      originalLength: text.length,
+      truncated,
+      details
+    }
+  };
+};
+
+const methodAttachment = (module: WorkspaceModule, method: WorkspaceMethod): Attachment => {
+  const source = module.text.split('\n').slice(method.startLine - 1, method.endLine).join('\n');
+  return toAttachment(
+    `${module.name}.${method.name}`,
+    source,
+    `${module.name}, строки ${method.startLine}–${method.endLine}`
+  );
+};
+
+// Turns @-mentions of the prompt into text attachments; unknown names are left as plain text
+export const resolveMentions = (modules: WorkspaceModule[], text: string): Attachment[] => {
+  const attachments: Attachment[] = [];
+  const seen = new Set<string>();
+  const add = (attachment: Attachment) => {
+    if (seen.has(attachment.name)) return;
+    seen.add(attachment.name);
+    attachments.push(attachment);
+  };
+
+  for (const match of text.matchAll(MENTION_REGEX)) {
+    const reference = match[1].replace(/\.+$/, '').toLowerCase();
+
+    const module = modules.find(m => m.name.toLowerCase() === reference);
+    if (module) {
+      add(toAttachment(module.name, module.text, `${module.path}, строк: ${module.text.split('\n').length}`));
+      continue;
+    }
+
+    const dot = reference.lastIndexOf('.');
+    if (dot > 0) {
+      const owner = modules.find(m => m.name.toLowerCase() === reference.slice(0, dot));
+      const method = owner?.methods.find(m => m.name.toLowerCase() === reference.slice(dot + 1));
+      if (owner && method) add(methodAttachment(owner, method));
+      continue;
+    }
+
+    modules
+      .flatMap(m => m.methods.filter(method => method.name.toLowerCase() === reference).map(method => ({ m, method })))
+      .slice(0, MAX_METHOD_MATCHES)
+      .forEach(({ m, method }) => add(methodAttachment(m, method)));
+  }
+
+  return attachments;
+};
+
+// Below this the block is a different piece of code that merely shares some lines with the file
+const MIN_SOURCE_SIMILARITY = 0.5;
+
+const decodeBase64 = (data: string): string => decodeText(Uint8Array.from(atob(data), c => c.charCodeAt(0)));
+
+// Modules of the workspace and module files sent in the conversation, newest attachment first
+export const getSourceFiles = (messages: Message[], workspace: WorkspaceModule[] = []): SourceFile[] => {
+  const files: SourceFile[] = workspace.map(m => ({ name: m.path.split('/').pop() || m.name, text: m.text, modulePath: m.path }));
+
+  [...messages].reverse().forEach(message => (message.attachments || []).forEach(att => {
+    if (att.extraction?.format === 'bsl') {
+      // Whole modules are already in the list; a mentioned method is compared on its own
+      if (!att.extraction.truncated && !workspace.some(m => `@${m.name}` === att.name)) {
+        files.push({ name: `${att.name.slice(1)}.bsl`, text: att.extraction.text });
+      }
+    } else if (MODULE_FILE_REGEX.test(att.name) && att.data) {
+      try {
+        files.push({ name: att.name, text: decodeBase64(att.data).replace(/\r\n/g, '\n') });
+      } catch (e) {
+        console.warn(`Failed to decode ${att.name}`, e);
+      }
+    }
+  }));
+
+  return files;
+};
+
+// The file a code block of the answer rewrites, if it is similar enough to one of them
+export const matchSourceFile = (files: SourceFile[], code: string): SourceFile | undefined => {
+  let best: SourceFile | undefined;
+  let bestScore = MIN_SOURCE_SIMILARITY;
+  for (const file of files) {
+    const score = textSimilarity(file.text, code);
+    if (score > bestScore) {
+      best = file;
+      bestScore = score;
+    }
+  }
+  return best;
+};
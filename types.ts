@@ -3,11 +3,26 @@ export enum Role {
   MODEL = 'model'
 }
 
+export type OfficeFormat = 'docx' | 'xlsx' | 'pptx';
+
+// 'bsl' marks source code referenced from the session workspace
+export type ExtractionFormat = OfficeFormat | 'bsl';
+
+export interface AttachmentExtraction {
+  format: ExtractionFormat;
+  text: string; // Markdown sent to the model instead of the binary file
+  originalLength: number;
+  truncated: boolean;
+  details: string; // Human-readable stats, e.g. "листов: 3"
+}
+
 export interface Attachment {
+  id?: string; // Key of the stored blob in IndexedDB
   name: string;
   mimeType: string;
   data: string; // Base64
   size: number;
+  extraction?: AttachmentExtraction;
 }
 
 export interface GroundingSource {
@@ -15,14 +30,66 @@ export interface GroundingSource {
   uri?: string;
 }
 
+export type ChatErrorKind = 'quota' | 'overloaded' | 'safety' | 'invalid_request' | 'network' | 'auth' | 'unknown';
+
+export interface ChatError {
+  kind: ChatErrorKind;
+  message: string; // Explanation for the user
+  details?: string; // Original provider message
+  retryAfterMs?: number; // Server hint (Retry-After, RetryInfo) on when the request may be repeated
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts across the whole fallback chain
+  baseDelayMs: number; // Doubled after every failed attempt
+  maxDelayMs: number;
+  jitter: number; // 0..1, share of the delay that is randomized
+  fallbacks: Record<string, string[]>; // Qualified model id -> models tried next, in order
+  searchFallbacks: Record<string, string[]>; // Same, used when web search is on; falls back to `fallbacks`
+}
+
+export interface TokenUsage {
+  promptTokens: number; // Includes cachedTokens
+  responseTokens: number; // Includes reasoning ("thinking") tokens, billed as output
+  cachedTokens: number;
+}
+
+// Prices in USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cachedInput: number;
+}
+
+export interface DailyUsage extends TokenUsage {
+  date: string; // YYYY-MM-DD, local time
+  modelId: string; // Qualified id
+  requests: number;
+}
+
+// Structured answers: the model is asked for JSON that follows a schema
+export type ResponseFormat = 'metadataDesign';
+
 export interface Message {
   id: string;
+  parentId?: string | null; // Previous message in the branch; null for the first message
   role: Role;
   text: string;
   timestamp: number;
   attachments?: Attachment[];
+  useSearch?: boolean; // The request asked for web search; kept for edits, regenerations and retries
   groundingSources?: GroundingSource[];
   isThinking?: boolean;
+  isInterrupted?: boolean; // Generation was stopped by the user; text holds the partial answer
+  isPinned?: boolean; // Always sent to the model, never replaced by the summary
+  modelId?: string; // Qualified id of the model that produced the answer
+  metadataRefs?: string[]; // Configuration objects sent with the request, e.g. "Справочник.Номенклатура"
+  knowledgeSources?: KnowledgeCitation[]; // Knowledge base fragments sent with the request, numbered [1], [2]…
+  error?: ChatError; // Generation failed; never part of the history sent to the model
+  notice?: string; // Transient provider status (retry, model switch) shown while the answer is generated
+  usage?: TokenUsage; // Reported by the provider for the request that produced the answer
+  toolCalls?: ToolCallStep[]; // Local tools the model called while answering, in call order
+  format?: ResponseFormat; // Answer requested as structured JSON instead of markdown; text holds the JSON
 }
 
 export interface ChatSession {
@@ -30,8 +97,333 @@ export interface ChatSession {
   title: string;
   messages: Message[];
   updatedAt: number;
+  branchSelection?: Record<string, string>; // parent id (or "root") -> selected child id
+  contextSummary?: ContextSummary;
+  projectContext?: ProjectContext;
+  workspace?: WorkspaceModule[]; // BSL modules that can be referenced with @-mentions
+  generationSettings?: GenerationSettings; // Defaults to DEFAULT_GENERATION_SETTINGS
+  messagesLoaded?: boolean; // false while only the summary has been read from storage
+}
+
+export type ReasoningLevel = 'minimal' | 'low' | 'medium' | 'high';
+
+export interface GenerationSettings {
+  temperature: number;
+  topP: number;
+  maxOutputTokens: number;
+  thinkingBudget?: number; // Models with a token budget for thinking; 0 disables it, undefined keeps the model default
+  reasoningLevel?: ReasoningLevel; // Models with discrete reasoning levels; undefined keeps the model default
+}
+
+// In-memory state of the answer being generated in a session; several sessions may stream at once
+export interface SessionGeneration {
+  isLoading: boolean;
+  messageId: string; // Answer being generated or generated last
+  aborted?: boolean;
+  error?: ChatError;
+  unread?: boolean; // Finished while another chat was open
+}
+
+export type FormsMode = 'managed' | 'ordinary' | '';
+
+export type ClientType = 'thin' | 'web' | 'thick' | 'mobile' | '';
+
+export interface ProjectContext {
+  configurationName: string; // e.g. "Управление торговлей"
+  configurationVersion: string; // e.g. "11.5.18"
+  platformVersion: string; // e.g. "8.3.24"
+  compatibilityMode: string; // e.g. "8.3.14" or "Не использовать"
+  formsMode: FormsMode;
+  clientType: ClientType;
+  notes: string; // Free-form pinned facts about the project
+}
+
+export interface ProjectContextPreset {
+  id: string;
+  name: string;
+  context: ProjectContext;
+}
+
+export interface WorkspaceMethod {
+  name: string;
+  kind: 'procedure' | 'function';
+  isExport: boolean;
+  startLine: number; // 1-based, including directives and comments right above the header
+  endLine: number;
+}
+
+export interface WorkspaceModule {
+  path: string; // Path inside the loaded folder or archive
+  name: string; // Reference name, e.g. "ОбщийМодуль.РаботаСФайлами"
+  text: string;
+  methods: WorkspaceMethod[];
+}
+
+// Original text a code block of an answer can be compared with: a workspace module or an attached file
+export interface SourceFile {
+  name: string; // Shown in the diff header; also the file name of the download
+  text: string;
+  modulePath?: string; // Workspace module that "apply" updates in place
+}
+
+export interface ContextSummary {
+  text: string;
+  coveredMessageIds: string[]; // Older messages replaced by this summary
+  updatedAt: number;
+}
+
+export interface ContextWindow {
+  messages: Message[]; // Messages sent verbatim, in chronological order
+  summary?: ContextSummary;
+  unsummarized: Message[]; // Dropped messages not yet covered by the summary
+  totalMessages: number;
+  usedTokens: number;
+  budget: number;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  updatedAt: number;
+  messageCount: number;
+  sizeBytes: number;
+}
+
+export interface StorageUsage {
+  usageBytes: number;
+  quotaBytes: number;
+  sessions: SessionSummary[];
 }
 
 export interface ChatConfig {
   useSearch: boolean;
-}
\ No newline at end of file
+}
+export type ProviderId = 'gemini' | 'openai';
+
+export interface ModelInfo {
+  id: string; // Provider-qualified id, e.g. "gemini:gemini-2.0-flash"
+  provider: ProviderId;
+  name: string;
+  description: string;
+  contextBudget: number; // Max tokens of history sent per request
+  reasoning?: 'budget' | 'level'; // How thinking is configured, if the model supports it
+}
+
+export interface ToolParameter {
+  type: 'string' | 'number' | 'integer' | 'boolean';
+  description: string;
+  enum?: string[];
+}
+
+// What tools may read besides their arguments
+export interface ToolContext {
+  metadata: MetadataIndex | null;
+  disabledLintRules: string[];
+}
+
+export interface ChatTool {
+  name: string; // Identifier for the model: latin letters, digits and underscores
+  title: string; // Shown in the answer
+  description: string; // For the model: when to call the tool and what it returns
+  parameters: Record<string, ToolParameter>;
+  required?: string[];
+  execute: (args: Record<string, unknown>, context: ToolContext) => string | Promise<string>;
+}
+
+export interface ToolCallStep {
+  id: string;
+  name: string;
+  title: string;
+  args: Record<string, unknown>;
+  result?: string; // Undefined while the tool runs
+  isError?: boolean;
+}
+
+export interface StreamRequest {
+  history: Message[];
+  newMessage: string;
+  attachments?: Attachment[];
+  knowledge?: KnowledgeChunk[]; // Retrieved documentation fragments, cited by their position
+  useSearch: boolean;
+  modelId: string; // Provider-local model name (without the provider prefix)
+  systemInstruction?: string; // Defaults to SYSTEM_INSTRUCTION
+  generation?: GenerationSettings; // Defaults to DEFAULT_GENERATION_SETTINGS
+  onChunk: (text: string) => void;
+  onGrounding: (sources: GroundingSource[]) => void;
+  onError: (error: ChatError) => void;
+  onNotice?: (notice: string) => void;
+  onModelChange?: (modelId: string) => void; // Qualified id of the fallback model that now answers
+  onUsage?: (usage: TokenUsage) => void; // Called after each request to the model (continuations included), if the provider reports usage
+  tools?: ChatTool[]; // Offered to the model when web search is off and the provider supports function calling
+  toolContext?: ToolContext;
+  onToolCall?: (step: ToolCallStep) => void; // Called when a call starts and again with its result
+  onTruncated?: () => void; // The answer stopped at maxOutputTokens; used by streamChatResponse to continue it
+  responseSchema?: Record<string, unknown>; // JSON Schema of a structured answer; tools and search are not used with it
+  retryPolicy?: RetryPolicy; // Applied by streamChatResponse; defaults to DEFAULT_RETRY_POLICY
+  signal?: AbortSignal;
+}
+
+export interface ChatProvider {
+  id: ProviderId;
+  name: string;
+  supportsSearch: boolean;
+  supportsTools: boolean;
+  isConfigured: () => boolean;
+  streamResponse: (request: StreamRequest) => Promise<void>;
+  listModels?: () => Promise<ModelInfo[]>;
+}
+
+export type BslSeverity = 'error' | 'warning';
+
+export interface BslRule {
+  id: string;
+  severity: BslSeverity;
+  title: string;
+  description: string;
+}
+
+export interface BslDiagnostic {
+  ruleId: string;
+  severity: BslSeverity;
+  line: number; // 1-based line within the code block
+  message: string;
+}
+
+export interface AppSettings {
+  disabledLintRules: string[];
+  activeMetadataId?: string; // Imported configuration used as metadata context
+  useKnowledgeBase: boolean;
+  retryPolicy: RetryPolicy;
+  useTools: boolean; // Let the model call local tools (global context reference, BSL check, metadata search, dates)
+  modelPrices: Record<string, ModelPrice>; // Qualified model id -> price; missing models are free
+  dailyBudget?: number; // USD; a warning is shown in the input area when today's cost approaches it
+}
+
+export type SearchHitKind = 'text' | 'code' | 'attachment';
+
+export interface SearchFilters {
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string; // YYYY-MM-DD, inclusive
+  modelId?: string; // Sessions where this model answered at least once
+}
+
+export interface SearchHit {
+  messageId: string;
+  kind: SearchHitKind;
+  snippet: string;
+  timestamp: number;
+}
+
+export interface SearchResult {
+  sessionId: string;
+  title: string;
+  updatedAt: number;
+  hits: SearchHit[];
+  totalHits: number;
+}
+
+export type MetadataKind =
+  | 'Constant'
+  | 'Catalog'
+  | 'Document'
+  | 'DocumentJournal'
+  | 'Enum'
+  | 'ChartOfCharacteristicTypes'
+  | 'ChartOfAccounts'
+  | 'ChartOfCalculationTypes'
+  | 'InformationRegister'
+  | 'AccumulationRegister'
+  | 'AccountingRegister'
+  | 'CalculationRegister'
+  | 'BusinessProcess'
+  | 'Task'
+  | 'ExchangePlan';
+
+export interface MetadataField {
+  name: string;
+  synonym?: string;
+  type?: string; // Presentation such as "СправочникСсылка.Номенклатура" or "Число(15,2)"
+}
+
+export interface MetadataTabularSection {
+  name: string;
+  synonym?: string;
+  attributes: MetadataField[];
+}
+
+export interface MetadataObject {
+  kind: MetadataKind;
+  name: string;
+  synonym?: string;
+  type?: string; // Constants only
+  attributes: MetadataField[];
+  dimensions?: MetadataField[]; // Registers
+  resources?: MetadataField[]; // Registers
+  tabularSections?: MetadataTabularSection[];
+  values?: MetadataField[]; // Enum values
+}
+
+// Objects a metadata design may contain: what the model proposes for a new subsystem
+export type DesignKind = Extract<MetadataKind, 'Catalog' | 'Document' | 'Enum' | 'InformationRegister' | 'AccumulationRegister'>;
+
+export interface DesignObject {
+  kind: DesignKind;
+  name: string;
+  synonym?: string;
+  attributes: MetadataField[];
+  tabularSections: MetadataTabularSection[]; // Catalogs and documents
+  dimensions: MetadataField[]; // Registers
+  resources: MetadataField[]; // Registers
+  values: MetadataField[]; // Enums; fields without a type
+  registerRecords: string[]; // Documents: registers they post to, e.g. "РегистрНакопления.ОстаткиТоваров"
+  registerType?: 'Balance' | 'Turnovers'; // Accumulation registers
+  periodic?: boolean; // Information registers
+}
+
+export interface MetadataDesign {
+  name: string; // Configuration name used for the XML export
+  summary?: string; // The model's explanation of the design
+  objects: DesignObject[];
+}
+
+export interface MetadataIndex {
+  id: string;
+  name: string;
+  synonym?: string;
+  version?: string;
+  importedAt: number;
+  objects: MetadataObject[];
+}
+
+export interface MetadataIndexSummary {
+  id: string;
+  name: string;
+  synonym?: string;
+  version?: string;
+  importedAt: number;
+  objectCount: number;
+}
+
+export interface KnowledgeDocument {
+  id: string;
+  name: string;
+  addedAt: number;
+  details: string; // e.g. "страниц: 12"
+  charCount: number;
+  chunkCount: number;
+}
+
+export interface KnowledgeChunk {
+  id: string;
+  documentId: string;
+  documentName: string;
+  heading?: string; // Section path, e.g. "Стандарты > Запросы"
+  text: string;
+}
+
+export interface KnowledgeCitation {
+  documentId: string;
+  documentName: string;
+  heading?: string;
+  snippet: string;
+}
@@ -0,0 +1,175 @@
+// Prism (refractor) grammars for the 1C:Enterprise built-in language and the query language.
+// Registered on the refractor instance of the Prism highlighter in utils/highlighter.ts.
+
+import type { Refractor, Syntax } from 'refractor/core';
+
+const WORD_CHAR = '[\\wА-Яа-яЁё]';
+
+// JavaScript's \b only knows ASCII letters, so Cyrillic keywords need explicit boundaries
+const words = (list: string[], flags = 'i') => ({
+  pattern: new RegExp(`(^|[^\\wА-Яа-яЁё])(?:${list.join('|')})(?!${WORD_CHAR})`, flags),
+  lookbehind: true
+});
+
+const BSL_KEYWORDS_RU = [
+  'Если', 'Тогда', 'ИначеЕсли', 'Иначе', 'КонецЕсли', 'Для', 'Каждого', 'Из', 'По', 'Цикл', 'КонецЦикла', 'Пока',
+  'Процедура', 'КонецПроцедуры', 'Функция', 'КонецФункции', 'Перем', 'Возврат', 'Продолжить', 'Прервать',
+  'Попытка', 'Исключение', 'КонецПопытки', 'ВызватьИсключение', 'Новый', 'Выполнить', 'Экспорт', 'Знач',
+  'Перейти', 'Асинх', 'Ждать', 'ДобавитьОбработчик', 'УдалитьОбработчик'
+];
+
+const BSL_KEYWORDS_EN = [
+  'If', 'Then', 'ElsIf', 'Else', 'EndIf', 'For', 'Each', 'In', 'To', 'Do', 'EndDo', 'While',
+  'Procedure', 'EndProcedure', 'Function', 'EndFunction', 'Var', 'Return', 'Continue', 'Break',
+  'Try', 'Except', 'EndTry', 'Raise', 'New', 'Execute', 'Export', 'Val', 'Goto', 'Async', 'Await',
+  'AddHandler', 'RemoveHandler'
+];
+
+const BSL_CONSTANTS = ['Истина', 'Ложь', 'Неопределено', 'NULL', 'True', 'False', 'Undefined'];
+
+const BSL_OPERATOR_WORDS = ['И', 'ИЛИ', 'НЕ', 'AND', 'OR', 'NOT'];
+
+const COMPILATION_DIRECTIVES = [
+  'НаКлиентеНаСервереБезКонтекста', 'НаКлиентеНаСервере', 'НаСервереБезКонтекста', 'НаКлиенте', 'НаСервере',
+  'AtClientAtServerNoContext', 'AtClientAtServer', 'AtServerNoContext', 'AtClient', 'AtServer',
+  'Перед', 'После', 'Вместо', 'ИзменениеИКонтроль', 'Before', 'After', 'Around', 'ChangeAndValidate'
+];
+
+const PREPROCESSOR_WORDS = [
+  'Если', 'ИначеЕсли', 'Иначе', 'КонецЕсли', 'Тогда', 'Область', 'КонецОбласти', 'Вставка', 'КонецВставки',
+  'Удаление', 'КонецУдаления', 'If', 'ElsIf', 'Else', 'EndIf', 'Then', 'Region', 'EndRegion', 'Insert',
+  'EndInsert', 'Delete', 'EndDelete', 'И', 'ИЛИ', 'НЕ', 'And', 'Or', 'Not'
+];
+
+const QUERY_KEYWORDS = [
+  'ВЫБРАТЬ', 'РАЗРЕШЕННЫЕ', 'РАЗЛИЧНЫЕ', 'ПЕРВЫЕ', 'ИЗ', 'ГДЕ', 'КАК', 'ПОМЕСТИТЬ', 'УНИЧТОЖИТЬ', 'ИНДЕКСИРОВАТЬ',
+  'ЛЕВОЕ', 'ПРАВОЕ', 'ПОЛНОЕ', 'ВНУТРЕННЕЕ', 'ВНЕШНЕЕ', 'СОЕДИНЕНИЕ', 'ПО', 'СГРУППИРОВАТЬ', 'ГРУППИРУЮЩИМ',
+  'НАБОРАМ', 'ИМЕЮЩИЕ', 'УПОРЯДОЧИТЬ', 'ВОЗР', 'УБЫВ', 'АВТОУПОРЯДОЧИВАНИЕ', 'ИТОГИ', 'ОБЩИЕ', 'ОБЪЕДИНИТЬ',
+  'ВСЕ', 'ВЫБОР', 'КОГДА', 'ТОГДА', 'ИНАЧЕ', 'КОНЕЦ', 'И', 'ИЛИ', 'НЕ', 'В', 'ИЕРАРХИИ', 'МЕЖДУ', 'ПОДОБНО',
+  'СПЕЦСИМВОЛ', 'ЕСТЬ', 'ДЛЯ', 'ИЗМЕНЕНИЯ', 'ПЕРИОДАМИ',
+  'SELECT', 'ALLOWED', 'DISTINCT', 'TOP', 'FROM', 'WHERE', 'AS', 'INTO', 'DROP', 'INDEX', 'LEFT', 'RIGHT', 'FULL',
+  'INNER', 'OUTER', 'JOIN', 'ON', 'GROUP', 'BY', 'GROUPING', 'SETS', 'HAVING', 'ORDER', 'ASC', 'DESC',
+  'AUTOORDER', 'TOTALS', 'OVERALL', 'UNION', 'ALL', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'AND', 'OR', 'NOT',
+  'IN', 'HIERARCHY', 'BETWEEN', 'LIKE', 'ESCAPE', 'IS', 'FOR', 'UPDATE', 'PERIODS'
+];
+
+export const QUERY_FUNCTIONS = [
+  'СУММА', 'КОЛИЧЕСТВО', 'МАКСИМУМ', 'МИНИМУМ', 'СРЕДНЕЕ', 'ЕСТЬNULL', 'ПРЕДСТАВЛЕНИЕ', 'ПРЕДСТАВЛЕНИЕССЫЛКИ',
+  'ВЫРАЗИТЬ', 'ЗНАЧЕНИЕ', 'ТИПЗНАЧЕНИЯ', 'ТИП', 'ДАТАВРЕМЯ', 'НАЧАЛОПЕРИОДА', 'КОНЕЦПЕРИОДА', 'ДОБАВИТЬКДАТЕ',
+  'РАЗНОСТЬДАТ', 'ГОД', 'КВАРТАЛ', 'МЕСЯЦ', 'ДЕНЬГОДА', 'ДЕНЬ', 'НЕДЕЛЯ', 'ДЕНЬНЕДЕЛИ', 'ЧАС', 'МИНУТА',
+  'СЕКУНДА', 'ПОДСТРОКА', 'СТРОКА', 'ЧИСЛО', 'БУЛЕВО', 'ДАТА', 'ОКР', 'ЦЕЛ', 'АБС', 'СОКРЛП', 'ВРЕГ', 'НРЕГ',
+  'ДЛИНАСТРОКИ', 'СТРНАЙТИ', 'СТРЗАМЕНИТЬ', 'УНИКАЛЬНЫЙИДЕНТИФИКАТОР',
+  'SUM', 'COUNT', 'MAX', 'MIN', 'AVG', 'ISNULL', 'PRESENTATION', 'REFPRESENTATION', 'CAST', 'VALUE', 'VALUETYPE',
+  'TYPE', 'DATETIME', 'BEGINOFPERIOD', 'ENDOFPERIOD', 'DATEADD', 'DATEDIFF', 'YEAR', 'QUARTER', 'MONTH',
+  'DAYOFYEAR', 'DAY', 'WEEK', 'WEEKDAY', 'HOUR', 'MINUTE', 'SECOND', 'SUBSTRING', 'STRING', 'NUMBER', 'BOOLEAN',
+  'DATE'
+];
+
+const METADATA_CLASSES = [
+  'Справочник', 'Документ', 'РегистрСведений', 'РегистрНакопления', 'РегистрБухгалтерии', 'РегистрРасчета',
+  'ПланВидовХарактеристик', 'ПланСчетов', 'ПланВидовРасчета', 'Перечисление', 'БизнесПроцесс', 'Задача',
+  'ПланОбмена', 'Константа', 'ЖурналДокументов', 'Последовательность', 'ВнешнийИсточникДанных',
+  'Catalog', 'Document', 'InformationRegister', 'AccumulationRegister', 'AccountingRegister', 'CalculationRegister',
+  'ChartOfCharacteristicTypes', 'ChartOfAccounts', 'ChartOfCalculationTypes', 'Enum', 'BusinessProcess', 'Task',
+  'ExchangePlan', 'Constant', 'DocumentJournal', 'Sequence', 'ExternalDataSource'
+];
+
+const NUMBER = {
+  pattern: new RegExp(`(^|[^\\wА-Яа-яЁё])\\d+(?:\\.\\d+)?(?!${WORD_CHAR})`),
+  lookbehind: true
+};
+
+const buildQueryGrammar = () => ({
+  comment: /\/\/.*/,
+  // Inside BSL the query text itself is a string, so literals appear with doubled quotes
+  string: { pattern: /""(?:[^"\r\n]|"""")*""|"(?:[^"\r\n])*"/, greedy: true },
+  parameter: { pattern: /&[\wА-Яа-яЁё]+/, alias: 'variable' },
+  'class-name': {
+    pattern: new RegExp(`(^|[^\\wА-Яа-яЁё.])(?:${METADATA_CLASSES.join('|')})\\.[\\wА-Яа-яЁё]+(?:\\.[\\wА-Яа-яЁё]+)?`, 'i'),
+    lookbehind: true
+  },
+  function: words(QUERY_FUNCTIONS.map(f => `${f}(?=\\s*\\()`)),
+  keyword: words(QUERY_KEYWORDS),
+  boolean: words(['ИСТИНА', 'ЛОЖЬ', 'НЕОПРЕДЕЛЕНО', 'NULL', 'TRUE', 'FALSE', 'UNDEFINED']),
+  number: NUMBER,
+  operator: /<>|<=|>=|[<>=+\-*/]/,
+  punctuation: /[(),.;]/
+});
+
+type LanguageDefinition = Syntax & { aliases: string[] };
+
+export const sdblLanguage: LanguageDefinition = Object.assign(
+  (Prism: Refractor) => {
+    Prism.languages.sdbl = buildQueryGrammar();
+    sdblLanguage.aliases.forEach(alias => { Prism.languages[alias] = Prism.languages.sdbl; });
+  },
+  { displayName: 'sdbl', aliases: ['query', '1c-query', 'запрос'] }
+);
+
+// Heuristic for strings holding query text: Запрос.Текст = "ВЫБРАТЬ ..."
+const QUERY_STRING = /"(?=\s*\|?\s*(?:ВЫБРАТЬ|SELECT|УНИЧТОЖИТЬ|DROP)(?![\wА-Яа-яЁё]))(?:[^"]|"")*"(?!")/i;
+
+export const bslLanguage: LanguageDefinition = Object.assign(
+  (Prism: Refractor) => {
+    const query = buildQueryGrammar();
+
+    Prism.languages.bsl = {
+      comment: { pattern: /\/\/.*/, greedy: true },
+      'query-string': {
+        pattern: QUERY_STRING,
+        greedy: true,
+        alias: 'string',
+        inside: {
+          // Distinct key: `rest` would overwrite a `punctuation` entry with the query one
+          quote: { pattern: /^"|"$/, alias: 'string' },
+          // Line continuation of multi-line strings
+          continuation: { pattern: /(\n[ \t]*)\|/, lookbehind: true, alias: 'punctuation' },
+          rest: query
+        }
+      },
+      string: {
+        pattern: /"(?:[^"]|"")*"(?!")/,
+        greedy: true,
+        inside: {
+          continuation: { pattern: /(\n[ \t]*)\|/, lookbehind: true, alias: 'punctuation' }
+        }
+      },
+      // Date literals: '20240101' or '20240101120000'
+      date: { pattern: /'\d{8}(?:\d{6})?'/, alias: 'number' },
+      preprocessor: {
+        pattern: /^([ \t]*)#.*/m,
+        lookbehind: true,
+        greedy: true,
+        alias: 'important',
+        inside: {
+          keyword: words(PREPROCESSOR_WORDS.map(w => `#?${w}`))
+        }
+      },
+      directive: {
+        pattern: new RegExp(`&(?:${COMPILATION_DIRECTIVES.join('|')})(?:\\("[^"]*"\\))?(?!${WORD_CHAR})`, 'i'),
+        alias: 'important'
+      },
+      label: { pattern: /~[\wА-Яа-яЁё]+:?/, alias: 'symbol' },
+      keyword: [words(BSL_KEYWORDS_RU), words(BSL_KEYWORDS_EN)],
+      boolean: words(BSL_CONSTANTS),
+      'operator-word': { ...words(BSL_OPERATOR_WORDS), alias: 'operator' },
+      function: { pattern: new RegExp(`(^|[^\\wА-Яа-яЁё])[\\wА-Яа-яЁё]+(?=\\s*\\()`), lookbehind: true },
+      number: NUMBER,
+      operator: /<>|<=|>=|[<>=+\-*/%?]/,
+      punctuation: /[()[\]{};,.:]/
+    };
+
+    bslLanguage.aliases.forEach(alias => { Prism.languages[alias] = Prism.languages.bsl; });
+  },
+  { displayName: 'bsl', aliases: ['1c', '1с', 'oscript', 'os'] }
+);
+
+const BSL_MARKERS = /(?:^|\n)\s*(?:&(?:НаСервере|НаКлиенте|AtServer|AtClient)|#(?:Если|Область|If|Region)|(?:Процедура|Функция|Procedure|Function)\s+[\wА-Яа-яЁё]+\s*\()|КонецЕсли;|КонецЦикла;|КонецПроцедуры|КонецФункции|EndIf;|EndDo;/i;
+const QUERY_MARKERS = /^\s*(?:ВЫБРАТЬ|SELECT)(?![\wА-Яа-яЁё])[\s\S]*(?:^|[^\wА-Яа-яЁё])(?:ИЗ|FROM)(?![\wА-Яа-яЁё])/i;
+
+// Guesses the language of an untagged fenced block; null when it is not 1C code
+export const detectCodeLanguage = (code: string): 'bsl' | 'sdbl' | null => {
+  if (QUERY_MARKERS.test(code)) return 'sdbl';
+  if (BSL_MARKERS.test(code)) return 'bsl';
+  return null;
+};
@@ -0,0 +1,191 @@
+import { BslDiagnostic, BslRule } from '../types';
+import { BslModule, BslToken, findMethodAt, isInsideLoop, parseBsl } from './bslParser';
+
+// Static checks for BSL code from answers: syntax slips that the Configurator would reject
+// and common anti-patterns. Rules are heuristic and work on a single code block.
+
+export const BSL_RULES: BslRule[] = [
+  { id: 'BSL001', severity: 'error', title: 'Незакрытый блок', description: 'Если, Цикл, Попытка или метод без завершающего ключевого слова (или лишнее завершающее слово)' },
+  { id: 'BSL002', severity: 'error', title: 'Неверное окончание метода', description: 'Процедура закрыта КонецФункции или наоборот' },
+  { id: 'BSL003', severity: 'error', title: 'Возврат значения из процедуры', description: 'Возврат со значением внутри процедуры' },
+  { id: 'BSL004', severity: 'warning', title: 'Необъявленная переменная', description: 'Переменная читается, но нигде не объявлена и не получает значение' },
+  { id: 'BSL005', severity: 'warning', title: 'Возврат без значения из функции', description: 'Функция завершается оператором Возврат без значения' },
+  { id: 'BSL101', severity: 'warning', title: 'Запрос в цикле', description: 'Выполнение запроса внутри цикла вместо одного пакетного запроса' },
+  { id: 'BSL102', severity: 'warning', title: 'Попытка без логирования', description: 'Исключение перехватывается без записи в журнал регистрации и без ВызватьИсключение' },
+  { id: 'BSL103', severity: 'warning', title: 'Серверный вызов в клиентском цикле', description: 'Вызов серверного метода внутри цикла на клиенте' }
+];
+
+const RULE_SEVERITY = new Map(BSL_RULES.map(r => [r.id, r.severity]));
+
+// Context properties available in modules without declaration
+const KNOWN_GLOBALS = new Set([
+  'этотобъект', 'thisobject', 'этаформа', 'thisform', 'элементы', 'items', 'объект', 'object',
+  'параметры', 'parameters', 'запись', 'record', 'владелецформы', 'formowner', 'модифицированность',
+  'modified', 'заголовок', 'title', 'текущийэлемент', 'currentitem', 'закрыватьпривыборе',
+  'closeonchoice', 'ключназначенияиспользования', 'purposeusekey'
+]);
+
+const LOGGING_CALLS = new Set(['записьжурналарегистрации', 'writelogevent']);
+
+const CLIENT_DIRECTIVES = new Set(['наклиенте', 'atclient']);
+const SERVER_DIRECTIVES = new Set(['насервере', 'atserver', 'насерверебезконтекста', 'atservernocontext']);
+
+const QUERY_EXECUTE_METHODS = new Set(['выполнить', 'execute', 'выполнитьпакет', 'executebatch']);
+
+// Keywords after which a new statement starts
+const STATEMENT_START_KEYWORDS = new Set(['then', 'else', 'do', 'try', 'except']);
+
+// Tokens that may follow Возврат without being its value
+const RETURN_TERMINATORS = new Set(['endprocedure', 'endfunction', 'endif', 'enddo', 'endtry', 'else', 'elsif', 'except']);
+
+type Report = (ruleId: string, line: number, message: string) => void;
+
+const isPunct = (token: BslToken | undefined, value: string) => token?.type === 'punctuation' && token.value === value;
+
+const checkStructure = (module: BslModule, report: Report) => {
+  module.errors.forEach(e => report(e.kind === 'mismatch' ? 'BSL002' : 'BSL001', e.line, e.message));
+};
+
+const checkReturns = (module: BslModule, report: Report) => {
+  const { tokens } = module;
+  tokens.forEach((token, i) => {
+    if (token.keyword !== 'return') return;
+    const method = findMethodAt(module, i);
+    if (!method) return;
+    const next = tokens[i + 1];
+    const hasValue = next !== undefined && !isPunct(next, ';') && !(next.keyword && RETURN_TERMINATORS.has(next.keyword));
+    if (method.kind === 'procedure' && hasValue) {
+      report('BSL003', token.line, `Процедура «${method.name}» не может возвращать значение`);
+    } else if (method.kind === 'function' && !hasValue) {
+      report('BSL005', token.line, `Функция «${method.name}» должна возвращать значение`);
+    }
+  });
+};
+
+const checkUndeclaredVariables = (module: BslModule, report: Report) => {
+  const { tokens } = module;
+  const moduleNames = new Set(module.moduleVariables.map(v => v.toLowerCase()));
+
+  module.methods.forEach(method => {
+    const declared = new Set([...moduleNames, ...method.params.map(p => p.toLowerCase())]);
+    const end = Math.min(method.block.end, tokens.length);
+
+    // First pass: everything that gets a value or is declared with Перем
+    for (let i = method.bodyStart; i < end; i++) {
+      const token = tokens[i];
+      if (token.keyword === 'var') {
+        for (let j = i + 1; j < end && !isPunct(tokens[j], ';'); j++) {
+          if (tokens[j].type === 'identifier') declared.add(tokens[j].value.toLowerCase());
+        }
+        continue;
+      }
+      if (token.type !== 'identifier') continue;
+      const previous = tokens[i - 1];
+      const atStatementStart = i === method.bodyStart
+        || isPunct(previous, ';')
+        || previous.type === 'label'
+        || (previous.keyword !== undefined && STATEMENT_START_KEYWORDS.has(previous.keyword));
+      const isAssignment = atStatementStart && tokens[i + 1]?.value === '=';
+      const isLoopVariable = previous?.keyword === 'for' || previous?.keyword === 'each';
+      if (isAssignment || isLoopVariable) declared.add(token.value.toLowerCase());
+    }
+
+    // Second pass: bare reads of names that never got a value
+    const reported = new Set<string>();
+    for (let i = method.bodyStart; i < end; i++) {
+      const token = tokens[i];
+      if (token.type !== 'identifier') continue;
+      const name = token.value.toLowerCase();
+      const previous = tokens[i - 1];
+      const next = tokens[i + 1];
+      // Members, calls, type names after Новый and global objects like Справочники.X are out of scope
+      if (isPunct(previous, '.') || isPunct(next, '.') || isPunct(next, '(') || previous?.keyword === 'new') continue;
+      if (declared.has(name) || KNOWN_GLOBALS.has(name) || reported.has(name)) continue;
+      reported.add(name);
+      report('BSL004', token.line, `Переменная «${token.value}» не определена`);
+    }
+  });
+};
+
+const checkQueriesInLoops = (module: BslModule, report: Report) => {
+  const { tokens } = module;
+  tokens.forEach((token, i) => {
+    if (!isInsideLoop(module, i)) return;
+    const isNewQuery = token.keyword === 'new' && /^(запрос|query)$/i.test(tokens[i + 1]?.value || '');
+    const isExecute = token.type === 'identifier'
+      && QUERY_EXECUTE_METHODS.has(token.value.toLowerCase())
+      && isPunct(tokens[i - 1], '.')
+      && isPunct(tokens[i + 1], '(')
+      && /запрос|query/i.test(tokens[i - 2]?.value || '');
+    if (isNewQuery || isExecute) {
+      report('BSL101', token.line, 'Запрос выполняется в цикле: соберите данные одним запросом до цикла');
+    }
+  });
+};
+
+const checkTryWithoutLogging = (module: BslModule, report: Report) => {
+  const { tokens } = module;
+  module.blocks.forEach(block => {
+    if (block.kind !== 'try' || block.exceptIndex === undefined) return;
+    const handler = tokens.slice(block.exceptIndex + 1, block.end);
+    const handled = handler.some(t =>
+      t.keyword === 'raise' || (t.type === 'identifier' && LOGGING_CALLS.has(t.value.toLowerCase()))
+    );
+    if (!handled) {
+      report('BSL102', tokens[block.exceptIndex].line, 'Исключение перехвачено без ЗаписьЖурналаРегистрации и без ВызватьИсключение');
+    }
+  });
+};
+
+const checkServerCallsInClientLoops = (module: BslModule, report: Report) => {
+  const { tokens } = module;
+  const serverMethods = new Set(
+    module.methods
+      .filter(m => m.directive && SERVER_DIRECTIVES.has(m.directive.toLowerCase()))
+      .map(m => m.name.toLowerCase())
+  );
+  if (serverMethods.size === 0) return;
+
+  module.methods
+    .filter(m => m.directive && CLIENT_DIRECTIVES.has(m.directive.toLowerCase()))
+    .forEach(method => {
+      for (let i = method.bodyStart; i < Math.min(method.block.end, tokens.length); i++) {
+        const token = tokens[i];
+        if (
+          token.type === 'identifier'
+          && serverMethods.has(token.value.toLowerCase())
+          && isPunct(tokens[i + 1], '(')
+          && !isPunct(tokens[i - 1], '.')
+          && isInsideLoop(module, i)
+        ) {
+          report('BSL103', token.line, `Серверный метод «${token.value}» вызывается в цикле на клиенте: каждый вызов — отдельный запрос к серверу`);
+        }
+      }
+    });
+};
+
+const CHECKS = [
+  checkStructure,
+  checkReturns,
+  checkUndeclaredVariables,
+  checkQueriesInLoops,
+  checkTryWithoutLogging,
+  checkServerCallsInClientLoops
+];
+
+export const lintBsl = (source: string, disabledRules: string[] = []): BslDiagnostic[] => {
+  const module = parseBsl(source);
+  const disabled = new Set(disabledRules);
+  const diagnostics: BslDiagnostic[] = [];
+  const seen = new Set<string>();
+
+  const report: Report = (ruleId, line, message) => {
+    const key = `${ruleId}:${line}:${message}`;
+    if (disabled.has(ruleId) || seen.has(key)) return;
+    seen.add(key);
+    diagnostics.push({ ruleId, severity: RULE_SEVERITY.get(ruleId) || 'warning', line, message });
+  };
+
+  CHECKS.forEach(check => check(module, report));
+  return diagnostics.sort((a, b) => a.line - b.line);
+};
@@ -0,0 +1,402 @@
+// Lightweight parser for the 1C:Enterprise built-in language (BSL).
+// It does not build full expressions: it tokenizes the module and recovers its block structure
+// (methods, conditions, loops, try blocks), which is what the linter rules need.
+
+export type BslTokenType =
+  | 'keyword'
+  | 'identifier'
+  | 'string'
+  | 'date'
+  | 'number'
+  | 'operator'
+  | 'punctuation'
+  | 'directive'
+  | 'label';
+
+export interface BslToken {
+  type: BslTokenType;
+  value: string;
+  keyword?: BslKeyword; // Canonical English keyword for `keyword` tokens
+  line: number; // 1-based
+}
+
+export type BslKeyword =
+  | 'if' | 'then' | 'elsif' | 'else' | 'endif'
+  | 'for' | 'each' | 'in' | 'to' | 'while' | 'do' | 'enddo'
+  | 'procedure' | 'endprocedure' | 'function' | 'endfunction'
+  | 'var' | 'val' | 'export' | 'return' | 'continue' | 'break'
+  | 'try' | 'except' | 'endtry' | 'raise'
+  | 'new' | 'execute' | 'goto' | 'async' | 'await'
+  | 'true' | 'false' | 'undefined' | 'null'
+  | 'and' | 'or' | 'not' | 'addhandler' | 'removehandler';
+
+const KEYWORDS: Record<string, BslKeyword> = {
+  'если': 'if', 'if': 'if',
+  'тогда': 'then', 'then': 'then',
+  'иначеесли': 'elsif', 'elsif': 'elsif',
+  'иначе': 'else', 'else': 'else',
+  'конецесли': 'endif', 'endif': 'endif',
+  'для': 'for', 'for': 'for',
+  'каждого': 'each', 'each': 'each',
+  'из': 'in', 'in': 'in',
+  'по': 'to', 'to': 'to',
+  'пока': 'while', 'while': 'while',
+  'цикл': 'do', 'do': 'do',
+  'конеццикла': 'enddo', 'enddo': 'enddo',
+  'процедура': 'procedure', 'procedure': 'procedure',
+  'конецпроцедуры': 'endprocedure', 'endprocedure': 'endprocedure',
+  'функция': 'function', 'function': 'function',
+  'конецфункции': 'endfunction', 'endfunction': 'endfunction',
+  'перем': 'var', 'var': 'var',
+  'знач': 'val', 'val': 'val',
+  'экспорт': 'export', 'export': 'export',
+  'возврат': 'return', 'return': 'return',
+  'продолжить': 'continue', 'continue': 'continue',
+  'прервать': 'break', 'break': 'break',
+  'попытка': 'try', 'try': 'try',
+  'исключение': 'except', 'except': 'except',
+  'конецпопытки': 'endtry', 'endtry': 'endtry',
+  'вызватьисключение': 'raise', 'raise': 'raise',
+  'новый': 'new', 'new': 'new',
+  'выполнить': 'execute', 'execute': 'execute',
+  'перейти': 'goto', 'goto': 'goto',
+  'асинх': 'async', 'async': 'async',
+  'ждать': 'await', 'await': 'await',
+  'истина': 'true', 'true': 'true',
+  'ложь': 'false', 'false': 'false',
+  'неопределено': 'undefined', 'undefined': 'undefined',
+  'null': 'null',
+  'и': 'and', 'and': 'and',
+  'или': 'or', 'or': 'or',
+  'не': 'not', 'not': 'not',
+  'добавитьобработчик': 'addhandler', 'addhandler': 'addhandler',
+  'удалитьобработчик': 'removehandler', 'removehandler': 'removehandler'
+};
+
+const isIdentStart = (ch: string) => /[A-Za-z_А-Яа-яЁё]/.test(ch);
+const isIdentPart = (ch: string) => /[\wА-Яа-яЁё]/.test(ch);
+
+export const tokenizeBsl = (source: string): BslToken[] => {
+  const tokens: BslToken[] = [];
+  let i = 0;
+  let line = 1;
+
+  const push = (type: BslTokenType, value: string, startLine: number, keyword?: BslKeyword) => {
+    tokens.push(keyword ? { type, value, keyword, line: startLine } : { type, value, line: startLine });
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '\n') { line++; i++; continue; }
+    if (/\s/.test(ch)) { i++; continue; }
+
+    // Comments
+    if (ch === '/' && source[i + 1] === '/') {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+
+    // Preprocessor instructions (#Если, #Область) are not part of the block structure
+    if (ch === '#') {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+
+    // Strings, possibly multi-line with "|" continuations; "" is an escaped quote
+    if (ch === '"') {
+      const startLine = line;
+      let j = i + 1;
+      while (j < source.length) {
+        if (source[j] === '"') {
+          if (source[j + 1] === '"') { j += 2; continue; }
+          break;
+        }
+        if (source[j] === '\n') line++;
+        j++;
+      }
+      push('string', source.slice(i, j + 1), startLine);
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === "'") {
+      let j = i + 1;
+      while (j < source.length && source[j] !== "'" && source[j] !== '\n') j++;
+      push('date', source.slice(i, j + 1), line);
+      i = j + 1;
+      continue;
+    }
+
+    if (/\d/.test(ch)) {
+      let j = i;
+      while (j < source.length && /[\d.]/.test(source[j])) j++;
+      push('number', source.slice(i, j), line);
+      i = j;
+      continue;
+    }
+
+    if (ch === '&') {
+      let j = i + 1;
+      while (j < source.length && isIdentPart(source[j])) j++;
+      push('directive', source.slice(i + 1, j), line);
+      i = j;
+      continue;
+    }
+
+    if (ch === '~') {
+      let j = i + 1;
+      while (j < source.length && isIdentPart(source[j])) j++;
+      push('label', source.slice(i + 1, j), line);
+      i = j;
+      if (source[i] === ':') i++;
+      continue;
+    }
+
+    if (isIdentStart(ch)) {
+      let j = i;
+      while (j < source.length && isIdentPart(source[j])) j++;
+      const word = source.slice(i, j);
+      const keyword = KEYWORDS[word.toLowerCase()];
+      // After a dot every word is a member name: Запрос.Выполнить(), Структура.Новый
+      const previous = tokens[tokens.length - 1];
+      const isMember = previous?.type === 'punctuation' && previous.value === '.';
+      if (keyword && !isMember) push('keyword', word, line, keyword);
+      else push('identifier', word, line);
+      i = j;
+      continue;
+    }
+
+    const twoChars = source.slice(i, i + 2);
+    if (twoChars === '<>' || twoChars === '<=' || twoChars === '>=') {
+      push('operator', twoChars, line);
+      i += 2;
+      continue;
+    }
+
+    if ('=<>+-*/%?'.includes(ch)) {
+      push('operator', ch, line);
+    } else {
+      push('punctuation', ch, line);
+    }
+    i++;
+  }
+
+  return tokens;
+};
+
+export type BslBlockKind = 'method' | 'if' | 'loop' | 'try';
+
+export interface BslBlock {
+  kind: BslBlockKind;
+  start: number; // Index of the opening token
+  end: number; // Index of the closing token, or tokens.length when unclosed
+  exceptIndex?: number; // For try blocks: index of Исключение
+}
+
+export interface BslMethod {
+  name: string;
+  kind: 'procedure' | 'function';
+  directive?: string;
+  params: string[];
+  isExport: boolean;
+  block: BslBlock;
+  bodyStart: number; // First token after the header
+  startLine: number;
+  endLine: number;
+}
+
+export interface BslStructureError {
+  line: number;
+  message: string;
+  kind: 'unclosed' | 'mismatch' | 'unexpected';
+}
+
+export interface BslModule {
+  tokens: BslToken[];
+  methods: BslMethod[];
+  blocks: BslBlock[];
+  moduleVariables: string[];
+  errors: BslStructureError[];
+}
+
+const BLOCK_NAMES: Record<BslBlockKind, string> = {
+  method: 'Процедура/Функция',
+  if: 'Если',
+  loop: 'Цикл',
+  try: 'Попытка'
+};
+
+const CLOSERS: Partial<Record<BslKeyword, BslBlockKind>> = {
+  endif: 'if',
+  enddo: 'loop',
+  endtry: 'try',
+  endprocedure: 'method',
+  endfunction: 'method'
+};
+
+interface OpenBlock {
+  block: BslBlock;
+  method?: BslMethod;
+}
+
+export const parseBsl = (source: string): BslModule => {
+  const tokens = tokenizeBsl(source);
+  const methods: BslMethod[] = [];
+  const blocks: BslBlock[] = [];
+  const moduleVariables: string[] = [];
+  const errors: BslStructureError[] = [];
+  const stack: OpenBlock[] = [];
+  let pendingDirective: string | undefined;
+
+  const open = (kind: BslBlockKind, index: number): OpenBlock => {
+    const entry = { block: { kind, start: index, end: tokens.length } };
+    stack.push(entry);
+    blocks.push(entry.block);
+    return entry;
+  };
+
+  const reportUnclosed = (entry: OpenBlock) => {
+    errors.push({
+      line: tokens[entry.block.start].line,
+      kind: 'unclosed',
+      message: `Блок «${tokens[entry.block.start].value}» не закрыт`
+    });
+  };
+
+  const close = (kind: BslBlockKind, index: number) => {
+    const token = tokens[index];
+    const depth = stack.map(e => e.block.kind).lastIndexOf(kind);
+    // Methods cannot nest, so a method closer never skips past a method boundary
+    if (depth < 0) {
+      errors.push({ line: token.line, kind: 'unexpected', message: `«${token.value}» без открывающего «${BLOCK_NAMES[kind]}»` });
+      return;
+    }
+    while (stack.length - 1 > depth) {
+      const inner = stack.pop()!;
+      inner.block.end = index;
+      reportUnclosed(inner);
+    }
+    const entry = stack.pop()!;
+    entry.block.end = index;
+    if (entry.method) {
+      entry.method.endLine = token.line;
+      const expected = entry.method.kind === 'procedure' ? 'endprocedure' : 'endfunction';
+      if (token.keyword !== expected) {
+        errors.push({
+          line: token.line,
+          kind: 'mismatch',
+          message: `${entry.method.kind === 'procedure' ? 'Процедура' : 'Функция'} «${entry.method.name}» закрыта «${token.value}»`
+        });
+      }
+    }
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.type === 'directive') {
+      pendingDirective = token.value;
+      continue;
+    }
+    if (token.type !== 'keyword') continue;
+
+    switch (token.keyword) {
+      case 'procedure':
+      case 'function': {
+        // A new method while another is open means the previous one was never closed
+        while (stack.length > 0) {
+          const entry = stack.pop()!;
+          entry.block.end = i;
+          reportUnclosed(entry);
+          if (entry.method) entry.method.endLine = token.line;
+        }
+        const entry = open('method', i);
+        const name = tokens[i + 1]?.type === 'identifier' ? tokens[i + 1].value : '';
+        const params: string[] = [];
+        let j = i + 2;
+        if (tokens[j]?.value === '(') {
+          j++;
+          let expectName = true;
+          let depth = 1;
+          while (j < tokens.length && depth > 0) {
+            const t = tokens[j];
+            if (t.value === '(') depth++;
+            else if (t.value === ')') depth--;
+            else if (t.value === ',' && depth === 1) expectName = true;
+            else if (expectName && t.type === 'identifier' && depth === 1) {
+              params.push(t.value);
+              expectName = false;
+            }
+            j++;
+          }
+        }
+        const isExport = tokens[j]?.keyword === 'export';
+        if (isExport) j++;
+        const method: BslMethod = {
+          name,
+          kind: token.keyword,
+          directive: pendingDirective,
+          params,
+          isExport,
+          block: entry.block,
+          bodyStart: j,
+          startLine: token.line,
+          endLine: tokens[tokens.length - 1]?.line ?? token.line
+        };
+        entry.method = method;
+        methods.push(method);
+        pendingDirective = undefined;
+        i = j - 1;
+        break;
+      }
+      case 'var': {
+        if (stack.length === 0) {
+          for (let j = i + 1; j < tokens.length && tokens[j].value !== ';'; j++) {
+            if (tokens[j].type === 'identifier' && tokens[j - 1].value !== '.') moduleVariables.push(tokens[j].value);
+          }
+        }
+        break;
+      }
+      case 'if':
+        open('if', i);
+        break;
+      case 'for':
+      case 'while':
+        open('loop', i);
+        break;
+      case 'try':
+        open('try', i);
+        break;
+      case 'except': {
+        const top = stack[stack.length - 1];
+        if (top?.block.kind === 'try' && top.block.exceptIndex === undefined) top.block.exceptIndex = i;
+        else errors.push({ line: token.line, kind: 'unexpected', message: `«${token.value}» вне блока «Попытка»` });
+        break;
+      }
+      case 'elsif':
+      case 'else': {
+        const top = stack[stack.length - 1];
+        if (top?.block.kind !== 'if') {
+          errors.push({ line: token.line, kind: 'unexpected', message: `«${token.value}» вне блока «Если»` });
+        }
+        break;
+      }
+      default: {
+        const kind = token.keyword && CLOSERS[token.keyword];
+        if (kind) close(kind, i);
+      }
+    }
+  }
+
+  stack.forEach(reportUnclosed);
+
+  return { tokens, methods, blocks, moduleVariables, errors };
+};
+
+// Innermost method containing the token index
+export const findMethodAt = (module: BslModule, index: number): BslMethod | undefined =>
+  module.methods.find(m => index > m.block.start && index < m.block.end);
+
+export const isInsideLoop = (module: BslModule, index: number): boolean =>
+  module.blocks.some(b => b.kind === 'loop' && index > b.start && index < b.end);
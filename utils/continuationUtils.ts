@@ -0,0 +1,50 @@
+// Joins an answer cut off by the output token limit with its continuation so that
+// the result reads as one answer, with code blocks that are not split in two
+
+const FENCE_LINE_REGEX = /^\s*(`{3,}|~{3,})/;
+// Models often repeat the tail of the previous part; shorter matches are likely to be coincidental
+const MIN_OVERLAP = 12;
+const MAX_OVERLAP = 400;
+
+// Opening fence of the code block that is still open at the end of the text, if any
+export const getOpenFence = (text: string): string | null => {
+  let open: string | null = null;
+  for (const line of text.split('\n')) {
+    const fence = line.match(FENCE_LINE_REGEX)?.[1];
+    if (!fence) continue;
+    if (open === null) open = fence;
+    else if (fence[0] === open[0] && fence.length >= open.length && !line.trim().slice(fence.length)) open = null;
+  }
+  return open;
+};
+
+const removeOverlap = (previous: string, next: string): string => {
+  const limit = Math.min(MAX_OVERLAP, previous.length, next.length);
+  for (let k = limit; k >= MIN_OVERLAP; k--) {
+    if (previous.endsWith(next.slice(0, k))) return next.slice(k);
+  }
+  return next;
+};
+
+export const stitchContinuation = (previous: string, next: string): string => {
+  let continuation = next;
+
+  // The model tends to reopen the block it was writing; the fence is dropped and the code continues in place
+  if (getOpenFence(previous)) {
+    const reopened = continuation.match(/^\s*(`{3,}|~{3,})[^\n`]*\n/);
+    if (reopened) continuation = continuation.slice(reopened[0].length);
+  }
+
+  let head = previous;
+  const withoutOverlap = removeOverlap(previous, continuation);
+  if (withoutOverlap === continuation) {
+    // A line cut in the middle is often written again from its start, which is too short to count as an overlap
+    const partial = previous.slice(previous.lastIndexOf('\n') + 1);
+    if (partial.trim() && continuation.trimStart().startsWith(partial.trimStart())) head = previous.slice(0, -partial.length);
+  }
+  continuation = withoutOverlap;
+
+  // A line cut in the middle is continued as is, but a fence has to start on its own line
+  const startsWithFence = FENCE_LINE_REGEX.test(continuation.split('\n')[0]);
+  return head + (startsWithFence && head && !head.endsWith('\n') ? '\n' : '') + continuation;
+};
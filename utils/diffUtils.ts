@@ -0,0 +1,155 @@
+// Line diff (Myers) between a module and its rewritten version, grouped into hunks that can be
+// accepted or rejected one by one
+
+export type DiffLineType = 'equal' | 'insert' | 'delete';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldNumber?: number; // 1-based; absent for inserted lines
+  newNumber?: number; // 1-based; absent for deleted lines
+  hunk?: number; // Index of the hunk for changed lines
+}
+
+export interface DiffHunk {
+  index: number;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[]; // Changes with up to DIFF_CONTEXT unchanged lines around them
+}
+
+export interface TextDiff {
+  lines: DiffLine[];
+  hunks: DiffHunk[];
+  endsWithNewline: boolean; // Of the original, kept in the merged text
+}
+
+const DIFF_CONTEXT = 3;
+// Beyond this the texts are unrelated and the diff is reported as a full replacement
+const MAX_EDIT_DISTANCE = 2000;
+
+const splitLines = (text: string): string[] => {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// Models often change trailing whitespace; such lines are not reported as changed
+const lineKey = (line: string) => line.trimEnd();
+
+const myers = (a: string[], b: string[]): DiffLineType[] => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Only the diagonals -d..d are reachable at step d, so each snapshot keeps just those
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && lineKey(a[x]) === lineKey(b[y])) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+
+  return [...Array(n).fill('delete'), ...Array(m).fill('insert')];
+};
+
+const backtrack = (trace: Int32Array[], n: number, m: number): DiffLineType[] => {
+  const ops: DiffLineType[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    // trace[d] holds the state after step d - 1, indexed from diagonal -d
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) { ops.push('equal'); x--; y--; }
+    if (x === prevX) { ops.push('insert'); y--; }
+    else { ops.push('delete'); x--; }
+  }
+  while (x > 0 && y > 0) { ops.push('equal'); x--; y--; }
+
+  return ops.reverse();
+};
+
+export const diffTexts = (original: string, modified: string): TextDiff => {
+  const a = splitLines(original);
+  const b = splitLines(modified);
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  for (const type of myers(a, b)) {
+    if (type === 'equal') lines.push({ type, text: a[i], oldNumber: ++i, newNumber: ++j });
+    else if (type === 'delete') lines.push({ type, text: a[i], oldNumber: ++i });
+    else lines.push({ type, text: b[j], newNumber: ++j });
+  }
+
+  // Changes closer than two contexts apart share a hunk
+  const hunks: DiffHunk[] = [];
+  let start = -1;
+  let end = -1;
+  const closeHunk = () => {
+    const from = Math.max(0, start - DIFF_CONTEXT);
+    const to = Math.min(lines.length, end + DIFF_CONTEXT + 1);
+    const hunkLines = lines.slice(from, to);
+    const index = hunks.length;
+    hunkLines.forEach(line => { if (line.type !== 'equal') line.hunk = index; });
+    const first = lines[from];
+    hunks.push({
+      index,
+      oldStart: first.oldNumber ?? (lines.slice(0, from).filter(l => l.oldNumber).length + 1),
+      oldLines: hunkLines.filter(l => l.type !== 'insert').length,
+      newStart: first.newNumber ?? (lines.slice(0, from).filter(l => l.newNumber).length + 1),
+      newLines: hunkLines.filter(l => l.type !== 'delete').length,
+      lines: hunkLines
+    });
+  };
+
+  lines.forEach((line, index) => {
+    if (line.type === 'equal') return;
+    if (start >= 0 && index - end > DIFF_CONTEXT * 2) {
+      closeHunk();
+      start = -1;
+    }
+    if (start < 0) start = index;
+    end = index;
+  });
+  if (start >= 0) closeHunk();
+
+  return { lines, hunks, endsWithNewline: /\n$/.test(original) };
+};
+
+// Accepted hunks take the new lines, rejected ones keep the original
+export const applyHunks = (diff: TextDiff, accepted: boolean[]): string => {
+  const merged = diff.lines.flatMap(line => {
+    if (line.type === 'equal') return [line.text];
+    const isAccepted = accepted[line.hunk!];
+    return (line.type === 'insert') === isAccepted ? [line.text] : [];
+  });
+  return merged.join('\n') + (diff.endsWithNewline && merged.length > 0 ? '\n' : '');
+};
+
+// Dice coefficient over the distinct meaningful lines: 1 for the same text, about 0 for unrelated ones
+export const textSimilarity = (a: string, b: string): number => {
+  const toSet = (text: string) => new Set(splitLines(text).map(l => l.trim()).filter(l => l.length > 3));
+  const setA = toSet(a);
+  const setB = toSet(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let common = 0;
+  setA.forEach(line => { if (setB.has(line)) common++; });
+  return (2 * common) / (setA.size + setB.size);
+};
@@ -0,0 +1,97 @@
+import { ChatError, ChatErrorKind } from '../types';
+
+// Provider failures are classified once here so that the UI can explain them and offer a retry
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const ERROR_TITLES: Record<ChatErrorKind, string> = {
+  quota: 'Превышен лимит запросов',
+  overloaded: 'Сервер перегружен',
+  safety: 'Ответ заблокирован фильтром безопасности',
+  invalid_request: 'Некорректный запрос',
+  network: 'Нет соединения',
+  auth: 'Ошибка авторизации',
+  unknown: 'Ошибка генерации'
+};
+
+const ERROR_MESSAGES: Record<ChatErrorKind, string> = {
+  quota: 'Лимит запросов к модели исчерпан. Подождите немного, отключите «Web» или выберите другую модель.',
+  overloaded: 'Сервер модели временно недоступен. Подождите минуту и повторите запрос.',
+  safety: 'Модель отказалась отвечать из-за правил безопасности. Переформулируйте вопрос.',
+  invalid_request: 'Сервер отклонил запрос. Возможно, вложения слишком большие или модель их не поддерживает.',
+  network: 'Не удалось связаться с сервером. Проверьте подключение к интернету.',
+  auth: 'Ключ API не задан, недействителен или не имеет доступа к модели.',
+  unknown: 'Не удалось получить ответ от сервера. Попробуйте сменить модель.'
+};
+
+// Retry-After holds either a number of seconds or an HTTP date
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const RETRYABLE_KINDS: ChatErrorKind[] = ['quota', 'overloaded'];
+
+export const createChatError = (kind: ChatErrorKind, details?: string, message = ERROR_MESSAGES[kind]): ChatError =>
+  details ? { kind, message, details } : { kind, message };
+
+export const isRetryableError = (error: ChatError): boolean => RETRYABLE_KINDS.includes(error.kind);
+
+const kindFromStatus = (status: number): ChatErrorKind | null => {
+  if (status === 429) return 'quota';
+  if (status === 401 || status === 403) return 'auth';
+  if (status >= 500) return 'overloaded';
+  if (status >= 400) return 'invalid_request';
+  return null;
+};
+
+const kindFromText = (text: string): ChatErrorKind => {
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(text)) return 'quota';
+  if (/UNAVAILABLE|overloaded|try again later/i.test(text)) return 'overloaded';
+  if (/API key|UNAUTHENTICATED|PERMISSION_DENIED/i.test(text)) return 'auth';
+  if (/SAFETY|blocked/i.test(text)) return 'safety';
+  if (/INVALID_ARGUMENT|FAILED_PRECONDITION/i.test(text)) return 'invalid_request';
+  return 'unknown';
+};
+
+// Google and OpenAI-compatible servers wrap the useful text in {"error": {"message": ...}}
+const extractProviderMessage = (text: string): string => {
+  const json = text.match(/\{[\s\S]*\}/);
+  if (!json) return text;
+  try {
+    return JSON.parse(json[0]).error?.message || text;
+  } catch {
+    return text;
+  }
+};
+
+export const classifyError = (error: unknown): ChatError => {
+  const text = error instanceof Error ? error.message : String(error);
+
+  // fetch() rejects with a TypeError when the server cannot be reached at all
+  if (error instanceof TypeError || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+    return createChatError('network', text);
+  }
+
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : Number(text.match(/^\s*(\d{3})\b/)?.[1]) || Number(text.match(/"code":\s*(\d{3})/)?.[1]) || 0;
+
+  const chatError = createChatError(kindFromStatus(status) || kindFromText(text), extractProviderMessage(text));
+
+  // Gemini puts the hint into google.rpc.RetryInfo: "retryDelay": "27s"
+  const retryDelay = text.match(/retryDelay\W+(\d+(?:\.\d+)?)s\b/)?.[1];
+  const retryAfterMs = error instanceof HttpError && error.retryAfterMs !== undefined
+    ? error.retryAfterMs
+    : retryDelay ? Number(retryDelay) * 1000 : undefined;
+
+  return retryAfterMs === undefined ? chatError : { ...chatError, retryAfterMs };
+};
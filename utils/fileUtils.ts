@@ -17,6 +17,16 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+// Saves generated content through a temporary link; the browser picks the download folder
+export const downloadFile = (name: string, content: BlobPart, mimeType = 'text/plain;charset=utf-8') => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
 export const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 B';
   const k = 1024;
@@ -59,8 +69,9 @@ export const isValidFileType = (file: File): boolean => {
 export const getFileIcon = (mimeType: string, fileName: string): string => {
   if (mimeType.startsWith('image/')) return '🖼️';
   if (mimeType.includes('pdf')) return '📄';
+  if (mimeType.includes('presentation') || fileName.endsWith('.ppt') || fileName.endsWith('.pptx')) return '📽️';
   if (mimeType.includes('excel') || mimeType.includes('spreadsheet') || fileName.endsWith('.xls') || fileName.endsWith('.xlsx')) return '📊';
   if (mimeType.includes('word') || mimeType.includes('document') || fileName.endsWith('.doc') || fileName.endsWith('.docx')) return '📝';
-  if (fileName.endsWith('.bsl') || fileName.endsWith('.os')) return '💻';
+  if (mimeType === 'text/x-bsl' || fileName.endsWith('.bsl') || fileName.endsWith('.os')) return '💻';
   return '📁';
 };
\ No newline at end of file
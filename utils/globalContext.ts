@@ -0,0 +1,328 @@
+// Offline excerpt of the Syntax Assistant: frequently used global context methods and platform types.
+// Not the full reference: enough to answer "what are the parameters of X" without guessing
+// and to notice calls that the project's platform version does not have.
+
+export type Availability = 'client' | 'server';
+
+export interface GlobalMethod {
+  name: string;
+  nameEn: string;
+  syntax: string;
+  returns?: string;
+  description: string;
+  since?: string; // Minimum platform version; undefined for everything available in 8.3.1
+  availability?: Availability[]; // Undefined: both client and server
+}
+
+export interface TypeMember {
+  name: string;
+  nameEn: string;
+  kind: 'method' | 'property';
+  syntax?: string; // Methods only
+  returns?: string; // Return type of a method or type of a property
+  description: string;
+  since?: string;
+}
+
+export interface PlatformType {
+  name: string;
+  nameEn: string;
+  description: string;
+  constructorSyntax?: string; // Types created with Новый
+  since?: string;
+  availability?: Availability[];
+  members: TypeMember[];
+}
+
+export const GLOBAL_METHODS: GlobalMethod[] = [
+  // Strings
+  { name: 'СтрДлина', nameEn: 'StrLen', syntax: 'СтрДлина(<Строка>)', returns: 'Число', description: 'Количество символов в строке.' },
+  { name: 'СокрЛП', nameEn: 'TrimAll', syntax: 'СокрЛП(<Строка>)', returns: 'Строка', description: 'Отсекает пробелы слева и справа.' },
+  { name: 'Лев', nameEn: 'Left', syntax: 'Лев(<Строка>, <ЧислоСимволов>)', returns: 'Строка', description: 'Первые символы строки.' },
+  { name: 'Прав', nameEn: 'Right', syntax: 'Прав(<Строка>, <ЧислоСимволов>)', returns: 'Строка', description: 'Последние символы строки.' },
+  { name: 'Сред', nameEn: 'Mid', syntax: 'Сред(<Строка>, <НачальныйНомер>, <ЧислоСимволов>)', returns: 'Строка', description: 'Подстрока, начиная с символа с указанным номером (нумерация с 1).' },
+  { name: 'СтрНайти', nameEn: 'StrFind', syntax: 'СтрНайти(<Строка>, <ПодстрокаПоиска>, <НаправлениеПоиска>, <НачальнаяПозиция>, <НомерВхождения>)', returns: 'Число', description: 'Позиция вхождения подстроки, 0 если не найдена.', since: '8.3.6' },
+  { name: 'СтрЗаменить', nameEn: 'StrReplace', syntax: 'СтрЗаменить(<Строка>, <ПодстрокаПоиска>, <ПодстрокаЗамены>)', returns: 'Строка', description: 'Заменяет все вхождения подстроки.' },
+  { name: 'СтрРазделить', nameEn: 'StrSplit', syntax: 'СтрРазделить(<Строка>, <Разделитель>, <ВключатьПустые>)', returns: 'Массив', description: 'Разбивает строку на части по любому из символов разделителя.', since: '8.3.6' },
+  { name: 'СтрСоединить', nameEn: 'StrConcat', syntax: 'СтрСоединить(<Строки>, <Разделитель>)', returns: 'Строка', description: 'Соединяет элементы массива строк через разделитель.', since: '8.3.6' },
+  { name: 'СтрШаблон', nameEn: 'StrTemplate', syntax: 'СтрШаблон(<Шаблон>, <Значение1>, ..., <Значение10>)', returns: 'Строка', description: 'Подставляет значения вместо %1…%10.', since: '8.3.6' },
+  { name: 'СтрНачинаетсяС', nameEn: 'StrStartsWith', syntax: 'СтрНачинаетсяС(<Строка>, <СтрокаПоиска>)', returns: 'Булево', description: 'Проверяет начало строки.', since: '8.3.6' },
+  { name: 'СтрЗаканчиваетсяНа', nameEn: 'StrEndsWith', syntax: 'СтрЗаканчиваетсяНа(<Строка>, <СтрокаПоиска>)', returns: 'Булево', description: 'Проверяет окончание строки.', since: '8.3.6' },
+  { name: 'СтрСравнить', nameEn: 'StrCompare', syntax: 'СтрСравнить(<Строка1>, <Строка2>)', returns: 'Число', description: 'Сравнивает строки без учёта регистра: -1, 0 или 1.', since: '8.3.6' },
+  { name: 'СтрЧислоВхождений', nameEn: 'StrOccurrenceCount', syntax: 'СтрЧислоВхождений(<Строка>, <ПодстрокаПоиска>)', returns: 'Число', description: 'Количество вхождений подстроки.' },
+  { name: 'СтрЧислоСтрок', nameEn: 'StrLineCount', syntax: 'СтрЧислоСтрок(<Строка>)', returns: 'Число', description: 'Количество строк в многострочной строке.' },
+  { name: 'СтрПолучитьСтроку', nameEn: 'StrGetLine', syntax: 'СтрПолучитьСтроку(<Строка>, <НомерСтроки>)', returns: 'Строка', description: 'Строка многострочной строки по номеру (с 1).' },
+  { name: 'ВРег', nameEn: 'Upper', syntax: 'ВРег(<Строка>)', returns: 'Строка', description: 'Переводит символы в верхний регистр.' },
+  { name: 'НРег', nameEn: 'Lower', syntax: 'НРег(<Строка>)', returns: 'Строка', description: 'Переводит символы в нижний регистр.' },
+  { name: 'ПустаяСтрока', nameEn: 'IsBlankString', syntax: 'ПустаяСтрока(<Строка>)', returns: 'Булево', description: 'Истина, если строка пустая или состоит только из пробельных символов.' },
+  { name: 'Формат', nameEn: 'Format', syntax: 'Формат(<Значение>, <ФорматнаяСтрока>)', returns: 'Строка', description: 'Преобразует значение в строку по форматной строке, например "ЧДЦ=2; ЧГ=0" или "ДФ=dd.MM.yyyy".' },
+  { name: 'НСтр', nameEn: 'NStr', syntax: 'НСтр(<ИсходнаяСтрока>, <КодЯзыка>)', returns: 'Строка', description: 'Строка на нужном языке из многоязычной строки вида "ru = \'…\'; en = \'…\'".' },
+  // Numbers
+  { name: 'Окр', nameEn: 'Round', syntax: 'Окр(<Число>, <Разрядность>, <РежимОкругления>)', returns: 'Число', description: 'Округляет число; РежимОкругления.Окр15как20 по умолчанию.' },
+  { name: 'Цел', nameEn: 'Int', syntax: 'Цел(<Число>)', returns: 'Число', description: 'Целая часть числа.' },
+  { name: 'Макс', nameEn: 'Max', syntax: 'Макс(<Значение1>, ..., <ЗначениеN>)', returns: 'Произвольный', description: 'Максимальное из значений.' },
+  { name: 'Мин', nameEn: 'Min', syntax: 'Мин(<Значение1>, ..., <ЗначениеN>)', returns: 'Произвольный', description: 'Минимальное из значений.' },
+  { name: 'Число', nameEn: 'Number', syntax: 'Число(<Значение>)', returns: 'Число', description: 'Преобразует значение в число; вызывает исключение, если строку нельзя преобразовать.' },
+  // Dates
+  { name: 'ТекущаяДата', nameEn: 'CurrentDate', syntax: 'ТекущаяДата()', returns: 'Дата', description: 'Дата компьютера, на котором выполняется код. На сервере лучше ТекущаяДатаСеанса().' },
+  { name: 'ТекущаяДатаСеанса', nameEn: 'CurrentSessionDate', syntax: 'ТекущаяДатаСеанса()', returns: 'Дата', description: 'Текущая дата в часовом поясе сеанса.' },
+  { name: 'НачалоДня', nameEn: 'BegOfDay', syntax: 'НачалоДня(<Дата>)', returns: 'Дата', description: 'Дата с временем 00:00:00.' },
+  { name: 'КонецДня', nameEn: 'EndOfDay', syntax: 'КонецДня(<Дата>)', returns: 'Дата', description: 'Дата с временем 23:59:59.' },
+  { name: 'НачалоМесяца', nameEn: 'BegOfMonth', syntax: 'НачалоМесяца(<Дата>)', returns: 'Дата', description: 'Первое число месяца, 00:00:00.' },
+  { name: 'КонецМесяца', nameEn: 'EndOfMonth', syntax: 'КонецМесяца(<Дата>)', returns: 'Дата', description: 'Последний день месяца, 23:59:59.' },
+  { name: 'НачалоКвартала', nameEn: 'BegOfQuarter', syntax: 'НачалоКвартала(<Дата>)', returns: 'Дата', description: 'Первый день квартала.' },
+  { name: 'КонецКвартала', nameEn: 'EndOfQuarter', syntax: 'КонецКвартала(<Дата>)', returns: 'Дата', description: 'Последний день квартала, 23:59:59.' },
+  { name: 'НачалоГода', nameEn: 'BegOfYear', syntax: 'НачалоГода(<Дата>)', returns: 'Дата', description: 'Первое января, 00:00:00.' },
+  { name: 'КонецГода', nameEn: 'EndOfYear', syntax: 'КонецГода(<Дата>)', returns: 'Дата', description: '31 декабря, 23:59:59.' },
+  { name: 'НачалоНедели', nameEn: 'BegOfWeek', syntax: 'НачалоНедели(<Дата>)', returns: 'Дата', description: 'Понедельник недели, 00:00:00.' },
+  { name: 'КонецНедели', nameEn: 'EndOfWeek', syntax: 'КонецНедели(<Дата>)', returns: 'Дата', description: 'Воскресенье недели, 23:59:59.' },
+  { name: 'ДобавитьМесяц', nameEn: 'AddMonth', syntax: 'ДобавитьМесяц(<Дата>, <ЧислоМесяцев>)', returns: 'Дата', description: 'Сдвигает дату на число месяцев (может быть отрицательным); день переносится на последний день короткого месяца.' },
+  { name: 'Год', nameEn: 'Year', syntax: 'Год(<Дата>)', returns: 'Число', description: 'Номер года.' },
+  { name: 'Месяц', nameEn: 'Month', syntax: 'Месяц(<Дата>)', returns: 'Число', description: 'Номер месяца, 1–12.' },
+  { name: 'День', nameEn: 'Day', syntax: 'День(<Дата>)', returns: 'Число', description: 'Число месяца.' },
+  { name: 'ДеньНедели', nameEn: 'WeekDay', syntax: 'ДеньНедели(<Дата>)', returns: 'Число', description: 'Номер дня недели, 1 — понедельник.' },
+  // Values and types
+  { name: 'ЗначениеЗаполнено', nameEn: 'ValueIsFilled', syntax: 'ЗначениеЗаполнено(<Значение>)', returns: 'Булево', description: 'Ложь для Неопределено, NULL, пустой ссылки, пустой строки, 0 и пустой даты.' },
+  { name: 'ТипЗнч', nameEn: 'TypeOf', syntax: 'ТипЗнч(<Значение>)', returns: 'Тип', description: 'Тип значения; сравнивается с Тип("…").' },
+  { name: 'Тип', nameEn: 'Type', syntax: 'Тип(<ИмяТипа>)', returns: 'Тип', description: 'Тип по имени, например Тип("СправочникСсылка.Номенклатура").' },
+  { name: 'ЗаполнитьЗначенияСвойств', nameEn: 'FillPropertyValues', syntax: 'ЗаполнитьЗначенияСвойств(<Приемник>, <Источник>, <СписокСвойств>, <ИсключаяСвойства>)', description: 'Копирует значения одноимённых свойств из источника в приемник.' },
+  { name: 'XMLСтрока', nameEn: 'XMLString', syntax: 'XMLСтрока(<Значение>)', returns: 'Строка', description: 'Строковое XML-представление значения (для ссылки — уникальный идентификатор).' },
+  { name: 'XMLЗначение', nameEn: 'XMLValue', syntax: 'XMLЗначение(<Тип>, <Строка>)', returns: 'Произвольный', description: 'Значение типа по его XML-представлению.' },
+  // JSON and binary data
+  { name: 'ПрочитатьJSON', nameEn: 'ReadJSON', syntax: 'ПрочитатьJSON(<ЧтениеJSON>, <ПрочитатьВСоответствие>, <ИменаСвойствСоЗначениямиДата>, <ОжидаемыйФорматДаты>, <ИмяФункцииВосстановления>, <МодульФункцииВосстановления>)', returns: 'Произвольный', description: 'Читает значение из JSON: объекты становятся Структурой или Соответствием, массивы — Массивом.', since: '8.3.6' },
+  { name: 'ЗаписатьJSON', nameEn: 'WriteJSON', syntax: 'ЗаписатьJSON(<ЗаписьJSON>, <Значение>, <НастройкиСериализации>, <ИмяФункцииПреобразования>, <МодульФункцииПреобразования>)', description: 'Записывает Структуру, Соответствие, Массив или примитивное значение в JSON.', since: '8.3.6' },
+  { name: 'ПолучитьДвоичныеДанныеИзСтроки', nameEn: 'GetBinaryDataFromString', syntax: 'ПолучитьДвоичныеДанныеИзСтроки(<Строка>, <Кодировка>, <ИспользоватьBOM>)', returns: 'ДвоичныеДанные', description: 'Двоичные данные строки в указанной кодировке (по умолчанию UTF-8).', since: '8.3.9' },
+  { name: 'ПолучитьСтрокуИзДвоичныхДанных', nameEn: 'GetStringFromBinaryData', syntax: 'ПолучитьСтрокуИзДвоичныхДанных(<ДвоичныеДанные>, <Кодировка>)', returns: 'Строка', description: 'Строка из двоичных данных в указанной кодировке.', since: '8.3.9' },
+  { name: 'ПолучитьBase64СтрокуИзДвоичныхДанных', nameEn: 'GetBase64StringFromBinaryData', syntax: 'ПолучитьBase64СтрокуИзДвоичныхДанных(<ДвоичныеДанные>)', returns: 'Строка', description: 'Base64-представление двоичных данных без переносов строк.', since: '8.3.9' },
+  { name: 'ПолучитьДвоичныеДанныеИзBase64Строки', nameEn: 'GetBinaryDataFromBase64String', syntax: 'ПолучитьДвоичныеДанныеИзBase64Строки(<Строка>)', returns: 'ДвоичныеДанные', description: 'Двоичные данные из Base64-строки.', since: '8.3.9' },
+  { name: 'Base64Строка', nameEn: 'Base64String', syntax: 'Base64Строка(<ДвоичныеДанные>)', returns: 'Строка', description: 'Base64-представление двоичных данных; строка разбита переносами по 76 символов.' },
+  // Asynchronous dialogs
+  { name: 'ВопросАсинх', nameEn: 'DoQueryBoxAsync', syntax: 'ВопросАсинх(<ТекстВопроса>, <Кнопки>, <Таймаут>, <КнопкаПоУмолчанию>, <Заголовок>, <КнопкаТаймаута>)', returns: 'Обещание', description: 'Вопрос пользователю; результат получают через Ждать в асинхронной процедуре.', since: '8.3.18', availability: ['client'] },
+  { name: 'ПредупреждениеАсинх', nameEn: 'DoMessageBoxAsync', syntax: 'ПредупреждениеАсинх(<ТекстПредупреждения>, <Таймаут>, <Заголовок>)', returns: 'Обещание', description: 'Окно предупреждения; завершение ожидают через Ждать.', since: '8.3.18', availability: ['client'] },
+  { name: 'ПоместитьФайлНаСерверАсинх', nameEn: 'PutFileToServerAsync', syntax: 'ПоместитьФайлНаСерверАсинх(<ПараметрыДиалога>, <ОписаниеОповещенияОХодеВыполнения>, <ОписаниеОповещенияПередНачалом>, <Адрес>, <ИдентификаторФормы>)', returns: 'Обещание', description: 'Выбор файла пользователем и передача его во временное хранилище.', since: '8.3.18', availability: ['client'] },
+  { name: 'НачатьПомещениеФайлаНаСервер', nameEn: 'BeginPutFileToServer', syntax: 'НачатьПомещениеФайлаНаСервер(<ОписаниеОповещенияОЗавершении>, <ОписаниеОповещенияОХодеВыполнения>, <ОписаниеОповещенияПередНачалом>, <Адрес>, <ПараметрыДиалога>, <ИдентификаторФормы>)', description: 'Асинхронная передача файла во временное хранилище с обработчиком оповещения.', since: '8.3.13', availability: ['client'] },
+  // Messages, errors, transactions
+  { name: 'Сообщить', nameEn: 'Message', syntax: 'Сообщить(<ТекстСообщения>, <Статус>)', description: 'Выводит сообщение пользователю. В новом коде используют объект СообщениеПользователю.' },
+  { name: 'ПоказатьПредупреждение', nameEn: 'ShowMessageBox', syntax: 'ПоказатьПредупреждение(<ОписаниеОповещенияОЗавершении>, <ТекстПредупреждения>, <Таймаут>, <Заголовок>)', description: 'Немодальное окно предупреждения.', availability: ['client'] },
+  { name: 'ПоказатьВопрос', nameEn: 'ShowQueryBox', syntax: 'ПоказатьВопрос(<ОписаниеОповещенияОЗавершении>, <ТекстВопроса>, <Кнопки>, <Таймаут>, <КнопкаПоУмолчанию>, <Заголовок>, <КнопкаТаймаута>)', description: 'Немодальный вопрос пользователю; ответ передаётся в обработчик оповещения.', availability: ['client'] },
+  { name: 'ИнформацияОбОшибке', nameEn: 'ErrorInfo', syntax: 'ИнформацияОбОшибке()', returns: 'ИнформацияОбОшибке', description: 'Сведения об исключении внутри блока Исключение.' },
+  { name: 'ПодробноеПредставлениеОшибки', nameEn: 'DetailErrorDescription', syntax: 'ПодробноеПредставлениеОшибки(<ИнформацияОбОшибке>)', returns: 'Строка', description: 'Текст ошибки со стеком вызовов, для журнала регистрации.' },
+  { name: 'КраткоеПредставлениеОшибки', nameEn: 'BriefErrorDescription', syntax: 'КраткоеПредставлениеОшибки(<ИнформацияОбОшибке>)', returns: 'Строка', description: 'Текст ошибки для пользователя. С 8.3.17 вместо неё рекомендуется ОбработкаОшибок.КраткоеПредставлениеОшибки().' },
+  { name: 'ЗаписьЖурналаРегистрации', nameEn: 'WriteLogEvent', syntax: 'ЗаписьЖурналаРегистрации(<ИмяСобытия>, <Уровень>, <ОбъектМетаданных>, <Данные>, <Комментарий>, <РежимТранзакции>)', description: 'Добавляет запись в журнал регистрации.', availability: ['server'] },
+  { name: 'НачатьТранзакцию', nameEn: 'BeginTransaction', syntax: 'НачатьТранзакцию(<РежимБлокировки>)', description: 'Открывает транзакцию; каждой должна соответствовать ЗафиксироватьТранзакцию или ОтменитьТранзакцию.', availability: ['server'] },
+  { name: 'ЗафиксироватьТранзакцию', nameEn: 'CommitTransaction', syntax: 'ЗафиксироватьТранзакцию()', description: 'Фиксирует текущую транзакцию.', availability: ['server'] },
+  { name: 'ОтменитьТранзакцию', nameEn: 'RollbackTransaction', syntax: 'ОтменитьТранзакцию()', description: 'Отменяет текущую транзакцию.', availability: ['server'] },
+  { name: 'ТранзакцияАктивна', nameEn: 'TransactionActive', syntax: 'ТранзакцияАктивна()', returns: 'Булево', description: 'Истина, если открыта транзакция.' },
+  // Environment
+  { name: 'ПользователиИнформационнойБазы', nameEn: 'InfoBaseUsers', syntax: 'ПользователиИнформационнойБазы.ТекущийПользователь()', returns: 'ПользовательИнформационнойБазы', description: 'Менеджер пользователей информационной базы (свойство глобального контекста).', availability: ['server'] },
+  { name: 'ПривилегированныйРежим', nameEn: 'PrivilegedMode', syntax: 'ПривилегированныйРежим()', returns: 'Булево', description: 'Истина, если установлен привилегированный режим.' },
+  { name: 'УстановитьПривилегированныйРежим', nameEn: 'SetPrivilegedMode', syntax: 'УстановитьПривилегированныйРежим(<Включить>)', description: 'Включает или выключает привилегированный режим.', availability: ['server'] },
+  { name: 'ПолучитьОбщийМакет', nameEn: 'GetCommonTemplate', syntax: 'ПолучитьОбщийМакет(<ОбъектМетаданныхИлиИмя>)', returns: 'Произвольный', description: 'Общий макет конфигурации.', availability: ['server'] },
+  { name: 'ПолучитьИмяВременногоФайла', nameEn: 'GetTempFileName', syntax: 'ПолучитьИмяВременногоФайла(<Расширение>)', returns: 'Строка', description: 'Уникальное имя файла во временном каталоге.' },
+  { name: 'ПоместитьВоВременноеХранилище', nameEn: 'PutToTempStorage', syntax: 'ПоместитьВоВременноеХранилище(<Данные>, <Адрес>)', returns: 'Строка', description: 'Сохраняет данные во временном хранилище и возвращает адрес.' },
+  { name: 'ПолучитьИзВременногоХранилища', nameEn: 'GetFromTempStorage', syntax: 'ПолучитьИзВременногоХранилища(<Адрес>)', returns: 'Произвольный', description: 'Данные из временного хранилища по адресу.' }
+];
+
+export const PLATFORM_TYPES: PlatformType[] = [
+  {
+    name: 'Массив', nameEn: 'Array', constructorSyntax: 'Новый Массив(<КоличествоЭлементов1>, ..., <КоличествоЭлементовN>)',
+    description: 'Упорядоченная коллекция значений, индексы с 0.',
+    members: [
+      { name: 'Добавить', nameEn: 'Add', kind: 'method', syntax: 'Добавить(<Значение>)', description: 'Добавляет элемент в конец.' },
+      { name: 'Вставить', nameEn: 'Insert', kind: 'method', syntax: 'Вставить(<Индекс>, <Значение>)', description: 'Вставляет элемент по индексу.' },
+      { name: 'Количество', nameEn: 'Count', kind: 'method', syntax: 'Количество()', returns: 'Число', description: 'Количество элементов.' },
+      { name: 'ВГраница', nameEn: 'UBound', kind: 'method', syntax: 'ВГраница()', returns: 'Число', description: 'Наибольший индекс; -1 для пустого массива.' },
+      { name: 'Найти', nameEn: 'Find', kind: 'method', syntax: 'Найти(<Значение>)', returns: 'Число, Неопределено', description: 'Индекс первого вхождения значения.' },
+      { name: 'Удалить', nameEn: 'Delete', kind: 'method', syntax: 'Удалить(<Индекс>)', description: 'Удаляет элемент по индексу.' },
+      { name: 'Очистить', nameEn: 'Clear', kind: 'method', syntax: 'Очистить()', description: 'Удаляет все элементы.' },
+      { name: 'Получить', nameEn: 'Get', kind: 'method', syntax: 'Получить(<Индекс>)', returns: 'Произвольный', description: 'Элемент по индексу.' },
+      { name: 'Установить', nameEn: 'Set', kind: 'method', syntax: 'Установить(<Индекс>, <Значение>)', description: 'Заменяет элемент по индексу.' }
+    ]
+  },
+  {
+    name: 'Структура', nameEn: 'Structure', constructorSyntax: 'Новый Структура(<Ключи>, <Значение1>, ..., <ЗначениеN>)',
+    description: 'Коллекция пар ключ-значение; ключи — строки, допустимые как идентификаторы.',
+    members: [
+      { name: 'Вставить', nameEn: 'Insert', kind: 'method', syntax: 'Вставить(<Ключ>, <Значение>)', description: 'Добавляет или заменяет значение по ключу.' },
+      { name: 'Свойство', nameEn: 'Property', kind: 'method', syntax: 'Свойство(<Ключ>, <НайденноеЗначение>)', returns: 'Булево', description: 'Проверяет наличие ключа и возвращает значение во второй параметр.' },
+      { name: 'Удалить', nameEn: 'Delete', kind: 'method', syntax: 'Удалить(<Ключ>)', description: 'Удаляет элемент по ключу.' },
+      { name: 'Количество', nameEn: 'Count', kind: 'method', syntax: 'Количество()', returns: 'Число', description: 'Количество элементов.' },
+      { name: 'Очистить', nameEn: 'Clear', kind: 'method', syntax: 'Очистить()', description: 'Удаляет все элементы.' }
+    ]
+  },
+  {
+    name: 'Соответствие', nameEn: 'Map', constructorSyntax: 'Новый Соответствие(<ФиксированноеСоответствие>)',
+    description: 'Коллекция пар ключ-значение с ключами любого типа.',
+    members: [
+      { name: 'Вставить', nameEn: 'Insert', kind: 'method', syntax: 'Вставить(<Ключ>, <Значение>)', description: 'Добавляет или заменяет значение по ключу.' },
+      { name: 'Получить', nameEn: 'Get', kind: 'method', syntax: 'Получить(<Ключ>)', returns: 'Произвольный', description: 'Значение по ключу; Неопределено, если ключа нет.' },
+      { name: 'Удалить', nameEn: 'Delete', kind: 'method', syntax: 'Удалить(<Ключ>)', description: 'Удаляет элемент по ключу.' },
+      { name: 'Количество', nameEn: 'Count', kind: 'method', syntax: 'Количество()', returns: 'Число', description: 'Количество элементов.' },
+      { name: 'Очистить', nameEn: 'Clear', kind: 'method', syntax: 'Очистить()', description: 'Удаляет все элементы.' }
+    ]
+  },
+  {
+    name: 'СписокЗначений', nameEn: 'ValueList', constructorSyntax: 'Новый СписокЗначений',
+    description: 'Список значений с представлениями и пометками; используется в формах для выбора.',
+    members: [
+      { name: 'Добавить', nameEn: 'Add', kind: 'method', syntax: 'Добавить(<Значение>, <Представление>, <Пометка>, <Картинка>)', returns: 'ЭлементСпискаЗначений', description: 'Добавляет элемент в конец списка.' },
+      { name: 'НайтиПоЗначению', nameEn: 'FindByValue', kind: 'method', syntax: 'НайтиПоЗначению(<ИскомоеЗначение>)', returns: 'ЭлементСпискаЗначений, Неопределено', description: 'Первый элемент с указанным значением.' },
+      { name: 'ВыгрузитьЗначения', nameEn: 'UnloadValues', kind: 'method', syntax: 'ВыгрузитьЗначения()', returns: 'Массив', description: 'Массив значений элементов.' },
+      { name: 'ЗагрузитьЗначения', nameEn: 'LoadValues', kind: 'method', syntax: 'ЗагрузитьЗначения(<МассивЗначений>)', description: 'Заменяет элементы значениями из массива.' },
+      { name: 'СортироватьПоЗначению', nameEn: 'SortByValue', kind: 'method', syntax: 'СортироватьПоЗначению(<Направление>)', description: 'Сортирует элементы по значению.' },
+      { name: 'Количество', nameEn: 'Count', kind: 'method', syntax: 'Количество()', returns: 'Число', description: 'Количество элементов.' }
+    ]
+  },
+  {
+    name: 'ТаблицаЗначений', nameEn: 'ValueTable', constructorSyntax: 'Новый ТаблицаЗначений',
+    description: 'Таблица в памяти с колонками и строками.', availability: ['server'],
+    members: [
+      { name: 'Колонки', nameEn: 'Columns', kind: 'property', returns: 'КоллекцияКолонокТаблицыЗначений', description: 'Колонки таблицы; Колонки.Добавить(<Имя>, <Тип>, <Заголовок>).' },
+      { name: 'Добавить', nameEn: 'Add', kind: 'method', syntax: 'Добавить()', returns: 'СтрокаТаблицыЗначений', description: 'Добавляет пустую строку в конец.' },
+      { name: 'Количество', nameEn: 'Count', kind: 'method', syntax: 'Количество()', returns: 'Число', description: 'Количество строк.' },
+      { name: 'Найти', nameEn: 'Find', kind: 'method', syntax: 'Найти(<Значение>, <Колонки>)', returns: 'СтрокаТаблицыЗначений, Неопределено', description: 'Первая строка, в которой найдено значение.' },
+      { name: 'НайтиСтроки', nameEn: 'FindRows', kind: 'method', syntax: 'НайтиСтроки(<ПараметрыОтбора>)', returns: 'Массив', description: 'Строки, подходящие под отбор-структуру.' },
+      { name: 'Свернуть', nameEn: 'GroupBy', kind: 'method', syntax: 'Свернуть(<КолонкиГруппировок>, <КолонкиСуммирования>)', description: 'Группирует строки и суммирует колонки.' },
+      { name: 'Сортировать', nameEn: 'Sort', kind: 'method', syntax: 'Сортировать(<Колонки>, <ОбъектСравнения>)', description: 'Сортирует строки, например "Дата Убыв, Сумма".' },
+      { name: 'ВыгрузитьКолонку', nameEn: 'UnloadColumn', kind: 'method', syntax: 'ВыгрузитьКолонку(<Колонка>)', returns: 'Массив', description: 'Значения колонки.' },
+      { name: 'ЗагрузитьКолонку', nameEn: 'LoadColumn', kind: 'method', syntax: 'ЗагрузитьКолонку(<Массив>, <Колонка>)', description: 'Заполняет колонку значениями массива.' },
+      { name: 'Итог', nameEn: 'Total', kind: 'method', syntax: 'Итог(<Колонка>)', returns: 'Число', description: 'Сумма значений колонки.' },
+      { name: 'Скопировать', nameEn: 'Copy', kind: 'method', syntax: 'Скопировать(<Строки>, <Колонки>)', returns: 'ТаблицаЗначений', description: 'Копия таблицы или её части.' }
+    ]
+  },
+  {
+    name: 'Запрос', nameEn: 'Query', constructorSyntax: 'Новый Запрос(<ТекстЗапроса>)',
+    description: 'Запрос к базе данных на языке запросов.', availability: ['server'],
+    members: [
+      { name: 'Текст', nameEn: 'Text', kind: 'property', returns: 'Строка', description: 'Текст запроса.' },
+      { name: 'МенеджерВременныхТаблиц', nameEn: 'TempTablesManager', kind: 'property', returns: 'МенеджерВременныхТаблиц', description: 'Менеджер, в котором создаются временные таблицы запроса.' },
+      { name: 'УстановитьПараметр', nameEn: 'SetParameter', kind: 'method', syntax: 'УстановитьПараметр(<Имя>, <Значение>)', description: 'Значение параметра &Имя.' },
+      { name: 'Выполнить', nameEn: 'Execute', kind: 'method', syntax: 'Выполнить()', returns: 'РезультатЗапроса', description: 'Выполняет запрос; для пакета — результат последнего запроса.' },
+      { name: 'ВыполнитьПакет', nameEn: 'ExecuteBatch', kind: 'method', syntax: 'ВыполнитьПакет()', returns: 'Массив', description: 'Результаты всех запросов пакета.' }
+    ]
+  },
+  {
+    name: 'РезультатЗапроса', nameEn: 'QueryResult',
+    description: 'Результат выполнения запроса.', availability: ['server'],
+    members: [
+      { name: 'Пустой', nameEn: 'IsEmpty', kind: 'method', syntax: 'Пустой()', returns: 'Булево', description: 'Истина, если в результате нет строк.' },
+      { name: 'Выбрать', nameEn: 'Select', kind: 'method', syntax: 'Выбрать(<ТипОбхода>, <Группировки>, <ГруппировкиДляЗначенийГруппировок>)', returns: 'ВыборкаИзРезультатаЗапроса', description: 'Выборка для обхода в цикле Пока Выборка.Следующий().' },
+      { name: 'Выгрузить', nameEn: 'Unload', kind: 'method', syntax: 'Выгрузить(<ТипОбхода>)', returns: 'ТаблицаЗначений, ДеревоЗначений', description: 'Результат целиком в таблицу или дерево значений.' }
+    ]
+  },
+  {
+    name: 'ВыборкаИзРезультатаЗапроса', nameEn: 'QueryResultSelection',
+    description: 'Последовательный обход результата запроса.', availability: ['server'],
+    members: [
+      { name: 'Следующий', nameEn: 'Next', kind: 'method', syntax: 'Следующий()', returns: 'Булево', description: 'Переходит к следующей записи; Ложь, когда записи закончились.' },
+      { name: 'НайтиСледующий', nameEn: 'FindNext', kind: 'method', syntax: 'НайтиСледующий(<Отбор>)', returns: 'Булево', description: 'Переходит к следующей записи с указанными значениями полей.' },
+      { name: 'Количество', nameEn: 'Count', kind: 'method', syntax: 'Количество()', returns: 'Число', description: 'Количество записей в выборке.' }
+    ]
+  },
+  {
+    name: 'СообщениеПользователю', nameEn: 'UserMessage', constructorSyntax: 'Новый СообщениеПользователю',
+    description: 'Сообщение, привязанное к полю формы или реквизиту объекта.',
+    members: [
+      { name: 'Текст', nameEn: 'Text', kind: 'property', returns: 'Строка', description: 'Текст сообщения.' },
+      { name: 'Поле', nameEn: 'Field', kind: 'property', returns: 'Строка', description: 'Путь к реквизиту, например "Товары[0].Количество".' },
+      { name: 'ПутьКДанным', nameEn: 'DataPath', kind: 'property', returns: 'Строка', description: 'Путь к данным формы, например "Объект".' },
+      { name: 'УстановитьДанные', nameEn: 'SetData', kind: 'method', syntax: 'УстановитьДанные(<Объект>)', description: 'Связывает сообщение с объектом на сервере.' },
+      { name: 'Сообщить', nameEn: 'Message', kind: 'method', syntax: 'Сообщить()', description: 'Выводит сообщение.' }
+    ]
+  },
+  {
+    name: 'ОписаниеОповещения', nameEn: 'NotifyDescription', constructorSyntax: 'Новый ОписаниеОповещения(<ИмяПроцедуры>, <Модуль>, <ДополнительныеПараметры>, <ИмяПроцедурыОбработкиОшибки>, <МодульОбработкиОшибки>)',
+    description: 'Обработчик, который вызывается после закрытия немодального окна.', availability: ['client'],
+    members: [
+      { name: 'ИмяПроцедуры', nameEn: 'ProcedureName', kind: 'property', returns: 'Строка', description: 'Имя экспортной процедуры-обработчика.' },
+      { name: 'ДополнительныеПараметры', nameEn: 'AdditionalParameters', kind: 'property', returns: 'Произвольный', description: 'Передаются обработчику вторым параметром.' }
+    ]
+  },
+  {
+    name: 'Обещание', nameEn: 'Promise',
+    description: 'Результат асинхронного метода; значение получают через Ждать внутри Асинх-метода.', since: '8.3.18', availability: ['client'],
+    members: []
+  },
+  {
+    name: 'ЧтениеJSON', nameEn: 'JSONReader', constructorSyntax: 'Новый ЧтениеJSON',
+    description: 'Последовательное чтение JSON.', since: '8.3.6',
+    members: [
+      { name: 'ОткрытьФайл', nameEn: 'OpenFile', kind: 'method', syntax: 'ОткрытьФайл(<ИмяФайла>, <Кодировка>, <ДополнительныеСимволыПропуска>, <ПараметрыЧтения>)', description: 'Открывает файл для чтения.' },
+      { name: 'УстановитьСтроку', nameEn: 'SetString', kind: 'method', syntax: 'УстановитьСтроку(<Строка>, <ПараметрыЧтения>)', description: 'Читает JSON из строки.' },
+      { name: 'Прочитать', nameEn: 'Read', kind: 'method', syntax: 'Прочитать()', returns: 'Булево', description: 'Переходит к следующему элементу.' },
+      { name: 'Закрыть', nameEn: 'Close', kind: 'method', syntax: 'Закрыть()', description: 'Завершает чтение.' }
+    ]
+  },
+  {
+    name: 'ЗаписьJSON', nameEn: 'JSONWriter', constructorSyntax: 'Новый ЗаписьJSON',
+    description: 'Последовательная запись JSON.', since: '8.3.6',
+    members: [
+      { name: 'ОткрытьФайл', nameEn: 'OpenFile', kind: 'method', syntax: 'ОткрытьФайл(<ИмяФайла>, <Кодировка>, <ЗаписыватьBOM>, <ПараметрыЗаписи>)', description: 'Открывает файл для записи.' },
+      { name: 'УстановитьСтроку', nameEn: 'SetString', kind: 'method', syntax: 'УстановитьСтроку(<ПараметрыЗаписи>)', description: 'Запись в строку; результат возвращает Закрыть().' },
+      { name: 'Закрыть', nameEn: 'Close', kind: 'method', syntax: 'Закрыть()', returns: 'Строка', description: 'Завершает запись; при записи в строку возвращает результат.' }
+    ]
+  },
+  {
+    name: 'ЧтениеXML', nameEn: 'XMLReader', constructorSyntax: 'Новый ЧтениеXML',
+    description: 'Последовательное чтение XML.',
+    members: [
+      { name: 'ОткрытьФайл', nameEn: 'OpenFile', kind: 'method', syntax: 'ОткрытьФайл(<ИмяФайла>, <ПараметрыЧтения>, <НаборСхем>)', description: 'Открывает файл для чтения.' },
+      { name: 'УстановитьСтроку', nameEn: 'SetString', kind: 'method', syntax: 'УстановитьСтроку(<Строка>, <ПараметрыЧтения>, <НаборСхем>)', description: 'Читает XML из строки.' },
+      { name: 'Прочитать', nameEn: 'Read', kind: 'method', syntax: 'Прочитать()', returns: 'Булево', description: 'Переходит к следующему узлу.' },
+      { name: 'Закрыть', nameEn: 'Close', kind: 'method', syntax: 'Закрыть()', description: 'Завершает чтение.' }
+    ]
+  },
+  {
+    name: 'HTTPСоединение', nameEn: 'HTTPConnection', constructorSyntax: 'Новый HTTPСоединение(<Сервер>, <Порт>, <Пользователь>, <Пароль>, <Прокси>, <Таймаут>, <ЗащищенноеСоединение>, <ИспользоватьАутентификациюОС>)',
+    description: 'Соединение с HTTP-сервером.',
+    members: [
+      { name: 'Получить', nameEn: 'Get', kind: 'method', syntax: 'Получить(<HTTPЗапрос>, <ИмяВыходногоФайла>)', returns: 'HTTPОтвет', description: 'GET-запрос.' },
+      { name: 'ОтправитьДляОбработки', nameEn: 'Post', kind: 'method', syntax: 'ОтправитьДляОбработки(<HTTPЗапрос>, <ИмяВыходногоФайла>)', returns: 'HTTPОтвет', description: 'POST-запрос.' },
+      { name: 'ВызватьHTTPМетод', nameEn: 'CallHTTPMethod', kind: 'method', syntax: 'ВызватьHTTPМетод(<HTTPМетод>, <HTTPЗапрос>, <ИмяВыходногоФайла>)', returns: 'HTTPОтвет', description: 'Запрос с произвольным методом, например "PATCH".' }
+    ]
+  },
+  {
+    name: 'HTTPЗапрос', nameEn: 'HTTPRequest', constructorSyntax: 'Новый HTTPЗапрос(<АдресРесурса>, <Заголовки>)',
+    description: 'Описание HTTP-запроса.',
+    members: [
+      { name: 'АдресРесурса', nameEn: 'ResourceAddress', kind: 'property', returns: 'Строка', description: 'Путь и параметры запроса без имени сервера.' },
+      { name: 'Заголовки', nameEn: 'Headers', kind: 'property', returns: 'Соответствие', description: 'HTTP-заголовки запроса.' },
+      { name: 'УстановитьТелоИзСтроки', nameEn: 'SetBodyFromString', kind: 'method', syntax: 'УстановитьТелоИзСтроки(<Строка>, <Кодировка>, <ИспользованиеByteOrderMark>)', description: 'Тело запроса из строки.' },
+      { name: 'УстановитьТелоИзДвоичныхДанных', nameEn: 'SetBodyFromBinaryData', kind: 'method', syntax: 'УстановитьТелоИзДвоичныхДанных(<ДвоичныеДанные>)', description: 'Тело запроса из двоичных данных.' }
+    ]
+  },
+  {
+    name: 'ДвоичныеДанные', nameEn: 'BinaryData', constructorSyntax: 'Новый ДвоичныеДанные(<ИмяФайла>)',
+    description: 'Двоичные данные файла или потока.',
+    members: [
+      { name: 'Размер', nameEn: 'Size', kind: 'method', syntax: 'Размер()', returns: 'Число', description: 'Размер в байтах.' },
+      { name: 'Записать', nameEn: 'Write', kind: 'method', syntax: 'Записать(<ИмяФайла>)', description: 'Записывает данные в файл.' },
+      { name: 'ОткрытьПотокДляЧтения', nameEn: 'OpenStreamForRead', kind: 'method', syntax: 'ОткрытьПотокДляЧтения()', returns: 'Поток', description: 'Поток для чтения данных.', since: '8.3.9' }
+    ]
+  },
+  {
+    name: 'ПотокВПамяти', nameEn: 'MemoryStream', constructorSyntax: 'Новый ПотокВПамяти(<НачальнаяЕмкость>)',
+    description: 'Поток данных в оперативной памяти.', since: '8.3.9',
+    members: [
+      { name: 'ЗакрытьИПолучитьДвоичныеДанные', nameEn: 'CloseAndGetBinaryData', kind: 'method', syntax: 'ЗакрытьИПолучитьДвоичныеДанные()', returns: 'ДвоичныеДанные', description: 'Закрывает поток и возвращает записанные данные.' }
+    ]
+  },
+  {
+    name: 'ТекстовыйДокумент', nameEn: 'TextDocument', constructorSyntax: 'Новый ТекстовыйДокумент',
+    description: 'Многострочный текст с чтением и записью файлов.',
+    members: [
+      { name: 'ДобавитьСтроку', nameEn: 'AddLine', kind: 'method', syntax: 'ДобавитьСтроку(<Строка>)', description: 'Добавляет строку в конец.' },
+      { name: 'ПолучитьТекст', nameEn: 'GetText', kind: 'method', syntax: 'ПолучитьТекст()', returns: 'Строка', description: 'Весь текст документа.' },
+      { name: 'УстановитьТекст', nameEn: 'SetText', kind: 'method', syntax: 'УстановитьТекст(<Текст>)', description: 'Заменяет текст документа.' },
+      { name: 'Прочитать', nameEn: 'Read', kind: 'method', syntax: 'Прочитать(<ИмяФайла>, <Кодировка>, <РазделительСтрок>)', description: 'Читает файл.' },
+      { name: 'Записать', nameEn: 'Write', kind: 'method', syntax: 'Записать(<ИмяФайла>, <Кодировка>, <РазделительСтрок>)', description: 'Записывает файл.' }
+    ]
+  }
+];
+
+const METHODS_BY_NAME = new Map(
+  GLOBAL_METHODS.flatMap(method => [[method.name.toLowerCase(), method], [method.nameEn.toLowerCase(), method]] as [string, GlobalMethod][])
+);
+
+export const findGlobalMethod = (name: string): GlobalMethod | undefined =>
+  METHODS_BY_NAME.get(name.trim().replace(/\(.*$/, '').toLowerCase());
@@ -0,0 +1,21 @@
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { refractor } from 'refractor/all';
+import { bslLanguage, sdblLanguage } from './bslGrammar';
+
+// The full Prism build highlights every language refractor ships; it has no grammar for the 1C query
+// language and only a minimal one for BSL. register() keeps an existing grammar, so ours are applied
+// to the same refractor instance directly and replace it.
+[sdblLanguage, bslLanguage].forEach(language => language(refractor));
+
+// Fence tags that models commonly use, normalized so that callers can compare language names
+const FENCE_ALIASES: Record<string, string> = {
+  sh: 'bash', shell: 'bash', cmd: 'batch', bat: 'batch', cs: 'csharp', js: 'javascript', ts: 'typescript',
+  html: 'markup', xml: 'markup', py: 'python', yml: 'yaml', ps1: 'powershell'
+};
+
+export const resolveLanguage = (language: string): string => {
+  const normalized = language.toLowerCase();
+  return FENCE_ALIASES[normalized] || normalized;
+};
+
+export default SyntaxHighlighter;
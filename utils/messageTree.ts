@@ -0,0 +1,80 @@
+import { ChatSession, Message } from '../types';
+
+// Messages of a session form a tree through `parentId`; `branchSelection` remembers which
+// child is shown under each parent. The conversation sent to the model is the selected path.
+
+export const ROOT_BRANCH_KEY = 'root';
+
+const branchKey = (parentId?: string | null): string => parentId || ROOT_BRANCH_KEY;
+
+const groupByParent = (messages: Message[]): Map<string, Message[]> => {
+  const children = new Map<string, Message[]>();
+  messages.forEach(msg => {
+    const key = branchKey(msg.parentId);
+    const list = children.get(key);
+    if (list) list.push(msg); else children.set(key, [msg]);
+  });
+  return children;
+};
+
+export const getActivePath = (session: ChatSession): Message[] => {
+  const children = groupByParent(session.messages);
+  const path: Message[] = [];
+  let key = ROOT_BRANCH_KEY;
+
+  while (true) {
+    const options = children.get(key);
+    if (!options || options.length === 0) break;
+    const selectedId = session.branchSelection?.[key];
+    // Without an explicit choice the newest alternative wins
+    const next = options.find(m => m.id === selectedId) || options[options.length - 1];
+    path.push(next);
+    key = next.id;
+  }
+
+  return path;
+};
+
+export const getSiblings = (session: ChatSession, message: Message): Message[] =>
+  session.messages.filter(m => branchKey(m.parentId) === branchKey(message.parentId));
+
+// Appends a chain of messages under `parentId` and makes it the selected branch
+export const appendMessages = (session: ChatSession, parentId: string | null, chain: Message[]): ChatSession => {
+  const branchSelection = { ...session.branchSelection };
+  let currentParent = parentId;
+  const linked = chain.map(msg => {
+    const withParent = { ...msg, parentId: currentParent };
+    branchSelection[branchKey(currentParent)] = msg.id;
+    currentParent = msg.id;
+    return withParent;
+  });
+
+  return {
+    ...session,
+    messages: [...session.messages, ...linked],
+    branchSelection
+  };
+};
+
+export const selectBranch = (session: ChatSession, messageId: string): ChatSession => {
+  const message = session.messages.find(m => m.id === messageId);
+  if (!message) return session;
+  return {
+    ...session,
+    branchSelection: { ...session.branchSelection, [branchKey(message.parentId)]: message.id }
+  };
+};
+
+// Selects every branch on the way to a message so that it becomes part of the active path
+export const revealMessage = (session: ChatSession, messageId: string): ChatSession => {
+  const byId = new Map(session.messages.map(m => [m.id, m]));
+  const branchSelection = { ...session.branchSelection };
+  let message = byId.get(messageId);
+  if (!message) return session;
+
+  while (message) {
+    branchSelection[branchKey(message.parentId)] = message.id;
+    message = message.parentId ? byId.get(message.parentId) : undefined;
+  }
+  return { ...session, branchSelection };
+};
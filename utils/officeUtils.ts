@@ -0,0 +1,195 @@
+import { AttachmentExtraction, OfficeFormat } from '../types';
+import { readZip, readZipText, ZipEntry } from './zipUtils';
+import { attr, byTag, childrenByTag, parseXml } from './xmlUtils';
+
+// Text extraction from OOXML (docx/xlsx/pptx) done locally: the model API does not accept these formats inline
+
+export const MAX_EXTRACTED_CHARS = 100_000;
+const MAX_SHEET_ROWS = 500;
+
+export const getOfficeFormat = (fileName: string): OfficeFormat | null => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.docx')) return 'docx';
+  if (name.endsWith('.xlsx')) return 'xlsx';
+  if (name.endsWith('.pptx')) return 'pptx';
+  return null;
+};
+
+// Pre-2007 binary Office formats cannot be read in the browser
+export const isLegacyOfficeFile = (fileName: string): boolean =>
+  /\.(doc|xls|ppt)$/i.test(fileName);
+
+const escapeCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ').trim();
+
+const toMarkdownTable = (rows: string[][]): string => {
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map(r => r.length));
+  const pad = (r: string[]) => Array.from({ length: width }, (_, i) => escapeCell(r[i] || ''));
+  const [header, ...body] = rows.map(pad);
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map(r => `| ${r.join(' | ')} |`)
+  ].join('\n');
+};
+
+// Resolves relationship ids (r:id) of a part to archive paths
+const readRelationships = async (entries: ZipEntry[], relsPath: string, baseDir: string): Promise<Map<string, string>> => {
+  const xml = await readZipText(entries, relsPath);
+  const map = new Map<string, string>();
+  if (!xml) return map;
+
+  byTag(parseXml(xml), 'Relationship').forEach(rel => {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (!id || !target) return;
+    map.set(id, target.startsWith('/') ? target.slice(1) : `${baseDir}/${target}`.replace(/[^/]+\/\.\.\//g, ''));
+  });
+  return map;
+};
+
+// --- Word ---
+
+const paragraphText = (p: Element): string => {
+  let text = '';
+  p.querySelectorAll('*').forEach(node => {
+    if (node.localName === 't') text += node.textContent || '';
+    else if (node.localName === 'tab') text += '\t';
+    else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+  });
+  return text;
+};
+
+const headingLevel = (p: Element): number => {
+  const style = byTag(p, 'pStyle')[0];
+  const value = style ? attr(style, 'val') || '' : '';
+  const match = /^(?:Heading|Заголовок)(\d)$/i.exec(value);
+  return match ? Number(match[1]) : 0;
+};
+
+const extractDocx = async (entries: ZipEntry[]) => {
+  const xml = await readZipText(entries, 'word/document.xml');
+  if (!xml) throw new Error('В документе нет word/document.xml');
+
+  const body = byTag(parseXml(xml), 'body')[0];
+  const blocks: string[] = [];
+  let paragraphs = 0;
+  let tables = 0;
+
+  Array.from(body?.children || []).forEach(node => {
+    if (node.localName === 'p') {
+      const text = paragraphText(node).trim();
+      if (!text) return;
+      const level = headingLevel(node);
+      blocks.push(level > 0 ? `${'#'.repeat(Math.min(level, 6))} ${text}` : text);
+      paragraphs++;
+    } else if (node.localName === 'tbl') {
+      const rows = childrenByTag(node, 'tr').map(tr =>
+        childrenByTag(tr, 'tc').map(tc => byTag(tc, 'p').map(paragraphText).join(' '))
+      );
+      blocks.push(toMarkdownTable(rows));
+      tables++;
+    }
+  });
+
+  return { text: blocks.join('\n\n'), details: `абзацев: ${paragraphs}, таблиц: ${tables}` };
+};
+
+// --- Excel ---
+
+const columnIndex = (cellRef: string): number => {
+  const letters = /^[A-Z]+/.exec(cellRef)?.[0] || 'A';
+  return letters.split('').reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+};
+
+const extractXlsx = async (entries: ZipEntry[]) => {
+  const workbookXml = await readZipText(entries, 'xl/workbook.xml');
+  if (!workbookXml) throw new Error('В книге нет xl/workbook.xml');
+
+  const relationships = await readRelationships(entries, 'xl/_rels/workbook.xml.rels', 'xl');
+  const sharedStringsXml = await readZipText(entries, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? byTag(parseXml(sharedStringsXml), 'si').map(si => byTag(si, 't').map(t => t.textContent || '').join(''))
+    : [];
+
+  const sections: string[] = [];
+  let truncatedSheets = 0;
+  const sheets = byTag(parseXml(workbookXml), 'sheet');
+
+  for (const sheet of sheets) {
+    const name = sheet.getAttribute('name') || 'Лист';
+    const path = relationships.get(attr(sheet, 'id') || '');
+    const sheetXml = path ? await readZipText(entries, path) : null;
+    if (!sheetXml) continue;
+
+    const rows: string[][] = [];
+    const rowElements = byTag(parseXml(sheetXml), 'row');
+    for (const row of rowElements.slice(0, MAX_SHEET_ROWS)) {
+      const cells: string[] = [];
+      childrenByTag(row, 'c').forEach(c => {
+        const type = c.getAttribute('t');
+        const raw = childrenByTag(c, 'v')[0]?.textContent || '';
+        let value = raw;
+        if (type === 's') value = sharedStrings[Number(raw)] || '';
+        else if (type === 'inlineStr') value = byTag(c, 't').map(t => t.textContent || '').join('');
+        else if (type === 'b') value = raw === '1' ? 'ИСТИНА' : 'ЛОЖЬ';
+        cells[columnIndex(c.getAttribute('r') || '')] = value;
+      });
+      if (cells.some(Boolean)) rows.push(Array.from(cells, v => v || ''));
+    }
+    if (rowElements.length > MAX_SHEET_ROWS) truncatedSheets++;
+
+    const note = rowElements.length > MAX_SHEET_ROWS ? `\n\n_(показаны первые ${MAX_SHEET_ROWS} из ${rowElements.length} строк)_` : '';
+    sections.push(`### Лист: ${name}\n\n${rows.length > 0 ? toMarkdownTable(rows) : '_(пустой лист)_'}${note}`);
+  }
+
+  const details = `листов: ${sheets.length}` + (truncatedSheets > 0 ? `, обрезано листов: ${truncatedSheets}` : '');
+  return { text: sections.join('\n\n'), details };
+};
+
+// --- PowerPoint ---
+
+const extractPptx = async (entries: ZipEntry[]) => {
+  const presentationXml = await readZipText(entries, 'ppt/presentation.xml');
+  if (!presentationXml) throw new Error('В презентации нет ppt/presentation.xml');
+
+  const relationships = await readRelationships(entries, 'ppt/_rels/presentation.xml.rels', 'ppt');
+  const slideIds = byTag(parseXml(presentationXml), 'sldId');
+  const sections: string[] = [];
+
+  for (let i = 0; i < slideIds.length; i++) {
+    const path = relationships.get(attr(slideIds[i], 'id') || '');
+    const slideXml = path ? await readZipText(entries, path) : null;
+    if (!slideXml) continue;
+
+    const lines = byTag(parseXml(slideXml), 'p')
+      .map(p => byTag(p, 't').map(t => t.textContent || '').join(''))
+      .filter(line => line.trim());
+    sections.push(`### Слайд ${i + 1}\n\n${lines.join('\n')}`);
+  }
+
+  return { text: sections.join('\n\n'), details: `слайдов: ${slideIds.length}` };
+};
+
+const EXTRACTORS: Record<OfficeFormat, (entries: ZipEntry[]) => Promise<{ text: string; details: string }>> = {
+  docx: extractDocx,
+  xlsx: extractXlsx,
+  pptx: extractPptx
+};
+
+// Full document text without the attachment size limit
+export const readOfficeText = async (format: OfficeFormat, data: ArrayBuffer): Promise<{ text: string; details: string }> =>
+  EXTRACTORS[format](await readZip(data));
+
+export const extractOfficeText = async (format: OfficeFormat, data: ArrayBuffer): Promise<AttachmentExtraction> => {
+  const { text, details } = await readOfficeText(format, data);
+  const truncated = text.length > MAX_EXTRACTED_CHARS;
+
+  return {
+    format,
+    text: truncated ? text.slice(0, MAX_EXTRACTED_CHARS) : text,
+    originalLength: text.length,
+    truncated,
+    details
+  };
+};
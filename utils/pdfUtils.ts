@@ -0,0 +1,458 @@
+// Best-effort text extraction from PDF built on the browser's DecompressionStream.
+// Handles FlateDecode streams, object streams and ToUnicode CMaps, which covers documents
+// exported from Word, LibreOffice and most report generators. Scans without a text layer yield nothing.
+
+interface PdfObject {
+  dict: string;
+  stream?: Uint8Array;
+}
+
+interface CMap {
+  codeBytes: number;
+  map: Map<number, string>;
+}
+
+const MAX_FORM_DEPTH = 3;
+
+type Operand =
+  | { type: 'string'; bytes: number[] }
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'array'; items: Operand[] };
+
+// Latin-1 view of the bytes; TextDecoder('latin1') is actually windows-1252 and remaps 0x80–0x9F
+const toBinaryString = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decodeStream = async (object: PdfObject): Promise<Uint8Array | null> => {
+  if (!object.stream) return null;
+  const filter = object.dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1];
+  if (!filter) return object.stream;
+  if (filter.replace(/[[\]\s]/g, '') !== '/FlateDecode') return null;
+  try {
+    return await inflate(object.stream);
+  } catch {
+    return null;
+  }
+};
+
+const readObjects = (bytes: Uint8Array, raw: string): Map<number, PdfObject> => {
+  const objects = new Map<number, PdfObject>();
+  const headerRegex = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = headerRegex.exec(raw))) {
+    const bodyStart = match.index + match[0].length;
+    const end = raw.indexOf('endobj', bodyStart);
+    if (end < 0) break;
+    const body = raw.slice(bodyStart, end);
+    const streamIndex = body.search(/\bstream\r?\n/);
+
+    if (streamIndex < 0) {
+      objects.set(Number(match[1]), { dict: body });
+    } else {
+      const dict = body.slice(0, streamIndex);
+      const dataStart = bodyStart + streamIndex + (body[streamIndex + 6] === '\r' ? 8 : 7);
+      const declaredLength = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/)?.[1];
+      const dataEnd = declaredLength
+        ? dataStart + Number(declaredLength)
+        : raw.lastIndexOf('endstream', end);
+      objects.set(Number(match[1]), { dict, stream: bytes.subarray(dataStart, dataEnd) });
+    }
+    headerRegex.lastIndex = end;
+  }
+
+  return objects;
+};
+
+// PDF 1.5+ packs dictionaries (fonts among them) into compressed object streams
+const unpackObjectStreams = async (objects: Map<number, PdfObject>) => {
+  for (const object of Array.from(objects.values())) {
+    if (!/\/Type\s*\/ObjStm/.test(object.dict)) continue;
+    const data = await decodeStream(object);
+    const first = Number(object.dict.match(/\/First\s+(\d+)/)?.[1]);
+    if (!data || !first) continue;
+
+    const text = toBinaryString(data);
+    const header = text.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i + 1 < header.length; i += 2) {
+      const start = first + header[i + 1];
+      const end = i + 3 < header.length ? first + header[i + 3] : text.length;
+      if (!objects.has(header[i])) objects.set(header[i], { dict: text.slice(start, end) });
+    }
+  }
+};
+
+const hexToNumber = (hex: string): number => parseInt(hex, 16);
+
+const utf16HexToString = (hex: string): string => {
+  const codes: number[] = [];
+  for (let i = 0; i + 4 <= hex.length; i += 4) codes.push(hexToNumber(hex.slice(i, i + 4)));
+  if (hex.length === 2) codes.push(hexToNumber(hex));
+  return String.fromCharCode(...codes);
+};
+
+const parseCMap = (text: string): CMap => {
+  const map = new Map<number, string>();
+  const codespace = text.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  const codeBytes = codespace ? Math.max(1, codespace[1].length / 2) : 2;
+
+  for (const block of text.match(/beginbfchar[\s\S]*?endbfchar/g) || []) {
+    for (const [, src, dst] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(hexToNumber(src), utf16HexToString(dst));
+    }
+  }
+  for (const block of text.match(/beginbfrange[\s\S]*?endbfrange/g) || []) {
+    for (const [, lo, hi, dst, list] of block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F]+)>|\[([^\]]*)\])/g)) {
+      const from = hexToNumber(lo);
+      const to = hexToNumber(hi);
+      if (list !== undefined) {
+        const targets = Array.from(list.matchAll(/<([0-9a-fA-F]*)>/g), m => utf16HexToString(m[1]));
+        targets.forEach((target, i) => map.set(from + i, target));
+      } else {
+        // The last UTF-16 unit is incremented across the range
+        const base = utf16HexToString(dst);
+        for (let code = from; code <= to && code - from < 0x10000; code++) {
+          const offset = code - from;
+          map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + offset));
+        }
+      }
+    }
+  }
+
+  return { codeBytes, map };
+};
+
+const refId = (text: string): number | undefined => {
+  const match = text.match(/^\s*(\d+)\s+\d+\s+R/);
+  return match ? Number(match[1]) : undefined;
+};
+
+const refIds = (text: string): number[] => Array.from(text.matchAll(/(\d+)\s+\d+\s+R/g), m => Number(m[1]));
+
+const balanced = (text: string, start: number, open: string, close: string): string => {
+  let depth = 0;
+  let i = start;
+  while (i < text.length) {
+    if (text.startsWith(open, i)) {
+      depth++;
+      i += open.length;
+    } else if (text.startsWith(close, i)) {
+      depth--;
+      i += close.length;
+      if (depth === 0) return text.slice(start, i);
+    } else {
+      i++;
+    }
+  }
+  return text.slice(start);
+};
+
+// Raw value of a dictionary key: an inline dictionary or array, a reference or a single token
+const rawValue = (dict: string, key: string): string | undefined => {
+  const match = new RegExp(`/${key}(?=[\\s/<\\[(\\d])\\s*`).exec(dict);
+  if (!match) return undefined;
+  const start = match.index + match[0].length;
+  if (dict.startsWith('<<', start)) return balanced(dict, start, '<<', '>>');
+  if (dict[start] === '[') return balanced(dict, start, '[', ']');
+  return dict.slice(start).match(/^(\d+\s+\d+\s+R|[^\s/<>[\]()]+)/)?.[0];
+};
+
+// Dictionary behind a key, following an indirect reference if needed
+const dictValue = (objects: Map<number, PdfObject>, dict: string, key: string): string | undefined => {
+  const value = rawValue(dict, key);
+  if (value === undefined) return undefined;
+  const id = refId(value);
+  return id !== undefined ? objects.get(id)?.dict : value;
+};
+
+interface PdfPage {
+  resources: string;
+  contents: number[];
+}
+
+const collectPages = (objects: Map<number, PdfObject>, raw: string): PdfPage[] => {
+  const rootRefs = Array.from(raw.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g));
+  const catalogId = rootRefs.length > 0
+    ? Number(rootRefs[rootRefs.length - 1][1])
+    : Array.from(objects.entries()).find(([, o]) => /\/Type\s*\/Catalog/.test(o.dict))?.[0];
+  const treeRoot = catalogId !== undefined ? refId(rawValue(objects.get(catalogId)?.dict || '', 'Pages') || '') : undefined;
+
+  const pages: PdfPage[] = [];
+  const visited = new Set<number>();
+  const walk = (id: number, inheritedResources: string) => {
+    const node = objects.get(id);
+    if (!node || visited.has(id)) return;
+    visited.add(id);
+    const resources = dictValue(objects, node.dict, 'Resources') || inheritedResources;
+    const kids = rawValue(node.dict, 'Kids');
+    if (kids) {
+      refIds(kids).forEach(kid => walk(kid, resources));
+    } else {
+      // Resources inherited from the page tree apply when the page has none of its own
+      pages.push({ resources, contents: refIds(rawValue(node.dict, 'Contents') || '') });
+    }
+  };
+  if (treeRoot !== undefined) walk(treeRoot, '');
+  return pages;
+};
+
+// Resource name (/F1) of every font in a resource dictionary -> its CMap.
+// Composite fonts without ToUnicode get an empty map: their glyph ids are not text.
+const createFontReader = (objects: Map<number, PdfObject>) => {
+  const cmapsByFont = new Map<number, CMap | undefined>();
+
+  const cmapOfFont = async (fontId: number): Promise<CMap | undefined> => {
+    if (cmapsByFont.has(fontId)) return cmapsByFont.get(fontId);
+    const font = objects.get(fontId)?.dict || '';
+    const toUnicode = refId(rawValue(font, 'ToUnicode') || '');
+    const data = toUnicode !== undefined ? await decodeStream(objects.get(toUnicode) || { dict: '' }) : null;
+    const cmap = data
+      ? parseCMap(toBinaryString(data))
+      : /\/Subtype\s*\/Type0/.test(font) ? { codeBytes: 2, map: new Map<number, string>() } : undefined;
+    cmapsByFont.set(fontId, cmap);
+    return cmap;
+  };
+
+  return async (resources: string): Promise<Map<string, CMap | undefined>> => {
+    const fonts = new Map<string, CMap | undefined>();
+    const fontDict = dictValue(objects, resources, 'Font') || '';
+    for (const [, name, id] of fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+      fonts.set(name, await cmapOfFont(Number(id)));
+    }
+    return fonts;
+  };
+};
+
+const isDelimiter = (c: string) => /[\s()<>[\]{}/%]/.test(c);
+
+// Minimal content stream interpreter: only text showing and line positioning operators matter
+const extractContentText = (
+  content: string,
+  fonts: Map<string, CMap | undefined>,
+  forms: Map<string, string>
+): string => {
+  const out: string[] = [];
+  const stack: Operand[] = [];
+  const arrays: Operand[][] = [];
+  let cmap: CMap | undefined;
+  let lastY: number | null = null;
+
+  const push = (operand: Operand) => (arrays.length > 0 ? arrays[arrays.length - 1] : stack).push(operand);
+
+  const decode = (bytes: number[]): string => {
+    if (!cmap) return String.fromCharCode(...bytes.filter(b => b >= 32));
+    let text = '';
+    for (let i = 0; i + cmap.codeBytes <= bytes.length; i += cmap.codeBytes) {
+      const code = cmap.codeBytes === 2 ? (bytes[i] << 8) | bytes[i + 1] : bytes[i];
+      text += cmap.map.get(code) ?? '';
+    }
+    return text;
+  };
+
+  const newLine = () => {
+    if (out.length > 0 && out[out.length - 1] !== '\n') out.push('\n');
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const c = content[i];
+
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (c === '(') {
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < content.length && depth > 0) {
+        const ch = content[i];
+        if (ch === '\\') {
+          const next = content[i + 1];
+          const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+          if (/[0-7]/.test(next)) {
+            const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+            bytes.push(parseInt(octal, 8) & 0xff);
+            i += 1 + octal.length;
+            continue;
+          }
+          if (next === '\r' || next === '\n') {
+            i += content[i + 2] === '\n' && next === '\r' ? 3 : 2;
+            continue;
+          }
+          bytes.push(escapes[next] ?? next.charCodeAt(0));
+          i += 2;
+          continue;
+        }
+        if (ch === '(') depth++;
+        if (ch === ')' && --depth === 0) break;
+        bytes.push(ch.charCodeAt(0));
+        i++;
+      }
+      i++;
+      push({ type: 'string', bytes });
+    } else if (c === '<' && content[i + 1] === '<') {
+      // Inline dictionaries (marked content properties) carry no text
+      const end = content.indexOf('>>', i);
+      i = end < 0 ? content.length : end + 2;
+    } else if (c === '<') {
+      const end = content.indexOf('>', i);
+      const hex = content.slice(i + 1, end < 0 ? content.length : end).replace(/\s/g, '');
+      const bytes: number[] = [];
+      for (let h = 0; h < hex.length; h += 2) bytes.push(parseInt(hex.slice(h, h + 2).padEnd(2, '0'), 16));
+      push({ type: 'string', bytes });
+      i = end < 0 ? content.length : end + 1;
+    } else if (c === '[') {
+      arrays.push([]);
+      i++;
+    } else if (c === ']') {
+      const items = arrays.pop() || [];
+      push({ type: 'array', items });
+      i++;
+    } else if (c === '/') {
+      let j = i + 1;
+      while (j < content.length && !isDelimiter(content[j])) j++;
+      push({ type: 'name', value: content.slice(i + 1, j) });
+      i = j;
+    } else if (/[-+.\d]/.test(c)) {
+      let j = i + 1;
+      while (j < content.length && /[.\d]/.test(content[j])) j++;
+      push({ type: 'number', value: Number(content.slice(i, j)) || 0 });
+      i = j;
+    } else {
+      let j = i + 1;
+      while (j < content.length && !isDelimiter(content[j])) j++;
+      const operator = content.slice(i, j);
+      i = j;
+
+      const numberAt = (index: number) => {
+        const operand = stack[stack.length + index];
+        return operand?.type === 'number' ? operand.value : 0;
+      };
+
+      switch (operator) {
+        case 'Tf': {
+          const font = stack[stack.length - 2];
+          cmap = font?.type === 'name' ? fonts.get(font.value) : undefined;
+          break;
+        }
+        case 'Tj':
+        case "'":
+        case '"': {
+          if (operator !== 'Tj') newLine();
+          const operand = stack[stack.length - 1];
+          if (operand?.type === 'string') out.push(decode(operand.bytes));
+          break;
+        }
+        case 'TJ': {
+          const operand = stack[stack.length - 1];
+          if (operand?.type !== 'array') break;
+          for (const item of operand.items) {
+            if (item.type === 'string') out.push(decode(item.bytes));
+            // Large negative kerning is how many producers encode a space
+            else if (item.type === 'number' && item.value < -200) out.push(' ');
+          }
+          break;
+        }
+        case 'Td':
+        case 'TD':
+          if (numberAt(-1) !== 0) newLine();
+          else if (numberAt(-2) > 0) out.push(' ');
+          break;
+        case 'Tm': {
+          const y = numberAt(-1);
+          if (lastY !== null && Math.abs(y - lastY) > 0.5) newLine();
+          lastY = y;
+          break;
+        }
+        case 'T*':
+          newLine();
+          break;
+        case 'Do': {
+          const name = stack[stack.length - 1];
+          const text = name?.type === 'name' ? forms.get(name.value) : undefined;
+          if (text) {
+            newLine();
+            out.push(text);
+            newLine();
+          }
+          break;
+        }
+        case 'ET':
+          out.push(' ');
+          break;
+        case 'BI': {
+          // Inline image data is binary and may contain anything that looks like operators
+          const end = content.indexOf('EI', i);
+          i = end < 0 ? content.length : end + 2;
+          break;
+        }
+      }
+      stack.length = 0;
+    }
+  }
+
+  return out.join('');
+};
+
+const normalizeText = (text: string): string =>
+  text
+    .replace(/[ \t\u00A0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export const extractPdfText = async (data: ArrayBuffer): Promise<{ text: string; details: string }> => {
+  const bytes = new Uint8Array(data);
+  const raw = toBinaryString(bytes);
+
+  if (!raw.startsWith('%PDF')) throw new Error('Файл не является PDF-документом');
+  if (/\/Encrypt\s+\d+\s+\d+\s+R/.test(raw)) throw new Error('Зашифрованные PDF не поддерживаются');
+
+  const objects = readObjects(bytes, raw);
+  await unpackObjectStreams(objects);
+  const readFonts = createFontReader(objects);
+
+  const extractStreams = async (streamIds: number[], resources: string, depth: number): Promise<string> => {
+    const fonts = await readFonts(resources);
+
+    // Form XObjects are reusable content (headers, stamps, whole pages in some producers)
+    const forms = new Map<string, string>();
+    const xobjects = dictValue(objects, resources, 'XObject') || '';
+    for (const [, name, id] of xobjects.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+      const form = objects.get(Number(id));
+      if (!form || depth >= MAX_FORM_DEPTH || !/\/Subtype\s*\/Form/.test(form.dict)) continue;
+      forms.set(name, await extractStreams([Number(id)], dictValue(objects, form.dict, 'Resources') || resources, depth + 1));
+    }
+
+    const parts: string[] = [];
+    for (const id of streamIds) {
+      const data = await decodeStream(objects.get(id) || { dict: '' });
+      if (data) parts.push(toBinaryString(data));
+    }
+    return normalizeText(extractContentText(parts.join('\n'), fonts, forms));
+  };
+
+  const pages = collectPages(objects, raw);
+  const pageTexts: string[] = [];
+  for (const page of pages) {
+    const text = await extractStreams(page.contents, page.resources, 0);
+    if (text) pageTexts.push(text);
+  }
+
+  const text = pageTexts.join('\n\n');
+  if (!text) throw new Error('В PDF нет текстового слоя (возможно, это скан)');
+
+  return { text, details: `страниц: ${pages.length}` };
+};
@@ -0,0 +1,265 @@
+import { QUERY_FUNCTIONS } from './bslGrammar';
+import { QueryParameter, QueryToken, tokenizeQuery } from './queryParser';
+
+// Lays a query out the way the Designer's query wizard does: clauses from the line start, their items
+// one per line indented with tabs, joins and conditions on their own lines, batch queries separated by a ruler.
+
+const BATCH_SEPARATOR = '/'.repeat(80);
+
+const FUNCTION_NAMES = new Set(QUERY_FUNCTIONS.map(f => f.toUpperCase()));
+
+type Clause = 'select' | 'into' | 'from' | 'on' | 'where' | 'having' | 'group' | 'order' | 'totals' | 'index' | 'other';
+
+// Clauses whose items go one per line
+const LIST_CLAUSES: Clause[] = ['select', 'from', 'group', 'order', 'totals', 'index'];
+
+interface Frame {
+  query: boolean; // false for function arguments, virtual table parameters and value lists
+  base: number; // Indent of the clause keywords
+  clause: Clause;
+  cases: number[]; // Indents of the open ВЫБОР expressions
+  between: boolean; // The next И belongs to МЕЖДУ
+}
+
+const isPunctuation = (token: QueryToken | undefined, value: string) => token?.type === 'punctuation' && token.value === value;
+
+const needsSpace = (prev: QueryToken | undefined, token: QueryToken, unary: boolean) => {
+  if (!prev || unary) return false;
+  if (isPunctuation(prev, '.') || isPunctuation(prev, '(')) return false;
+  // Skipped parameters of virtual tables: Остатки(&Период, )
+  if (isPunctuation(prev, ',')) return true;
+  if (token.type === 'punctuation' && ['.', ',', ')', ';'].includes(token.value)) return false;
+  return !(isPunctuation(token, '(') && prev.type === 'identifier');
+};
+
+// Keywords and function names in upper case, everything else as written
+const display = (token: QueryToken, next: QueryToken | undefined) => {
+  if (token.type === 'keyword') return token.value.toUpperCase();
+  if (token.type === 'identifier' && isPunctuation(next, '(') && FUNCTION_NAMES.has(token.value.toUpperCase())) {
+    return token.value.toUpperCase();
+  }
+  return token.value;
+};
+
+export const formatQuery = (text: string): string => {
+  const tokens = tokenizeQuery(text);
+  const lines: string[] = [];
+  let line = '';
+  let lineIndent = 0;
+  let pending: number | null = null; // Indent of the line the next token has to start
+  let prev: QueryToken | undefined;
+  let unary = false;
+  let selectHead = false; // РАЗРЕШЕННЫЕ, РАЗЛИЧНЫЕ, ПЕРВЫЕ N stay on the ВЫБРАТЬ line
+  let afterUnion = false;
+  const stack: Frame[] = [{ query: true, base: 0, clause: 'other', cases: [], between: false }];
+
+  const breakLine = (indent: number) => {
+    if (line.trim()) lines.push(line.trimEnd());
+    line = '\t'.repeat(indent);
+    lineIndent = indent;
+    pending = null;
+  };
+
+  const write = (token: QueryToken, value: string) => {
+    if (pending !== null) breakLine(pending);
+    line += (line.trim() && needsSpace(prev, token, unary) ? ' ' : '') + value;
+    unary = token.value === '-' && (!prev || prev.type === 'operator' || prev.type === 'keyword' || isPunctuation(prev, '(') || isPunctuation(prev, ','));
+    prev = token;
+  };
+
+  tokens.forEach((token, i) => {
+    const next = tokens[i + 1];
+    const frame = stack[stack.length - 1];
+    const value = display(token, next);
+
+    if (token.type === 'comment') {
+      // Rulers between batch queries are written anew
+      if (/^\/+$/.test(token.value)) return;
+      line += line.trim() ? ` ${value}` : value;
+      pending = lineIndent;
+      return;
+    }
+
+    if (selectHead) {
+      const isModifier = ['allowed', 'distinct', 'top'].includes(token.keyword || '') || (token.type === 'number' && prev?.keyword === 'top');
+      if (isModifier) {
+        line += ` ${value}`;
+        prev = token;
+        return;
+      }
+      selectHead = false;
+    }
+
+    if (isPunctuation(token, '(')) {
+      const subquery = next?.keyword === 'select';
+      // A subquery inside an expression starts on its own line
+      if (subquery && frame.query && line.trim() && pending === null) breakLine(lineIndent + 1);
+      write(token, value);
+      stack.push({ query: subquery, base: lineIndent, clause: 'other', cases: [], between: false });
+      return;
+    }
+    if (isPunctuation(token, ')')) {
+      if (stack.length > 1) stack.pop();
+      pending = null;
+      write(token, value);
+      return;
+    }
+    if (isPunctuation(token, ',')) {
+      write(token, value);
+      if (frame.query && frame.cases.length === 0 && LIST_CLAUSES.includes(frame.clause)) pending = frame.base + 1;
+      return;
+    }
+    if (isPunctuation(token, ';') && stack.length === 1) {
+      write(token, value);
+      if (tokens.slice(i + 1).some(t => t.type !== 'comment')) {
+        breakLine(0);
+        lines.push('', BATCH_SEPARATOR);
+        frame.clause = 'other';
+      }
+      return;
+    }
+    if (!frame.query || token.type !== 'keyword') {
+      write(token, value);
+      return;
+    }
+
+    const { base } = frame;
+    const caseIndent = frame.cases[frame.cases.length - 1];
+
+    switch (token.keyword) {
+      case 'case':
+        write(token, value);
+        frame.cases.push(lineIndent);
+        return;
+      case 'when':
+      case 'else':
+        if (caseIndent === undefined) break;
+        breakLine(caseIndent + 1);
+        write(token, value);
+        return;
+      case 'then':
+        if (caseIndent === undefined) break;
+        breakLine(caseIndent + 2);
+        write(token, value);
+        return;
+      case 'end':
+        if (caseIndent === undefined) break;
+        breakLine(frame.cases.pop()!);
+        write(token, value);
+        return;
+    }
+    if (frame.cases.length > 0) {
+      write(token, value);
+      return;
+    }
+
+    switch (token.keyword) {
+      case 'select':
+        if (afterUnion) {
+          breakLine(base);
+          lines.push('');
+          afterUnion = false;
+        } else if (!isPunctuation(prev, '(')) {
+          breakLine(base);
+        }
+        write(token, value);
+        frame.clause = 'select';
+        selectHead = true;
+        pending = base + 1;
+        return;
+      case 'into':
+      case 'for':
+      case 'autoorder':
+      case 'drop':
+        breakLine(base);
+        write(token, value);
+        frame.clause = token.keyword === 'into' ? 'into' : 'other';
+        return;
+      case 'from':
+      case 'where':
+      case 'having':
+      case 'totals':
+        breakLine(base);
+        write(token, value);
+        frame.clause = token.keyword;
+        pending = base + 1;
+        return;
+      case 'group':
+      case 'order':
+      case 'index':
+        breakLine(base);
+        write(token, value);
+        frame.clause = token.keyword;
+        return;
+      case 'left':
+      case 'right':
+      case 'full':
+      case 'inner':
+        breakLine(base + 2);
+        write(token, value);
+        frame.clause = 'from';
+        return;
+      case 'join':
+        if (!['left', 'right', 'full', 'inner', 'outer'].includes(prev?.keyword || '')) breakLine(base + 2);
+        write(token, value);
+        frame.clause = 'from';
+        return;
+      case 'by':
+        if (['group', 'order', 'index'].includes(prev?.keyword || '')) {
+          write(token, value);
+          pending = base + 1;
+        } else if (frame.clause === 'from') {
+          breakLine(base + 2);
+          write(token, value);
+          frame.clause = 'on';
+        } else if (frame.clause === 'totals') {
+          breakLine(base);
+          write(token, value);
+          pending = base + 1;
+        } else {
+          write(token, value);
+        }
+        return;
+      case 'union':
+        breakLine(base);
+        lines.push('');
+        write(token, value);
+        frame.clause = 'other';
+        afterUnion = true;
+        return;
+      case 'between':
+        write(token, value);
+        frame.between = true;
+        return;
+      case 'and':
+      case 'or':
+        if (token.keyword === 'and' && frame.between) {
+          frame.between = false;
+        } else if (frame.clause === 'where' || frame.clause === 'having') {
+          breakLine(base + 1);
+        } else if (frame.clause === 'on') {
+          breakLine(base + 3);
+        }
+        write(token, value);
+        return;
+    }
+    write(token, value);
+  });
+
+  breakLine(0);
+  return lines.join('\n');
+};
+
+// Query text as a BSL string literal with "|" continuations
+export const toBslString = (query: string, indent = '\t'): string =>
+  `"${query.replace(/"/g, '""').split('\n').join(`\n${indent}|`)}"`;
+
+// Assignment of the query text as the query wizard inserts it into a module
+export const wrapQueryText = (query: string, target = 'Запрос.Текст'): string =>
+  `${target} =\n\t${toBslString(query, '\t')};`;
+
+// УстановитьПараметр calls for every parameter; the query object is taken from a Запрос.Текст target
+export const formatParameterSetters = (parameters: QueryParameter[], target?: string): string => {
+  const queryObject = target?.match(/^(.+)\.(?:Текст|Text)$/i)?.[1] || 'Запрос';
+  return parameters.map(p => `${queryObject}.УстановитьПараметр("${p.name}", ${p.name});`).join('\n');
+};
@@ -0,0 +1,613 @@
+// Lightweight parser for the 1C query language.
+// Like the BSL parser it does not build full expressions: it tokenizes the query text, splits the batch into
+// statements and recovers their clauses, sources, temporary tables and parameters, which is what the checks
+// and the batch breakdown need.
+
+import { BslSeverity } from '../types';
+import { tokenizeBsl } from './bslParser';
+
+export type QueryTokenType = 'keyword' | 'identifier' | 'string' | 'number' | 'parameter' | 'operator' | 'punctuation' | 'comment';
+
+export interface QueryToken {
+  type: QueryTokenType;
+  value: string;
+  keyword?: QueryKeyword; // Canonical English keyword for `keyword` tokens
+  line: number; // 1-based
+}
+
+export type QueryKeyword =
+  | 'select' | 'allowed' | 'distinct' | 'top' | 'into' | 'from' | 'where' | 'group' | 'having' | 'order'
+  | 'autoorder' | 'totals' | 'overall' | 'union' | 'all' | 'index' | 'by' | 'drop' | 'for' | 'update'
+  | 'left' | 'right' | 'full' | 'inner' | 'outer' | 'join' | 'as'
+  | 'case' | 'when' | 'then' | 'else' | 'end'
+  | 'and' | 'or' | 'not' | 'in' | 'hierarchy' | 'between' | 'like' | 'escape' | 'is'
+  | 'asc' | 'desc' | 'grouping' | 'sets' | 'periods'
+  | 'true' | 'false' | 'undefined' | 'null';
+
+const KEYWORDS: Record<string, QueryKeyword> = {
+  'выбрать': 'select', 'select': 'select',
+  'разрешенные': 'allowed', 'allowed': 'allowed',
+  'различные': 'distinct', 'distinct': 'distinct',
+  'первые': 'top', 'top': 'top',
+  'поместить': 'into', 'into': 'into',
+  'из': 'from', 'from': 'from',
+  'где': 'where', 'where': 'where',
+  'сгруппировать': 'group', 'group': 'group',
+  'имеющие': 'having', 'having': 'having',
+  'упорядочить': 'order', 'order': 'order',
+  'автоупорядочивание': 'autoorder', 'autoorder': 'autoorder',
+  'итоги': 'totals', 'totals': 'totals',
+  'общие': 'overall', 'overall': 'overall',
+  'объединить': 'union', 'union': 'union',
+  'все': 'all', 'all': 'all',
+  'индексировать': 'index', 'index': 'index',
+  // ПО stands for both BY and ON
+  'по': 'by', 'by': 'by', 'on': 'by',
+  'уничтожить': 'drop', 'drop': 'drop',
+  'для': 'for', 'for': 'for',
+  'изменения': 'update', 'update': 'update',
+  'левое': 'left', 'left': 'left',
+  'правое': 'right', 'right': 'right',
+  'полное': 'full', 'full': 'full',
+  'внутреннее': 'inner', 'inner': 'inner',
+  'внешнее': 'outer', 'outer': 'outer',
+  'соединение': 'join', 'join': 'join',
+  'как': 'as', 'as': 'as',
+  'выбор': 'case', 'case': 'case',
+  'когда': 'when', 'when': 'when',
+  'тогда': 'then', 'then': 'then',
+  'иначе': 'else', 'else': 'else',
+  'конец': 'end', 'end': 'end',
+  'и': 'and', 'and': 'and',
+  'или': 'or', 'or': 'or',
+  'не': 'not', 'not': 'not',
+  'в': 'in', 'in': 'in',
+  'иерархии': 'hierarchy', 'hierarchy': 'hierarchy',
+  'между': 'between', 'between': 'between',
+  'подобно': 'like', 'like': 'like',
+  'спецсимвол': 'escape', 'escape': 'escape',
+  'есть': 'is', 'is': 'is',
+  'возр': 'asc', 'asc': 'asc',
+  'убыв': 'desc', 'desc': 'desc',
+  'группирующим': 'grouping', 'grouping': 'grouping',
+  'наборам': 'sets', 'sets': 'sets',
+  'периодами': 'periods', 'periods': 'periods',
+  'истина': 'true', 'true': 'true',
+  'ложь': 'false', 'false': 'false',
+  'неопределено': 'undefined', 'undefined': 'undefined',
+  'null': 'null'
+};
+
+const isIdentStart = (ch: string) => /[A-Za-z_А-Яа-яЁё]/.test(ch);
+const isIdentPart = (ch: string) => /[\wА-Яа-яЁё]/.test(ch);
+
+export const tokenizeQuery = (text: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+  let line = 1;
+
+  const push = (type: QueryTokenType, value: string, startLine: number, keyword?: QueryKeyword) => {
+    tokens.push(keyword ? { type, value, keyword, line: startLine } : { type, value, line: startLine });
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\n') { line++; i++; continue; }
+    if (/\s/.test(ch)) { i++; continue; }
+
+    // Comments are kept so that the formatter does not lose them
+    if (ch === '/' && text[i + 1] === '/') {
+      let j = i;
+      while (j < text.length && text[j] !== '\n') j++;
+      push('comment', text.slice(i, j).trimEnd(), line);
+      i = j;
+      continue;
+    }
+
+    // String literals; "" is an escaped quote
+    if (ch === '"') {
+      const startLine = line;
+      let j = i + 1;
+      while (j < text.length) {
+        if (text[j] === '"') {
+          if (text[j + 1] === '"') { j += 2; continue; }
+          break;
+        }
+        if (text[j] === '\n') line++;
+        j++;
+      }
+      push('string', text.slice(i, j + 1), startLine);
+      i = j + 1;
+      continue;
+    }
+
+    if (/\d/.test(ch)) {
+      let j = i;
+      while (j < text.length && /[\d.]/.test(text[j])) j++;
+      push('number', text.slice(i, j), line);
+      i = j;
+      continue;
+    }
+
+    if (ch === '&') {
+      let j = i + 1;
+      while (j < text.length && isIdentPart(text[j])) j++;
+      push('parameter', text.slice(i, j), line);
+      i = j;
+      continue;
+    }
+
+    if (isIdentStart(ch)) {
+      let j = i;
+      while (j < text.length && isIdentPart(text[j])) j++;
+      const word = text.slice(i, j);
+      const keyword = KEYWORDS[word.toLowerCase()];
+      // After a dot every word is a field name: Товары.Ссылка, Остатки.Период
+      const previous = tokens[tokens.length - 1];
+      const isMember = previous?.type === 'punctuation' && previous.value === '.';
+      if (keyword && !isMember) push('keyword', word, line, keyword);
+      else push('identifier', word, line);
+      i = j;
+      continue;
+    }
+
+    const twoChars = text.slice(i, i + 2);
+    if (twoChars === '<>' || twoChars === '<=' || twoChars === '>=') {
+      push('operator', twoChars, line);
+      i += 2;
+      continue;
+    }
+
+    if ('=<>+-*/'.includes(ch)) {
+      push('operator', ch, line);
+    } else {
+      push('punctuation', ch, line);
+    }
+    i++;
+  }
+
+  return tokens;
+};
+
+export interface ExtractedQuery {
+  text: string;
+  line: number; // Line of the BSL code where the string starts; query lines map one to one after it
+  target?: string; // Left side of the assignment: Запрос.Текст, ТекстЗапроса
+}
+
+const QUERY_START = /^\s*(?:ВЫБРАТЬ|SELECT|УНИЧТОЖИТЬ|DROP)(?![\wА-Яа-яЁё])/i;
+
+// Content of a BSL string literal: quotes removed, "|" continuations dropped, "" unescaped
+const decodeBslString = (literal: string): string => {
+  const body = literal.length > 1 && literal.endsWith('"') ? literal.slice(1, -1) : literal.slice(1);
+  return body
+    .split('\n')
+    .map((line, i) => (i === 0 ? line : line.replace(/^\s*\|/, '')))
+    .join('\n')
+    .replace(/""/g, '"');
+};
+
+// Query texts of a BSL module: string literals that start with ВЫБРАТЬ or УНИЧТОЖИТЬ
+export const extractQueryTexts = (code: string): ExtractedQuery[] => {
+  const tokens = tokenizeBsl(code);
+  return tokens.flatMap((token, i) => {
+    if (token.type !== 'string') return [];
+    const text = decodeBslString(token.value);
+    if (!QUERY_START.test(text)) return [];
+
+    let target: string | undefined;
+    if (tokens[i - 1]?.value === '=') {
+      let j = i - 2;
+      const parts: string[] = [];
+      while (j >= 0 && (tokens[j].type === 'identifier' || tokens[j].value === '.')) parts.unshift(tokens[j--].value);
+      if (parts.length > 0 && tokens[j]?.value !== '.') target = parts.join('');
+    }
+    return [{ text, line: token.line, target }];
+  });
+};
+
+export interface QueryIssue {
+  severity: BslSeverity;
+  line: number; // 1-based line within the query text
+  message: string;
+}
+
+export interface QueryParameter {
+  name: string; // Without the ampersand, as first written
+  line: number;
+}
+
+export interface QuerySource {
+  kind: 'table' | 'virtual' | 'temporary';
+  name: string; // Справочник.Товары, РегистрНакопления.ТоварыНаСкладах.Остатки, ВТ_Товары
+  alias?: string;
+  parameters: { name: string; value: string }[]; // Non-empty parameters of a virtual table
+  createdBy?: number; // Batch statement that creates a temporary table
+  line: number;
+}
+
+export interface QueryStatement {
+  index: number; // 1-based position in the batch
+  kind: 'select' | 'drop';
+  line: number;
+  into?: string; // Temporary table created by ПОМЕСТИТЬ, or destroyed by УНИЧТОЖИТЬ
+  sources: QuerySource[];
+}
+
+export interface ParsedQuery {
+  statements: QueryStatement[];
+  parameters: QueryParameter[];
+  issues: QueryIssue[];
+}
+
+interface VirtualTableDefinition {
+  names: string[]; // Russian and English
+  parameters: string[];
+}
+
+// Parameters of register virtual tables in the order the query language expects them
+const ACCUMULATION_TABLES: VirtualTableDefinition[] = [
+  { names: ['Остатки', 'Balance'], parameters: ['Период', 'Условие'] },
+  { names: ['Обороты', 'Turnovers'], parameters: ['НачалоПериода', 'КонецПериода', 'Периодичность', 'Условие'] },
+  {
+    names: ['ОстаткиИОбороты', 'BalanceAndTurnovers'],
+    parameters: ['НачалоПериода', 'КонецПериода', 'Периодичность', 'МетодДополнения', 'Условие']
+  }
+];
+
+const INFORMATION_TABLES: VirtualTableDefinition[] = [
+  { names: ['СрезПоследних', 'SliceLast'], parameters: ['Период', 'Условие'] },
+  { names: ['СрезПервых', 'SliceFirst'], parameters: ['Период', 'Условие'] }
+];
+
+const ACCOUNTING_TABLES: VirtualTableDefinition[] = [
+  { names: ['Остатки', 'Balance'], parameters: ['Период', 'УсловиеСчета', 'Субконто', 'Условие'] },
+  {
+    names: ['Обороты', 'Turnovers'],
+    parameters: ['НачалоПериода', 'КонецПериода', 'Периодичность', 'УсловиеСчета', 'Субконто', 'Условие', 'УсловиеКорСчета', 'КорСубконто']
+  },
+  {
+    names: ['ОстаткиИОбороты', 'BalanceAndTurnovers'],
+    parameters: ['НачалоПериода', 'КонецПериода', 'Периодичность', 'МетодДополнения', 'УсловиеСчета', 'Субконто', 'Условие']
+  },
+  {
+    names: ['ОборотыДтКт', 'DrCrTurnovers'],
+    parameters: ['НачалоПериода', 'КонецПериода', 'Периодичность', 'УсловиеСчетаДт', 'СубконтоДт', 'УсловиеСчетаКт', 'СубконтоКт', 'Условие']
+  },
+  { names: ['ДвиженияССубконто', 'RecordsWithExtDimensions'], parameters: ['НачалоПериода', 'КонецПериода', 'Условие', 'Сортировка', 'Первые'] }
+];
+
+const VIRTUAL_TABLES: Record<string, VirtualTableDefinition[]> = {
+  'регистрнакопления': ACCUMULATION_TABLES, 'accumulationregister': ACCUMULATION_TABLES,
+  'регистрсведений': INFORMATION_TABLES, 'informationregister': INFORMATION_TABLES,
+  'регистрбухгалтерии': ACCOUNTING_TABLES, 'accountingregister': ACCOUNTING_TABLES
+};
+
+type Clause = 'select' | 'into' | 'from' | 'where' | 'group' | 'having' | 'order' | 'autoorder' | 'totals';
+
+// Position of each clause within one query; ОБЪЕДИНИТЬ starts over from ВЫБРАТЬ
+const CLAUSE_RANKS: Record<Clause, number> = {
+  select: 0, into: 1, from: 2, where: 3, group: 4, having: 5, order: 6, autoorder: 7, totals: 8
+};
+
+const CLAUSE_LABELS: Record<Clause, string> = {
+  select: 'ВЫБРАТЬ', into: 'ПОМЕСТИТЬ', from: 'ИЗ', where: 'ГДЕ', group: 'СГРУППИРОВАТЬ ПО', having: 'ИМЕЮЩИЕ',
+  order: 'УПОРЯДОЧИТЬ ПО', autoorder: 'АВТОУПОРЯДОЧИВАНИЕ', totals: 'ИТОГИ'
+};
+
+interface SelectFrame {
+  type: 'select';
+  clause: Clause | null; // null right after ОБЪЕДИНИТЬ
+  join?: QueryToken; // Last СОЕДИНЕНИЕ still waiting for its ПО
+  cases: number;
+  open?: QueryToken;
+}
+
+interface ParenFrame {
+  type: 'paren';
+  open: QueryToken;
+}
+
+const isPunctuation = (token: QueryToken | undefined, value: string) => token?.type === 'punctuation' && token.value === value;
+
+// Compact text of a token range, used for virtual table parameters
+const joinTokens = (tokens: QueryToken[]): string =>
+  tokens.reduce((text, token, i) => {
+    const prev = tokens[i - 1];
+    const glued = !prev || prev.value === '.' || prev.value === '(' || ['.', ',', ')'].includes(token.value)
+      || (token.value === '(' && prev.type === 'identifier');
+    return text + (glued ? '' : ' ') + token.value;
+  }, '');
+
+// Splits the batch at top-level semicolons; comments are not part of the structure
+const splitStatements = (tokens: QueryToken[]): QueryToken[][] => {
+  const statements: QueryToken[][] = [[]];
+  let depth = 0;
+  tokens.filter(t => t.type !== 'comment').forEach(token => {
+    if (isPunctuation(token, '(')) depth++;
+    if (isPunctuation(token, ')')) depth = Math.max(0, depth - 1);
+    if (isPunctuation(token, ';') && depth === 0) statements.push([]);
+    else statements[statements.length - 1].push(token);
+  });
+  return statements.filter(s => s.length > 0);
+};
+
+// Reads the table reference after ИЗ, СОЕДИНЕНИЕ or a comma of the source list; null for subqueries
+const readSource = (tokens: QueryToken[], start: number, issues: QueryIssue[]): QuerySource | null => {
+  let i = start;
+  if (tokens[i]?.type !== 'identifier') return null;
+
+  const parts = [tokens[i].value];
+  while (isPunctuation(tokens[i + 1], '.') && tokens[i + 2]?.type === 'identifier') {
+    parts.push(tokens[i + 2].value);
+    i += 2;
+  }
+  i++;
+
+  const source: QuerySource = {
+    kind: parts.length === 1 ? 'temporary' : 'table',
+    name: parts.join('.'),
+    parameters: [],
+    line: tokens[start].line
+  };
+
+  if (isPunctuation(tokens[i], '(')) {
+    source.kind = 'virtual';
+    const args: QueryToken[][] = [[]];
+    let depth = 0;
+    for (i++; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (isPunctuation(token, '(')) depth++;
+      if (isPunctuation(token, ')') && depth-- === 0) break;
+      if (isPunctuation(token, ',') && depth === 0) args.push([]);
+      else args[args.length - 1].push(token);
+    }
+    i++;
+
+    const definitions = VIRTUAL_TABLES[parts[0].toLowerCase()];
+    const tableName = parts[parts.length - 1];
+    const definition = definitions?.find(d => d.names.some(n => n.toLowerCase() === tableName.toLowerCase()));
+    if (definitions && (parts.length !== 3 || !definition)) {
+      issues.push({ severity: 'error', line: source.line, message: `Неизвестная виртуальная таблица «${tableName}» у ${parts[0]}.${parts[1] || ''}` });
+    } else if (definition && args.length > definition.parameters.length) {
+      issues.push({
+        severity: 'error',
+        line: source.line,
+        message: `У виртуальной таблицы ${tableName} не больше ${definition.parameters.length} параметров (${definition.parameters.join(', ')}), указано ${args.length}`
+      });
+    }
+    source.parameters = args
+      .map((arg, n) => ({ name: definition?.parameters[n] || `Параметр ${n + 1}`, value: joinTokens(arg) }))
+      .filter(p => p.value);
+  }
+
+  if (tokens[i]?.keyword === 'as' && tokens[i + 1]?.type === 'identifier') source.alias = tokens[i + 1].value;
+  else if (tokens[i]?.type === 'identifier') source.alias = tokens[i].value;
+
+  return source;
+};
+
+const analyzeSelect = (tokens: QueryToken[], statement: QueryStatement, issues: QueryIssue[]) => {
+  const error = (token: QueryToken, message: string) => issues.push({ severity: 'error', line: token.line, message });
+  const stack: (SelectFrame | ParenFrame)[] = [{ type: 'select', clause: null, cases: 0 }];
+
+  const closeSelect = (frame: SelectFrame, token: QueryToken) => {
+    if (frame.join) error(frame.join, 'Соединение без условия ПО');
+    if (frame.cases > 0) error(token, 'ВЫБОР без КОНЕЦ');
+    if (frame.clause === null) error(token, 'После ОБЪЕДИНИТЬ ожидается ВЫБРАТЬ');
+  };
+
+  // A new clause or ОБЪЕДИНИТЬ ends the previous clause
+  const endClause = (frame: SelectFrame, label: string, index: number) => {
+    if (frame.join) {
+      error(frame.join, 'Соединение без условия ПО');
+      frame.join = undefined;
+    }
+    if (isPunctuation(tokens[index - 1], ',')) error(tokens[index - 1], `Лишняя запятая перед ${label}`);
+  };
+
+  const enterClause = (frame: SelectFrame, clause: Clause, token: QueryToken, index: number) => {
+    endClause(frame, CLAUSE_LABELS[clause], index);
+    if (frame.clause !== null) {
+      const current = CLAUSE_RANKS[frame.clause];
+      if (CLAUSE_RANKS[clause] === current && clause !== 'select') error(token, `Повторный раздел ${CLAUSE_LABELS[clause]}`);
+      else if (CLAUSE_RANKS[clause] < current) error(token, `${CLAUSE_LABELS[clause]} не может стоять после ${CLAUSE_LABELS[frame.clause]}`);
+    }
+    frame.clause = clause;
+  };
+
+  const requireBy = (token: QueryToken, next: QueryToken | undefined) => {
+    if (next?.keyword !== 'by') error(token, `После ${token.value.toUpperCase()} ожидается ПО`);
+  };
+
+  tokens.forEach((token, i) => {
+    const frame = stack[stack.length - 1];
+
+    if (isPunctuation(token, '(')) {
+      stack.push(tokens[i + 1]?.keyword === 'select' ? { type: 'select', clause: null, cases: 0, open: token } : { type: 'paren', open: token });
+      return;
+    }
+    if (isPunctuation(token, ')')) {
+      if (stack.length === 1) {
+        error(token, 'Лишняя закрывающая скобка');
+        return;
+      }
+      stack.pop();
+      // Skipped trailing parameters of virtual tables are written as "(&Период, )"
+      if (frame.type === 'select') {
+        if (isPunctuation(tokens[i - 1], ',')) error(tokens[i - 1], 'Лишняя запятая перед закрывающей скобкой');
+        closeSelect(frame, token);
+      }
+      return;
+    }
+    // Sources listed with commas: ИЗ ВТ_А КАК А, ВТ_Б КАК Б
+    if (frame.type === 'select' && frame.clause === 'from' && isPunctuation(token, ',')) {
+      const source = readSource(tokens, i + 1, issues);
+      if (source) statement.sources.push(source);
+      return;
+    }
+    if (frame.type !== 'select' || token.type !== 'keyword') return;
+
+    switch (token.keyword) {
+      case 'select': {
+        if (frame.clause !== null) {
+          error(token, 'Пропущена точка с запятой между запросами пакета');
+          return;
+        }
+        enterClause(frame, 'select', token, i);
+        let j = i + 1;
+        while (['allowed', 'distinct', 'top'].includes(tokens[j]?.keyword || '') || (tokens[j]?.type === 'number' && tokens[j - 1]?.keyword === 'top')) j++;
+        if (!tokens[j] || ['from', 'into'].includes(tokens[j].keyword || '')) error(token, 'Не указаны поля выборки');
+        return;
+      }
+      case 'into':
+        enterClause(frame, 'into', token, i);
+        if (tokens[i + 1]?.type !== 'identifier') error(token, 'После ПОМЕСТИТЬ ожидается имя временной таблицы');
+        else if (stack.length > 1) error(token, 'ПОМЕСТИТЬ допускается только во внешнем запросе');
+        else if (statement.into) error(token, 'ПОМЕСТИТЬ указывается только в первом запросе объединения');
+        else statement.into = tokens[i + 1].value;
+        return;
+      case 'from': {
+        enterClause(frame, 'from', token, i);
+        const source = readSource(tokens, i + 1, issues);
+        if (source) statement.sources.push(source);
+        return;
+      }
+      case 'join': {
+        if (frame.clause !== 'from') {
+          error(token, 'СОЕДИНЕНИЕ допускается только в разделе ИЗ');
+          return;
+        }
+        if (frame.join) error(frame.join, 'Соединение без условия ПО');
+        frame.join = token;
+        const source = readSource(tokens, i + 1, issues);
+        if (source) statement.sources.push(source);
+        return;
+      }
+      case 'by':
+        if (frame.clause === 'from') frame.join = undefined;
+        return;
+      case 'where':
+        enterClause(frame, 'where', token, i);
+        return;
+      case 'group':
+        enterClause(frame, 'group', token, i);
+        requireBy(token, tokens[i + 1]);
+        return;
+      case 'having':
+        enterClause(frame, 'having', token, i);
+        return;
+      case 'order':
+        enterClause(frame, 'order', token, i);
+        requireBy(token, tokens[i + 1]);
+        return;
+      case 'index':
+        requireBy(token, tokens[i + 1]);
+        return;
+      case 'autoorder':
+        enterClause(frame, 'autoorder', token, i);
+        return;
+      case 'totals':
+        enterClause(frame, 'totals', token, i);
+        return;
+      case 'union':
+        if (frame.clause && CLAUSE_RANKS[frame.clause] >= CLAUSE_RANKS.order) {
+          error(token, `ОБЪЕДИНИТЬ не может стоять после ${CLAUSE_LABELS[frame.clause]}: упорядочивание и итоги указываются в конце`);
+        }
+        endClause(frame, 'ОБЪЕДИНИТЬ', i);
+        frame.clause = null;
+        return;
+      case 'case':
+        frame.cases++;
+        return;
+      case 'end':
+        if (frame.cases === 0) error(token, 'КОНЕЦ без ВЫБОР');
+        else frame.cases--;
+        return;
+    }
+  });
+
+  const last = tokens[tokens.length - 1];
+  if (isPunctuation(last, ',')) error(last, 'Лишняя запятая в конце запроса');
+  for (let frame = stack.pop(); frame; frame = stack.pop()) {
+    if (frame.type === 'paren' || stack.length > 0) error(frame.open!, 'Не закрыта скобка');
+    if (frame.type === 'select') closeSelect(frame, last);
+  }
+};
+
+// Splits a batch into statements, collects parameters and checks the syntax and the temporary tables
+export const parseQuery = (text: string): ParsedQuery => {
+  const tokens = tokenizeQuery(text);
+  const issues: QueryIssue[] = [];
+  const statements: QueryStatement[] = [];
+  const parameters = new Map<string, QueryParameter>();
+
+  tokens.forEach(token => {
+    if (token.type === 'string' && (token.value.length < 2 || !token.value.endsWith('"'))) {
+      issues.push({ severity: 'error', line: token.line, message: 'Не закрыта строковая константа' });
+    }
+    if (token.type === 'parameter') {
+      const name = token.value.slice(1);
+      if (!name) issues.push({ severity: 'error', line: token.line, message: 'Пустое имя параметра после &' });
+      else if (!parameters.has(name.toLowerCase())) parameters.set(name.toLowerCase(), { name, line: token.line });
+    }
+  });
+
+  // Temporary tables live in the batch until УНИЧТОЖИТЬ; the key is the lower-cased name
+  const created = new Map<string, number>();
+
+  splitStatements(tokens).forEach(statementTokens => {
+    const first = statementTokens[0];
+    const index = statements.length + 1;
+
+    if (first.keyword === 'drop') {
+      const name = statementTokens[1]?.type === 'identifier' ? statementTokens[1].value : undefined;
+      if (!name) {
+        issues.push({ severity: 'error', line: first.line, message: 'После УНИЧТОЖИТЬ ожидается имя временной таблицы' });
+      } else if (!created.has(name.toLowerCase())) {
+        issues.push({ severity: 'warning', line: first.line, message: `Уничтожается временная таблица ${name}, которая не создана в этом пакете` });
+      }
+      if (statementTokens.length > 2) {
+        issues.push({ severity: 'error', line: statementTokens[2].line, message: 'Пропущена точка с запятой после УНИЧТОЖИТЬ' });
+      }
+      if (name) created.delete(name.toLowerCase());
+      statements.push({ index, kind: 'drop', line: first.line, into: name, sources: [] });
+      return;
+    }
+
+    if (first.keyword !== 'select') {
+      issues.push({ severity: 'error', line: first.line, message: `Запрос пакета должен начинаться с ВЫБРАТЬ или УНИЧТОЖИТЬ, а не с «${first.value}»` });
+      return;
+    }
+
+    const statement: QueryStatement = { index, kind: 'select', line: first.line, sources: [] };
+    analyzeSelect(statementTokens, statement, issues);
+
+    statement.sources.filter(s => s.kind === 'temporary').forEach(source => {
+      source.createdBy = created.get(source.name.toLowerCase());
+      if (source.createdBy === undefined) {
+        issues.push({
+          severity: 'warning',
+          line: source.line,
+          message: `Временная таблица ${source.name} не создана в этом пакете: она должна быть в менеджере временных таблиц`
+        });
+      }
+    });
+
+    if (statement.into) {
+      const previous = created.get(statement.into.toLowerCase());
+      if (previous !== undefined) {
+        issues.push({ severity: 'warning', line: first.line, message: `Временная таблица ${statement.into} уже создана запросом ${previous}` });
+      }
+      created.set(statement.into.toLowerCase(), index);
+    }
+    statements.push(statement);
+  });
+
+  return {
+    statements,
+    parameters: Array.from(parameters.values()),
+    issues: issues.sort((a, b) => a.line - b.line)
+  };
+};
@@ -0,0 +1,116 @@
+import { BslDiagnostic } from '../types';
+import { Availability, GlobalMethod, PLATFORM_TYPES, PlatformType, TypeMember, findGlobalMethod } from './globalContext';
+import { parseBsl } from './bslParser';
+
+// Lookups over the bundled Syntax Assistant excerpt: hover tooltips in code blocks and
+// checks of the code against the platform version of the project.
+
+export const PLATFORM_VERSION_RULE = 'PLATFORM';
+
+export const AVAILABILITY_LABELS: Record<Availability, string> = {
+  client: 'клиент',
+  server: 'сервер'
+};
+
+export type SyntaxEntry =
+  | { kind: 'method'; method: GlobalMethod }
+  | { kind: 'type'; type: PlatformType }
+  | { kind: 'member'; members: { type: PlatformType; member: TypeMember }[] };
+
+const TYPES_BY_NAME = new Map(
+  PLATFORM_TYPES.flatMap(type => [[type.name.toLowerCase(), type], [type.nameEn.toLowerCase(), type]] as [string, PlatformType][])
+);
+
+const MEMBERS_BY_NAME = new Map<string, { type: PlatformType; member: TypeMember }[]>();
+PLATFORM_TYPES.forEach(type => type.members.forEach(member => {
+  [member.name, member.nameEn].forEach(name => {
+    const key = name.toLowerCase();
+    MEMBERS_BY_NAME.set(key, [...(MEMBERS_BY_NAME.get(key) || []), { type, member }]);
+  });
+}));
+
+// After a dot the word is a member (Выборка.Следующий); otherwise a global method or a type name
+export const lookupSyntax = (word: string, isMember = false): SyntaxEntry | undefined => {
+  const key = word.toLowerCase();
+  const members = MEMBERS_BY_NAME.get(key);
+  if (isMember) return members ? { kind: 'member', members } : undefined;
+
+  const method = findGlobalMethod(word);
+  if (method) return { kind: 'method', method };
+  const type = TYPES_BY_NAME.get(key);
+  if (type) return { kind: 'type', type };
+  return undefined;
+};
+
+// Accepts "8.3.24.1342", "8.3.14" and the configuration property form "Версия8_3_14"
+export const parseVersion = (value: string): number[] | null => {
+  const match = value.match(/(\d+)[._](\d+)[._](\d+)/);
+  return match ? match.slice(1, 4).map(Number) : null;
+};
+
+export const compareVersions = (a: number[], b: number[]): number => {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] || 0) - (b[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const isNewer = (since: string | undefined, target: number[]): since is string => {
+  const version = since ? parseVersion(since) : null;
+  return Boolean(version && compareVersions(version, target) > 0);
+};
+
+export const isUnavailableIn = (since: string | undefined, targetVersion: string): boolean => {
+  const target = parseVersion(targetVersion);
+  return Boolean(target && isNewer(since, target));
+};
+
+// Calls of global methods, types created with Новый and members unique to newer types that the
+// target version does not have. Procedures declared in the same code shadow global methods.
+export const findPlatformVersionIssues = (code: string, targetVersion: string): BslDiagnostic[] => {
+  const target = parseVersion(targetVersion);
+  if (!target) return [];
+
+  const { tokens, methods } = parseBsl(code);
+  const ownMethods = new Set(methods.map(m => m.name.toLowerCase()));
+  const diagnostics: BslDiagnostic[] = [];
+  const report = (line: number, name: string, since: string) => diagnostics.push({
+    ruleId: PLATFORM_VERSION_RULE,
+    severity: 'error',
+    line,
+    message: `«${name}» доступно с версии ${since}, а в проекте задана ${targetVersion}`
+  });
+
+  tokens.forEach((token, i) => {
+    if (token.type !== 'identifier') return;
+    const previous = tokens[i - 1];
+    const next = tokens[i + 1];
+    const isCall = next?.type === 'punctuation' && next.value === '(';
+
+    if (previous?.type === 'punctuation' && previous.value === '.') {
+      // Only members that exist solely in types newer than the target: Добавить is everywhere
+      const candidates = MEMBERS_BY_NAME.get(token.value.toLowerCase());
+      if (!candidates) return;
+      const sinces = candidates.map(({ type, member }) => member.since || type.since);
+      if (sinces.every(since => isNewer(since, target))) {
+        const earliest = (sinces as string[]).reduce((a, b) => (compareVersions(parseVersion(a)!, parseVersion(b)!) <= 0 ? a : b));
+        report(token.line, token.value, earliest);
+      }
+      return;
+    }
+
+    if (previous?.type === 'keyword' && previous.keyword === 'new') {
+      const type = TYPES_BY_NAME.get(token.value.toLowerCase());
+      if (type && isNewer(type.since, target)) report(token.line, type.name, type.since);
+      return;
+    }
+
+    if (isCall && !ownMethods.has(token.value.toLowerCase())) {
+      const method = findGlobalMethod(token.value);
+      if (method && isNewer(method.since, target)) report(token.line, method.name, method.since);
+    }
+  });
+
+  return diagnostics;
+};
@@ -0,0 +1,44 @@
+// Namespace-agnostic DOM helpers for the XML formats we read (OOXML, Configurator dumps) and write
+
+export const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+export const byTag = (node: Document | Element, localName: string): Element[] =>
+  Array.from(node.getElementsByTagNameNS('*', localName));
+
+export const childrenByTag = (node: Element, localName: string): Element[] =>
+  Array.from(node.children).filter(c => c.localName === localName);
+
+export const childByTag = (node: Element | undefined, localName: string): Element | undefined =>
+  node ? Array.from(node.children).find(c => c.localName === localName) : undefined;
+
+export const attr = (el: Element, localName: string): string | null => {
+  for (const a of Array.from(el.attributes)) {
+    if (a.localName === localName) return a.value;
+  }
+  return null;
+};
+
+export const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// --- Designer dumps ---
+
+// Prefixes declared by every file of a dump; the default namespace depends on the root element
+export const DESIGNER_NAMESPACES = [
+  'xmlns:app="http://v8.1c.ru/8.2/managed-application/core"',
+  'xmlns:cfg="http://v8.1c.ru/8.1/data/enterprise/current-config"',
+  'xmlns:v8="http://v8.1c.ru/8.1/data/core"',
+  'xmlns:xr="http://v8.1c.ru/8.3/xcf/readable"',
+  'xmlns:xs="http://www.w3.org/2001/XMLSchema"',
+  'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"'
+].join(' ');
+
+// Designer writes every file of a dump in UTF-8 with BOM
+export const withBom = (data: string): string => `\uFEFF${data.replace(/^\uFEFF/, '')}`;
+
+// Russian synonym of an object; without an indent the element is written on one line
+export const synonymXml = (synonym?: string, indent?: string): string => {
+  if (!synonym) return '<Synonym/>';
+  const line = (depth: number, text: string) => (indent === undefined ? text : `\n${indent}${'\t'.repeat(depth)}${text}`);
+  return `<Synonym>${line(1, '<v8:item>')}${line(2, '<v8:lang>ru</v8:lang>')}${line(2, `<v8:content>${escapeXml(synonym)}</v8:content>`)}${line(1, '</v8:item>')}${line(0, '</Synonym>')}`;
+};
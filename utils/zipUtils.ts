@@ -0,0 +1,195 @@
+// Minimal ZIP reader built on the browser's DecompressionStream (no ZIP64, no encryption) and a writer of
+// stored archives. Enough for OOXML documents and Configurator dumps packed with standard archivers.
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  isDirectory: boolean;
+  read: () => Promise<Uint8Array>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+// Bit 11 of the general purpose flag marks UTF-8 names; Windows archivers otherwise use the OEM code page
+const FLAG_UTF8 = 0x0800;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+  // The EOCD record is at least 22 bytes and may be followed by a comment of up to 64 KB
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  throw new Error('Файл не является ZIP-архивом');
+};
+
+export const readZip = async (input: ArrayBuffer | Uint8Array): Promise<ZipEntry[]> => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const utf8 = new TextDecoder('utf-8');
+  const oem = new TextDecoder('ibm866');
+
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64-архивы не поддерживаются');
+  }
+
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Повреждённый ZIP-архив');
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+
+    const nameBytes = bytes.subarray(offset + 46, offset + 46 + nameLength);
+    const name = ((flags & FLAG_UTF8) ? utf8 : oem).decode(nameBytes).replace(/\\/g, '/');
+
+    entries.push({
+      name,
+      size,
+      isDirectory: name.endsWith('/'),
+      read: async () => {
+        if (view.getUint32(localHeaderOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+          throw new Error(`Повреждённая запись архива: ${name}`);
+        }
+        const localNameLength = view.getUint16(localHeaderOffset + 26, true);
+        const localExtraLength = view.getUint16(localHeaderOffset + 28, true);
+        const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === METHOD_STORE) return data;
+        if (method === METHOD_DEFLATE) return inflateRaw(data);
+        throw new Error(`Неподдерживаемый метод сжатия (${method}): ${name}`);
+      }
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+// Decodes UTF-8 text, dropping the BOM that 1C and Office tools like to write
+export const decodeText = (data: Uint8Array): string =>
+  new TextDecoder('utf-8').decode(data).replace(/^\uFEFF/, '');
+
+export const readZipText = async (entries: ZipEntry[], path: string): Promise<string | null> => {
+  const entry = entries.find(e => e.name === path);
+  return entry ? decodeText(await entry.read()) : null;
+};
+
+export interface ZipFileInput {
+  name: string;
+  data: Uint8Array | string; // Strings are written as UTF-8
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// DOS date and time of the local clock, as archivers show them
+const dosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+];
+
+// Writes an uncompressed archive with UTF-8 names: generated files are small, and every
+// archiver, including the Windows one, opens stored entries
+export const writeZip = (files: ZipFileInput[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const [time, date] = dosDateTime(new Date());
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = typeof file.data === 'string' ? encoder.encode(file.data) : file.data;
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    lv.setUint16(4, 20, true); // Version needed to extract: 2.0
+    lv.setUint16(6, FLAG_UTF8, true);
+    lv.setUint16(8, METHOD_STORE, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, FLAG_UTF8, true);
+    cv.setUint16(10, METHOD_STORE, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, EOCD_SIGNATURE, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const result = new Uint8Array(offset + centralSize + eocd.length);
+  let position = 0;
+  [...locals, ...centrals, eocd].forEach(part => {
+    result.set(part, position);
+    position += part.length;
+  });
+  return result;
+};